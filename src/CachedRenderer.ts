@@ -1,4 +1,5 @@
 import { Renderer } from './renderer';
+import { fillBufferWithTransformedRectangleVertices } from './utils/buffer';
 
 /**
  * CachedRenderer extends the base Renderer with integrated cache management
@@ -11,14 +12,13 @@ export class CachedRenderer extends Renderer {
 	private cacheAccessOrder: string[]; // For LRU tracking
 	private maxCacheItems: number;
 	private currentCacheId: string | null = null;
-	// Draw order segmentation: preserves relative order between sprite-sheet draws and cached quads
-	private segments: Array<{ texture: WebGLTexture | 'SPRITESHEET'; alpha: number; start: number; end?: number }> = [];
-	private currentSegmentTexture: WebGLTexture | 'SPRITESHEET' = 'SPRITESHEET';
-	private currentSegmentAlpha = 1;
 
 	// Dedicated CPU-side buffers for cache capture to avoid touching frame buffers
 	private cacheVertexBuffer: Float32Array;
 	private cacheTexcoordBuffer: Float32Array;
+	private cacheColorBuffer: Float32Array;
+	private cacheQuadLayers: Float32Array;
+	private cacheQuadStates: Uint32Array;
 
 	constructor(canvas: HTMLCanvasElement, maxCacheItems: number = 50) {
 		super(canvas);
@@ -31,6 +31,9 @@ export class CachedRenderer extends Renderer {
 		// Allocate dedicated capture buffers matching current buffer size
 		this.cacheVertexBuffer = new Float32Array(this.bufferSize);
 		this.cacheTexcoordBuffer = new Float32Array(this.bufferSize);
+		this.cacheColorBuffer = new Float32Array(this.colorBuffer.length);
+		this.cacheQuadLayers = new Float32Array(this.quadLayers.length);
+		this.cacheQuadStates = new Uint32Array(this.quadStates.length);
 	}
 
 	/** Ensure dedicated capture buffers track size changes */
@@ -38,43 +41,9 @@ export class CachedRenderer extends Renderer {
 		super.growBuffer(newSize);
 		this.cacheVertexBuffer = new Float32Array(this.bufferSize);
 		this.cacheTexcoordBuffer = new Float32Array(this.bufferSize);
-	}
-
-	/**
-	 * Override drawing methods to respect cache state
-	 */
-	drawSpriteFromCoordinates(
-		x: number,
-		y: number,
-		width: number,
-		height: number,
-		spriteX: number,
-		spriteY: number,
-		spriteWidth: number = width,
-		spriteHeight: number = height
-	): void {
-		// Record that subsequent vertices belong to the sprite sheet segment (only during playback)
-		if (this.currentCacheId === null) {
-			this.ensureSegment('SPRITESHEET', 1);
-		}
-		super.drawSpriteFromCoordinates(x, y, width, height, spriteX, spriteY, spriteWidth, spriteHeight);
-	}
-
-	drawLineFromCoordinates(
-		x1: number,
-		y1: number,
-		x2: number,
-		y2: number,
-		spriteX: number,
-		spriteY: number,
-		spriteWidth: number,
-		spriteHeight: number,
-		thickness: number
-	): void {
-		if (this.currentCacheId === null) {
-			this.ensureSegment('SPRITESHEET', 1);
-		}
-		super.drawLineFromCoordinates(x1, y1, x2, y2, spriteX, spriteY, spriteWidth, spriteHeight, thickness);
+		this.cacheColorBuffer = new Float32Array(this.colorBuffer.length);
+		this.cacheQuadLayers = new Float32Array(this.quadLayers.length);
+		this.cacheQuadStates = new Uint32Array(this.quadStates.length);
 	}
 
 	/**
@@ -102,15 +71,30 @@ export class CachedRenderer extends Renderer {
 		// Save current CPU-side buffers and counters
 		const savedVertexBuffer = this.vertexBuffer;
 		const savedTexcoordBuffer = this.textureCoordinateBuffer;
+		const savedColorBuffer = this.colorBuffer;
+		const savedQuadLayers = this.quadLayers;
+		const savedQuadStates = this.quadStates;
+		const savedBatchStates = this.batchStates;
+		const savedBatchStateIndex = this.batchStateIndex;
+		const savedTransform = this.transform;
+		const savedTargetHeight = this.targetHeight;
 		const savedBufferPointer = this.bufferPointer;
 		const savedBufferCounter = this.bufferCounter;
 
 		// Switch to dedicated capture buffers for cache rendering
 		this.vertexBuffer = this.cacheVertexBuffer;
 		this.textureCoordinateBuffer = this.cacheTexcoordBuffer;
+		this.colorBuffer = this.cacheColorBuffer;
+		this.quadLayers = this.cacheQuadLayers;
+		this.quadStates = this.cacheQuadStates;
 		this.bufferPointer = 0;
 		this.bufferCounter = 0;
 
+		// Cache content is captured in its own local space with the sprite sheet
+		this.batchStates = [this.createDefaultBatchState()];
+		this.batchStateIndex = 0;
+		this.transform = [1, 0, 0, 1, 0, 0];
+
 		// Create new cache entry
 		const cacheTexture = this.createCacheTexture(width, height);
 		const cacheFramebuffer = this.createCacheFramebuffer(cacheTexture);
@@ -130,6 +114,7 @@ export class CachedRenderer extends Renderer {
 
 		// Update resolution uniform to match cache target
 		this.setUniform('u_resolution', width, height);
+		this.targetHeight = height;
 
 		// Make sure sprite sheet is bound for rendering to cache
 		if (this.spriteSheet) {
@@ -173,6 +158,13 @@ export class CachedRenderer extends Renderer {
 			// Restore original CPU-side buffers and counters
 			this.vertexBuffer = savedVertexBuffer;
 			this.textureCoordinateBuffer = savedTexcoordBuffer;
+			this.colorBuffer = savedColorBuffer;
+			this.quadLayers = savedQuadLayers;
+			this.quadStates = savedQuadStates;
+			this.batchStates = savedBatchStates;
+			this.batchStateIndex = savedBatchStateIndex;
+			this.transform = savedTransform;
+			this.targetHeight = savedTargetHeight;
 			this.bufferPointer = savedBufferPointer;
 			this.bufferCounter = savedBufferCounter;
 
@@ -217,40 +209,25 @@ export class CachedRenderer extends Renderer {
 	 * @param height - Height to draw the texture
 	 * @param x - X position to draw at (default 0)
 	 * @param y - Y position to draw at (default 0)
+	 * @param alpha - Replay opacity, written into the quad's vertex colors (default 1)
 	 */
 	drawCachedTexture(texture: WebGLTexture, width: number, height: number, x: number = 0, y: number = 0, alpha: number = 1): void {
 		// Never draw cached content while capturing a cache
 		if (this.currentCacheId !== null) return;
 
-		// Ensure a segment for this cached texture
-		this.ensureSegment(texture, alpha);
-
 		// Auto-flush buffer if full (unlikely here, but safe)
 		if (this.bufferCounter + 12 > this.bufferSize) {
 			super.renderVertexBuffer();
 			this.resetBuffers();
-			this.ensureSegment(texture, alpha);
 		}
 
-		// Append one textured quad
+		// Cached quads sample their own texture instead of the sprite sheet
+		this.useBatchState({ texture });
+
+		// Append one textured quad, placed by the current transform
 		const off = this.bufferPointer;
-		const x1 = x,
-			x2 = x + width,
-			y1 = y,
-			y2 = y + height;
-		// positions
-		this.vertexBuffer[off] = x1;
-		this.vertexBuffer[off + 1] = y1;
-		this.vertexBuffer[off + 2] = x2;
-		this.vertexBuffer[off + 3] = y1;
-		this.vertexBuffer[off + 4] = x1;
-		this.vertexBuffer[off + 5] = y2;
-		this.vertexBuffer[off + 6] = x1;
-		this.vertexBuffer[off + 7] = y2;
-		this.vertexBuffer[off + 8] = x2;
-		this.vertexBuffer[off + 9] = y1;
-		this.vertexBuffer[off + 10] = x2;
-		this.vertexBuffer[off + 11] = y2;
+		const [a, b, c, d, e, f] = this.transform;
+		fillBufferWithTransformedRectangleVertices(this.vertexBuffer, off, x, y, width, height, a, b, c, d, e, f);
 		// UVs: flip V only to compensate FBO orientation
 		this.textureCoordinateBuffer[off] = 0;
 		this.textureCoordinateBuffer[off + 1] = 1;
@@ -264,118 +241,12 @@ export class CachedRenderer extends Renderer {
 		this.textureCoordinateBuffer[off + 9] = 1;
 		this.textureCoordinateBuffer[off + 10] = 1;
 		this.textureCoordinateBuffer[off + 11] = 0;
+		this.fillQuadAttributes({ alpha });
 
 		this.bufferCounter += 12;
 		this.bufferPointer = this.bufferCounter;
 	}
 
-	/**
-	 * Render buffer content using whatever texture is currently bound to TEXTURE0.
-	 * This avoids the base class behavior of rebinding the sprite sheet.
-	 */
-	private renderVertexBufferWithCurrentTexture(): void {
-		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glTextureCoordinateBuffer);
-		this.gl.bufferData(this.gl.ARRAY_BUFFER, this.textureCoordinateBuffer, this.gl.STATIC_DRAW);
-
-		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glPositionBuffer);
-		this.gl.bufferData(this.gl.ARRAY_BUFFER, this.vertexBuffer, this.gl.STATIC_DRAW);
-
-		this.gl.drawArrays(this.gl.TRIANGLES, 0, Math.min(this.bufferCounter / 2, this.bufferSize / 2));
-
-		if (this.isPerformanceMeasurementMode) {
-			this.gl.finish();
-		}
-	}
-
-	/** Render the frame to the off-screen texture, honoring draw order via segments */
-	renderWithPostProcessing(elapsedTime: number): void {
-		// Close the current segment if needed
-		if (
-			this.currentCacheId === null &&
-			this.segments.length > 0 &&
-			this.segments[this.segments.length - 1].end === undefined
-		) {
-			this.segments[this.segments.length - 1].end = this.bufferCounter / 2;
-		}
-
-		this.startRenderToTexture();
-
-		// Render background effect before sprites
-		const renderedBackground = this.backgroundEffectManager.render(
-			elapsedTime,
-			this.renderTextureWidth,
-			this.renderTextureHeight,
-		);
-		if (renderedBackground) {
-			this.restoreSpriteState();
-		}
-
-		// Upload buffers once
-		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glTextureCoordinateBuffer);
-		this.gl.bufferData(this.gl.ARRAY_BUFFER, this.textureCoordinateBuffer, this.gl.STATIC_DRAW);
-		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glPositionBuffer);
-		this.gl.bufferData(this.gl.ARRAY_BUFFER, this.vertexBuffer, this.gl.STATIC_DRAW);
-
-		const textureLocation = this.gl.getUniformLocation(this.program, 'u_texture');
-		if (textureLocation) {
-			// @ts-ignore
-			this.gl.uniform1i(textureLocation, 0);
-		}
-
-		if (this.currentCacheId === null && this.segments.length > 0) {
-			for (const seg of this.segments) {
-				const start = seg.start;
-				const end = seg.end ?? this.bufferCounter / 2;
-				const count = end - start;
-				if (count <= 0) continue;
-				this.gl.activeTexture(this.gl.TEXTURE0);
-				this.setAlpha(seg.alpha);
-				if (seg.texture === 'SPRITESHEET') {
-					if (this.spriteSheet) this.gl.bindTexture(this.gl.TEXTURE_2D, this.spriteSheet);
-				} else {
-					this.gl.bindTexture(this.gl.TEXTURE_2D, seg.texture);
-				}
-				this.gl.drawArrays(this.gl.TRIANGLES, start, count);
-			}
-			this.setAlpha(1);
-		} else {
-			// Fallback for capture mode
-			super.renderVertexBuffer();
-		}
-
-		this.endRenderToTexture();
-		this.gl.flush();
-		this.gl.bindTexture(this.gl.TEXTURE_2D, null);
-		this.renderPostProcess(elapsedTime);
-
-		// Reset segments for next frame, keep counters for stats
-		this.segments.length = 0;
-		this.currentSegmentTexture = 'SPRITESHEET';
-		this.currentSegmentAlpha = 1;
-	}
-
-	private ensureSegment(texture: WebGLTexture | 'SPRITESHEET', alpha: number): void {
-		if (this.currentCacheId !== null) return; // don't record during capture
-		const currentVertexIndex = this.bufferCounter / 2;
-		if (this.segments.length === 0) {
-			// First segment of the frame
-			this.segments.push({ texture, alpha, start: currentVertexIndex });
-			this.currentSegmentTexture = texture;
-			this.currentSegmentAlpha = alpha;
-			return;
-		}
-		if (this.currentSegmentTexture !== texture || this.currentSegmentAlpha !== alpha) {
-			// Close previous segment, if open
-			if (this.segments[this.segments.length - 1].end === undefined) {
-				this.segments[this.segments.length - 1].end = currentVertexIndex;
-			}
-			// Start new segment at current vertex index
-			this.segments.push({ texture, alpha, start: currentVertexIndex });
-			this.currentSegmentTexture = texture;
-			this.currentSegmentAlpha = alpha;
-		}
-	}
-
 	/**
 	 * Check if a cache entry exists
 	 * @param cacheId - ID to check
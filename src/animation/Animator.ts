@@ -0,0 +1,184 @@
+import type { AnimationDefinition, AnimationLookup } from '../types/animation';
+
+/**
+ * Playback state of one animated sprite. Advance it with update(), or create it with
+ * Engine.createAnimator() to have the engine advance it every frame.
+ */
+export class Animator {
+	/** Current animation id */
+	animationId: string;
+	/** Index into the current animation's frames */
+	frameIndex: number = 0;
+	/** Playback rate multiplier; 1 is normal speed */
+	speed: number = 1;
+	playing: boolean = true;
+	/** Set once a 'once' or repeating animation has stopped on its final frame */
+	finished: boolean = false;
+
+	/** Called when a frame with an event is shown */
+	onEvent?: (event: string, frameIndex: number) => void;
+	/** Called whenever a new frame is shown */
+	onFrame?: (frame: string | number, frameIndex: number) => void;
+	/** Called when a 'once' or repeating animation finishes */
+	onComplete?: (animationId: string) => void;
+
+	private readonly animations: AnimationLookup;
+	private animation!: AnimationDefinition;
+	private elapsed: number = 0; // milliseconds spent on the current frame
+	private direction: 1 | -1 = 1;
+	private passes: number = 0;
+	private frameShown: boolean = false; // callbacks have run for the current frame
+
+	/**
+	 * Creates an animator playing the given animation from its first frame
+	 * @param animations - Animation definitions, looked up by id on every play()
+	 * @param animationId - Animation to start with
+	 */
+	constructor(animations: AnimationLookup, animationId: string) {
+		this.animations = animations;
+		this.animationId = animationId;
+		this.play(animationId, true);
+	}
+
+	/**
+	 * Sprite lookup key of the current frame
+	 */
+	get frame(): string | number {
+		return this.animation.frames[this.frameIndex];
+	}
+
+	/**
+	 * Switch to another animation. Playing the current animation again keeps its progress
+	 * unless restart is set.
+	 * @param animationId - Animation to play
+	 * @param restart - Start from the first frame even if the animation is already playing
+	 * @throws Error if the animation is unknown or invalid
+	 */
+	play(animationId: string, restart: boolean = false): void {
+		if (animationId === this.animationId && this.animation && !restart) {
+			this.playing = true;
+			return;
+		}
+
+		const animation = this.animations[animationId];
+		if (!animation) {
+			throw new Error(`Unknown animation: ${animationId}`);
+		}
+		validateAnimation(animationId, animation);
+
+		this.animationId = animationId;
+		this.animation = animation;
+		this.direction = animation.reverse ? -1 : 1;
+		this.frameIndex = animation.reverse ? animation.frames.length - 1 : 0;
+		this.elapsed = 0;
+		this.passes = 0;
+		this.playing = true;
+		this.finished = false;
+		this.frameShown = false;
+	}
+
+	/**
+	 * Pause playback on the current frame
+	 */
+	pause(): void {
+		this.playing = false;
+	}
+
+	/**
+	 * Continue playback after pause()
+	 */
+	resume(): void {
+		this.playing = true;
+	}
+
+	/**
+	 * Advance playback, firing frame callbacks for every frame shown along the way
+	 * @param deltaTime - Time since the last update in seconds
+	 */
+	update(deltaTime: number): void {
+		if (!this.playing) {
+			return;
+		}
+
+		// The first frame counts as shown on the first update, so callbacks set after creation see it
+		if (!this.frameShown) {
+			this.showFrame();
+		}
+
+		this.elapsed += deltaTime * 1000 * this.speed;
+		let duration = this.getFrameDuration();
+		while (this.elapsed >= duration) {
+			this.elapsed -= duration;
+			if (!this.advance()) {
+				return;
+			}
+			duration = this.getFrameDuration();
+		}
+	}
+
+	private getFrameDuration(): number {
+		const { durations } = this.animation;
+		return typeof durations === 'number' ? durations : durations[this.frameIndex];
+	}
+
+	/**
+	 * Step to the next frame
+	 * @returns false if the animation finished instead
+	 */
+	private advance(): boolean {
+		const { frames, mode = 'loop', repeat } = this.animation;
+		let next = this.frameIndex + this.direction;
+
+		if (next < 0 || next >= frames.length) {
+			this.passes++;
+			const passes = mode === 'once' ? 1 : repeat;
+			if (passes !== undefined && this.passes >= passes) {
+				this.elapsed = 0;
+				this.playing = false;
+				this.finished = true;
+				this.onComplete?.(this.animationId);
+				return false;
+			}
+
+			if (mode === 'pingpong') {
+				// Turn around without showing the end frame twice
+				this.direction = this.direction === 1 ? -1 : 1;
+				next = Math.min(Math.max(this.frameIndex + this.direction, 0), frames.length - 1);
+			} else {
+				next = this.direction === 1 ? 0 : frames.length - 1;
+			}
+		}
+
+		this.frameIndex = next;
+		this.showFrame();
+		return true;
+	}
+
+	private showFrame(): void {
+		this.frameShown = true;
+		this.onFrame?.(this.frame, this.frameIndex);
+		const event = this.animation.events?.[this.frameIndex];
+		if (event !== undefined) {
+			this.onEvent?.(event, this.frameIndex);
+		}
+	}
+}
+
+/**
+ * Check an animation definition before playing it
+ * @throws Error naming the animation if it has no frames or a bad duration
+ */
+function validateAnimation(animationId: string, animation: AnimationDefinition): void {
+	const { frames, durations } = animation;
+	if (!Array.isArray(frames) || frames.length === 0) {
+		throw new Error(`Animation "${animationId}" has no frames.`);
+	}
+
+	const list = typeof durations === 'number' ? [durations] : durations;
+	if (!Array.isArray(list) || (typeof durations !== 'number' && list.length !== frames.length)) {
+		throw new Error(`Animation "${animationId}" needs one duration, or one per frame (${frames.length}).`);
+	}
+	if (list.some(duration => !(duration > 0) || !Number.isFinite(duration))) {
+		throw new Error(`Animation "${animationId}" has a duration that is not a positive number of milliseconds.`);
+	}
+}
@@ -0,0 +1,27 @@
+import type { AsepriteAnimation } from '../types/atlas';
+import type { AnimationDefinition, AnimationLookup } from '../types/animation';
+
+/**
+ * Convert the frame tags read by parseAsepriteAtlas() into animation definitions.
+ * Tag directions map to modes ('reverse' plays a loop backwards) and repeat counts carry over.
+ *
+ * @param animations - Animations from parseAsepriteAtlas()
+ */
+export function animationsFromAseprite(animations: Record<string, AsepriteAnimation>): AnimationLookup {
+	const lookup: AnimationLookup = {};
+	for (const [name, { frames, durations, direction, repeat }] of Object.entries(animations)) {
+		const animation: AnimationDefinition = {
+			frames: [...frames],
+			durations: [...durations],
+			mode: direction === 'pingpong' || direction === 'pingpong_reverse' ? 'pingpong' : 'loop',
+		};
+		if (direction === 'reverse' || direction === 'pingpong_reverse') {
+			animation.reverse = true;
+		}
+		if (repeat !== undefined) {
+			animation.repeat = repeat;
+		}
+		lookup[name] = animation;
+	}
+	return lookup;
+}
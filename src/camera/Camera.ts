@@ -0,0 +1,161 @@
+import type { CameraBounds } from '../types/camera';
+
+/**
+ * 2D camera - maps world coordinates to screen pixels with pan, zoom and rotation.
+ * The camera position is the world point shown at the center of the viewport.
+ */
+export class Camera {
+	x: number;
+	y: number;
+	zoom: number = 1;
+	rotation: number = 0; // radians, positive turns the view clockwise on screen
+	bounds: CameraBounds | null = null;
+
+	// Follow target and smoothing time constant in seconds (0 snaps to the target)
+	private targetX: number | null = null;
+	private targetY: number | null = null;
+	private smoothing: number = 0;
+
+	private viewportWidth: number;
+	private viewportHeight: number;
+
+	/**
+	 * Creates a camera centered on the viewport, so the initial view is the identity
+	 * @param viewportWidth - Viewport width in pixels
+	 * @param viewportHeight - Viewport height in pixels
+	 */
+	constructor(viewportWidth: number, viewportHeight: number) {
+		this.viewportWidth = viewportWidth;
+		this.viewportHeight = viewportHeight;
+		this.x = viewportWidth / 2;
+		this.y = viewportHeight / 2;
+	}
+
+	/**
+	 * Update the viewport size (called on canvas resize)
+	 * @param width - Viewport width in pixels
+	 * @param height - Viewport height in pixels
+	 */
+	setViewport(width: number, height: number): void {
+		this.viewportWidth = width;
+		this.viewportHeight = height;
+	}
+
+	/**
+	 * Move the camera so (x, y) is at the center of the viewport
+	 * @param x - World X coordinate
+	 * @param y - World Y coordinate
+	 */
+	lookAt(x: number, y: number): void {
+		this.x = x;
+		this.y = y;
+		this.clampToBounds();
+	}
+
+	/**
+	 * Follow a world position, easing towards it on each update
+	 * @param x - Target world X coordinate
+	 * @param y - Target world Y coordinate
+	 * @param smoothing - Time constant in seconds; 0 snaps to the target
+	 */
+	follow(x: number, y: number, smoothing: number = 0): void {
+		this.targetX = x;
+		this.targetY = y;
+		this.smoothing = smoothing;
+	}
+
+	/**
+	 * Stop following the current target, leaving the camera where it is
+	 */
+	stopFollowing(): void {
+		this.targetX = null;
+		this.targetY = null;
+	}
+
+	/**
+	 * Advance follow smoothing and apply bounds
+	 * @param deltaTime - Time since the last update in seconds
+	 */
+	update(deltaTime: number): void {
+		if (this.targetX !== null && this.targetY !== null) {
+			// Exponential smoothing is frame-rate independent
+			const t = this.smoothing > 0 ? 1 - Math.exp(-deltaTime / this.smoothing) : 1;
+			this.x += (this.targetX - this.x) * t;
+			this.y += (this.targetY - this.y) * t;
+		}
+		this.clampToBounds();
+	}
+
+	/**
+	 * Keep the visible area inside the bounds. Bounds smaller than the view are centered.
+	 * Rotation is ignored, so rotated views may show a little outside the bounds.
+	 */
+	private clampToBounds(): void {
+		if (!this.bounds) {
+			return;
+		}
+		const { x, y, width, height } = this.bounds;
+		const halfWidth = this.viewportWidth / (2 * this.zoom);
+		const halfHeight = this.viewportHeight / (2 * this.zoom);
+
+		this.x = width <= halfWidth * 2 ? x + width / 2 : Math.min(Math.max(this.x, x + halfWidth), x + width - halfWidth);
+		this.y =
+			height <= halfHeight * 2 ? y + height / 2 : Math.min(Math.max(this.y, y + halfHeight), y + height - halfHeight);
+	}
+
+	/**
+	 * Write the world-to-screen matrix as a column-major mat3
+	 * @param out - Destination array of at least 9 floats
+	 * @returns The destination array
+	 */
+	getViewMatrix(out: Float32Array = new Float32Array(9)): Float32Array {
+		const cos = Math.cos(this.rotation) * this.zoom;
+		const sin = Math.sin(this.rotation) * this.zoom;
+		const centerX = this.viewportWidth / 2;
+		const centerY = this.viewportHeight / 2;
+
+		// screen = center + zoom * rotate(world - position)
+		out[0] = cos;
+		out[1] = sin;
+		out[2] = 0;
+		out[3] = -sin;
+		out[4] = cos;
+		out[5] = 0;
+		out[6] = centerX - cos * this.x + sin * this.y;
+		out[7] = centerY - sin * this.x - cos * this.y;
+		out[8] = 1;
+		return out;
+	}
+
+	/**
+	 * Convert a world position to screen pixels
+	 * @param x - World X coordinate
+	 * @param y - World Y coordinate
+	 */
+	worldToScreen(x: number, y: number): { x: number; y: number } {
+		const cos = Math.cos(this.rotation) * this.zoom;
+		const sin = Math.sin(this.rotation) * this.zoom;
+		const dx = x - this.x;
+		const dy = y - this.y;
+		return {
+			x: this.viewportWidth / 2 + cos * dx - sin * dy,
+			y: this.viewportHeight / 2 + sin * dx + cos * dy,
+		};
+	}
+
+	/**
+	 * Convert screen pixels (e.g. pointer coordinates) to a world position
+	 * @param x - Screen X coordinate
+	 * @param y - Screen Y coordinate
+	 */
+	screenToWorld(x: number, y: number): { x: number; y: number } {
+		const cos = Math.cos(this.rotation) / this.zoom;
+		const sin = Math.sin(this.rotation) / this.zoom;
+		const dx = x - this.viewportWidth / 2;
+		const dy = y - this.viewportHeight / 2;
+		return {
+			x: this.x + cos * dx + sin * dy,
+			y: this.y - sin * dx + cos * dy,
+		};
+	}
+}
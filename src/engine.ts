@@ -1,9 +1,56 @@
 import { Renderer } from './renderer';
+import type { MaskState } from './renderer';
 import { CachedRenderer } from './CachedRenderer';
-
-import type { SpriteLookup, EngineOptions } from './types';
+import { Camera } from './camera/Camera';
+import { Animator } from './animation/Animator';
+import { Tilemap } from './tilemap/Tilemap';
+import { ParticleEmitter } from './particles/ParticleEmitter';
+import { layoutText, measureText } from './text/layoutText';
+import { getRichTextEffectOffset, layoutRichText, parseRichText } from './text/richText';
+import { getDefaultSegments, tessellatePolyline } from './utils/shapes';
+import { getCatmullRomPoints, getCubicBezierPoints, getQuadraticBezierPoints } from './utils/curves';
+
+import type {
+	SpriteCoordinates,
+	SpriteLookup,
+	Transform,
+	ClipRect,
+	BlendMode,
+	EngineOptions,
+	DrawOptions,
+	SpriteDrawOptions,
+	BulkSpriteOptions,
+	NineSliceInsets,
+	NineSliceFill,
+	NineSliceOptions,
+	ShapeOptions,
+	ArcOptions,
+	LineOptions,
+	PolylineOptions,
+	CurveOptions,
+} from './types';
 import type { PostProcessEffect } from './types/postProcess';
 import type { BackgroundEffect } from './types/background';
+import type { AnimationLookup } from './types/animation';
+import type { TilemapLayer, TileRange } from './types/tilemap';
+import type { ParticleEmitterOptions } from './types/particles';
+import type { SpriteTable } from './types/spriteTable';
+import type {
+	BitmapFont,
+	BitmapTextOptions,
+	RichTextOptions,
+	RichTextRun,
+	TextBoxOptions,
+	TextMeasureOptions,
+	TextMetrics,
+} from './types/font';
+
+/**
+ * Remainder that is never negative, for positions in repeating patterns
+ */
+function positiveModulo(value: number, divisor: number): number {
+	return ((value % divisor) + divisor) % divisor;
+}
 
 /**
  * High-level 2D engine - provides convenient drawing methods using sprite lookup
@@ -12,24 +59,49 @@ export class Engine {
 	private renderer: Renderer;
 	private readonly cachingEnabled: boolean;
 
-	// Cache-related state (only used when caching is enabled)
-	private savedOffsetX: number | null = null;
-	private savedOffsetY: number | null = null;
-
 	// Performance tracking
 	frameCounter: number;
 	startTime: number;
 	lastRenderFinishTime: number;
 	lastRenderStartTime: number;
 
-	// Transform system (for grouping sprites with relative positioning)
-	offsetX: number;
-	offsetY: number;
-	offsetGroups: number[][];
+	// Transform system: the current transform lives on the renderer, saved ones on this stack
+	private transformStack: Transform[] = [];
+
+	// Clip rects replaced by pushClipRect(), restored by popClipRect()
+	private clipStack: Array<ClipRect | null> = [];
+
+	// Masks replaced by startMask(), restored by endMask()
+	private maskStack: Array<MaskState | null> = [];
+	private maskCounter = 0;
 
 	// Sprite lookup system
 	spriteLookup: SpriteLookup;
 
+	// Camera applied to draws between startCamera() and endCamera()
+	camera: Camera;
+
+	// Animation definitions and the animators advanced by the render loop
+	animations: AnimationLookup = {};
+	private animators: Set<Animator> = new Set();
+
+	// Particle emitters advanced by the render loop, and reused sprite regions for drawing particles
+	private particleEmitters: Set<ParticleEmitter> = new Set();
+	private particleSprites = new Float32Array(16);
+
+	// Reused vertex storage for filled shapes (grown as needed), polylines and curve points
+	private shapeVertices = new Float32Array(256);
+	private polylineVertices: number[] = [];
+	private curvePoints: number[] = [];
+
+	// Fonts that rich text can switch to with [font=name]
+	fonts: Record<string, BitmapFont> = {};
+
+	// Seconds since the previous frame and since the engine started, and the tilemaps whose animations advanced this frame
+	private deltaTime = 0;
+	private elapsedTime = 0;
+	private updatedTilemaps: Set<Tilemap> = new Set();
+
 	/**
 	 * Creates a new 2D rendering engine instance
 	 * @param canvas - The HTML canvas element to render to
@@ -43,37 +115,275 @@ export class Engine {
 		} else {
 			this.renderer = new Renderer(canvas);
 		}
+		this.renderer.sortByY = options?.sortByY ?? false;
+		this.renderer.instancing = options?.instancing ?? false;
+		this.renderer.orphanBuffers = options?.orphanBuffers ?? false;
+		this.camera = new Camera(canvas.width, canvas.height);
 
 		// Initialize performance tracking and transform state
 		this.startTime = Date.now();
 		this.frameCounter = 0;
-		this.offsetX = 0;
-		this.offsetY = 0;
-		this.offsetGroups = [];
 	}
 
 	/**
-	 * Begin a transform group - all subsequent draws will be offset by (x, y)
+	 * Begin drawing in world space - subsequent draws are transformed by the camera
+	 * until endCamera(). Draws outside this block (e.g. HUD) stay in screen space.
+	 */
+	startCamera(): void {
+		this.camera.getViewMatrix(this.renderer.viewMatrix);
+		this.renderer.setCameraEnabled(true);
+	}
+
+	/**
+	 * End world-space drawing - subsequent draws are in screen space again
+	 */
+	endCamera(): void {
+		this.renderer.setCameraEnabled(false);
+	}
+
+	/**
+	 * Convert screen pixels (e.g. pointer coordinates) to a world position
+	 * @param x - Screen X coordinate
+	 * @param y - Screen Y coordinate
+	 */
+	screenToWorld(x: number, y: number): { x: number; y: number } {
+		return this.camera.screenToWorld(x, y);
+	}
+
+	/**
+	 * Convert a world position to screen pixels
+	 * @param x - World X coordinate
+	 * @param y - World Y coordinate
+	 */
+	worldToScreen(x: number, y: number): { x: number; y: number } {
+		return this.camera.worldToScreen(x, y);
+	}
+
+	/**
+	 * Save the current transform - restore it with popTransform()
+	 */
+	pushTransform(): void {
+		this.transformStack.push(this.renderer.transform.slice() as Transform);
+	}
+
+	/**
+	 * Restore the transform saved by the matching pushTransform()
+	 */
+	popTransform(): void {
+		const transform = this.transformStack.pop();
+		if (!transform) {
+			throw new Error('No transform to pop');
+		}
+		this.renderer.transform = transform;
+	}
+
+	/**
+	 * Move the origin of subsequent draws
+	 * @param x - X translation in the current coordinate space
+	 * @param y - Y translation in the current coordinate space
+	 */
+	translate(x: number, y: number): void {
+		this.multiplyTransform(1, 0, 0, 1, x, y);
+	}
+
+	/**
+	 * Rotate subsequent draws around the current origin
+	 * @param angle - Rotation in radians, clockwise on screen
+	 */
+	rotate(angle: number): void {
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		this.multiplyTransform(cos, sin, -sin, cos, 0, 0);
+	}
+
+	/**
+	 * Scale subsequent draws around the current origin
+	 * @param scaleX - Horizontal scale factor
+	 * @param scaleY - Vertical scale factor (defaults to scaleX)
+	 */
+	scale(scaleX: number, scaleY: number = scaleX): void {
+		this.multiplyTransform(scaleX, 0, 0, scaleY, 0, 0);
+	}
+
+	/**
+	 * Skew subsequent draws around the current origin
+	 * @param skewX - Horizontal skew angle in radians
+	 * @param skewY - Vertical skew angle in radians
+	 */
+	skew(skewX: number, skewY: number = 0): void {
+		this.multiplyTransform(1, Math.tan(skewY), Math.tan(skewX), 1, 0, 0);
+	}
+
+	/**
+	 * Combine a matrix into the current transform (applied before the existing transform)
+	 */
+	private multiplyTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+		const t = this.renderer.transform;
+		this.renderer.transform = [
+			t[0] * a + t[2] * b,
+			t[1] * a + t[3] * b,
+			t[0] * c + t[2] * d,
+			t[1] * c + t[3] * d,
+			t[0] * e + t[2] * f + t[4],
+			t[1] * e + t[3] * f + t[5],
+		];
+	}
+
+	/**
+	 * Translation part of the current transform
+	 */
+	get offsetX(): number {
+		return this.renderer.transform[4];
+	}
+
+	set offsetX(value: number) {
+		this.renderer.transform[4] = value;
+	}
+
+	get offsetY(): number {
+		return this.renderer.transform[5];
+	}
+
+	set offsetY(value: number) {
+		this.renderer.transform[5] = value;
+	}
+
+	/**
+	 * Clip subsequent draws to a rectangle, intersected with the current clip rect.
+	 * The rectangle goes through the current transform; rotated or skewed rectangles
+	 * clip to their bounding box. The camera does not apply to clip rects.
+	 * @param x - Left edge in the current coordinate space
+	 * @param y - Top edge in the current coordinate space
+	 * @param width - Rectangle width
+	 * @param height - Rectangle height
+	 */
+	pushClipRect(x: number, y: number, width: number, height: number): void {
+		const [a, b, c, d, e, f] = this.renderer.transform;
+		const x2 = x + width;
+		const y2 = y + height;
+		const cornersX = [a * x + c * y + e, a * x2 + c * y + e, a * x + c * y2 + e, a * x2 + c * y2 + e];
+		const cornersY = [b * x + d * y + f, b * x2 + d * y + f, b * x + d * y2 + f, b * x2 + d * y2 + f];
+
+		// Scissor rects are whole pixels
+		let left = Math.round(Math.min(...cornersX));
+		let top = Math.round(Math.min(...cornersY));
+		let right = Math.round(Math.max(...cornersX));
+		let bottom = Math.round(Math.max(...cornersY));
+
+		const current = this.renderer.getClipRect();
+		if (current) {
+			left = Math.max(left, current.x);
+			top = Math.max(top, current.y);
+			right = Math.min(right, current.x + current.width);
+			bottom = Math.min(bottom, current.y + current.height);
+		}
+
+		this.clipStack.push(current);
+		this.renderer.setClipRect({
+			x: left,
+			y: top,
+			width: Math.max(0, right - left),
+			height: Math.max(0, bottom - top),
+		});
+	}
+
+	/**
+	 * Restore the clip rect that was active before the matching pushClipRect()
+	 */
+	popClipRect(): void {
+		if (this.clipStack.length === 0) {
+			throw new Error('No clip rect to pop');
+		}
+		this.renderer.setClipRect(this.clipStack.pop() ?? null);
+	}
+
+	/**
+	 * Begin a stencil mask - subsequent draws define the mask shape instead of drawing color.
+	 * Call startMaskedContent() to draw through the mask and endMask() to finish.
+	 * Masks nest up to 8 deep; a nested mask only covers pixels inside the enclosing one.
+	 * @param alphaThreshold - Minimum alpha for a shape pixel to be inside the mask
+	 */
+	startMask(alphaThreshold: number = 0.5): void {
+		const parent = this.renderer.getMask();
+		const depth = (parent?.depth ?? 0) + 1;
+		if (depth > 8) {
+			throw new Error('Masks can be nested at most 8 deep');
+		}
+
+		this.maskStack.push(parent);
+		this.renderer.setMask({ id: ++this.maskCounter, depth, mode: 'write', alphaThreshold });
+	}
+
+	/**
+	 * Switch from drawing the mask shape to drawing content clipped by it
+	 * @param inverted - Draw outside the mask shape instead of inside it
+	 */
+	startMaskedContent(inverted: boolean = false): void {
+		const mask = this.renderer.getMask();
+		if (!mask || this.maskStack.length === 0) {
+			throw new Error('No mask to draw content into');
+		}
+		this.renderer.setMask({ ...mask, mode: inverted ? 'invert' : 'test' });
+	}
+
+	/**
+	 * End the current mask - restore the enclosing mask, if any
+	 */
+	endMask(): void {
+		if (this.maskStack.length === 0) {
+			throw new Error('No mask to end');
+		}
+		this.renderer.setMask(this.maskStack.pop() ?? null);
+	}
+
+	/**
+	 * Begin a transform group - all subsequent draws will be offset by (x, y).
+	 * Shorthand for pushTransform() followed by translate(x, y).
 	 * @param x - X offset to apply to all draws in this group
 	 * @param y - Y offset to apply to all draws in this group
 	 */
 	startGroup(x: number, y: number): void {
-		this.offsetX += x;
-		this.offsetY += y;
-		this.offsetGroups.push([x, y]); // Save offset for endGroup()
+		this.pushTransform();
+		this.translate(x, y);
 	}
 
 	/**
-	 * End the current transform group - restore previous offset
+	 * End the current transform group - restore previous transform
 	 */
 	endGroup(): void {
-		const coordinates = this.offsetGroups.pop();
-		if (!coordinates) {
+		if (this.transformStack.length === 0) {
 			throw new Error('No group to end');
 		}
-		const [x, y] = coordinates;
-		this.offsetX -= x; // Undo the offset from startGroup
-		this.offsetY -= y;
+		this.popTransform();
+	}
+
+	/**
+	 * Set the layer used by subsequent draws that don't pass their own `layer` option.
+	 * Lower layers are drawn first, regardless of call order.
+	 * @param layer - Layer number (defaults to 0 at startup)
+	 */
+	setLayer(layer: number): void {
+		this.renderer.layer = layer;
+	}
+
+	/**
+	 * Set the blend mode used by subsequent draws that don't pass their own `blendMode` option.
+	 * Draw calls are only split where the blend mode changes.
+	 * @param blendMode - Blend mode ('normal' at startup)
+	 */
+	setBlendMode(blendMode: BlendMode): void {
+		this.renderer.setBlendMode(blendMode);
+	}
+
+	/**
+	 * Get/set sorting by bottom edge within each layer (for top-down games)
+	 */
+	get sortByY(): boolean {
+		return this.renderer.sortByY;
+	}
+
+	set sortByY(value: boolean) {
+		this.renderer.sortByY = value;
 	}
 
 	/**
@@ -91,6 +401,7 @@ export class Engine {
 	 */
 	resize(width: number, height: number): void {
 		this.renderer.resize(width, height);
+		this.camera.setViewport(width, height);
 	}
 
 	/**
@@ -106,7 +417,20 @@ export class Engine {
 		const fps = Math.floor(this.frameCounter / ((Date.now() - this.startTime) / 1000));
 		const timeToRender = this.lastRenderFinishTime - this.lastRenderStartTime;
 
-		this.lastRenderStartTime = performance.now();
+		// Advance camera follow smoothing and animations by the time since the previous frame
+		const frameStartTime = performance.now();
+		const deltaTime = this.lastRenderStartTime ? (frameStartTime - this.lastRenderStartTime) / 1000 : 0;
+		this.camera.update(deltaTime);
+		for (const animator of this.animators) {
+			animator.update(deltaTime);
+		}
+		for (const emitter of this.particleEmitters) {
+			emitter.update(deltaTime);
+		}
+		this.deltaTime = deltaTime;
+		this.updatedTilemaps.clear();
+
+		this.lastRenderStartTime = frameStartTime;
 
 		// Clear screen for new frame
 		this.renderer.clearScreen();
@@ -114,10 +438,14 @@ export class Engine {
 		// Update time uniform for shader effects (like animations)
 		const elapsedTime = (Date.now() - this.startTime) / 1000; // convert to seconds
 		this.renderer.updateTime(elapsedTime);
+		this.elapsedTime = elapsedTime;
 
 		// Let user code draw sprites (fills the buffers)
 		callback(timeToRender, fps, triangles, maxTriangles);
 
+		// Pick up camera changes made while drawing
+		this.camera.getViewMatrix(this.renderer.viewMatrix);
+
 		// Render sprites to texture, then apply post-processing effects
 		this.renderer.renderWithPostProcessing(elapsedTime);
 
@@ -132,27 +460,421 @@ export class Engine {
 	}
 
 	/**
-	 * Draw rectangle outline using 4 lines
+	 * Draw rectangle outline using 4 lines, clockwise from the top left corner.
+	 * Dash patterns and tiled sprites continue around the corners.
 	 * @param x - Top left X coordinate
 	 * @param y - Top left Y coordinate
 	 * @param width - Rectangle width
 	 * @param height - Rectangle height
 	 * @param sprite - Sprite to use for line texture
 	 * @param thickness - Line thickness in pixels
+	 * @param options - Optional sprite fill, dash pattern, tint and layer
+	 */
+	drawRectangle(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		sprite: string | number,
+		thickness = 1,
+		options?: LineOptions
+	): void {
+		let distance = options?.dashOffset ?? 0;
+		this.drawSpriteLine(x, y, x + width, y, sprite, thickness, options, distance);
+		distance += Math.abs(width);
+		this.drawSpriteLine(x + width, y, x + width, y + height, sprite, thickness, options, distance);
+		distance += Math.abs(height);
+		this.drawSpriteLine(x + width, y + height, x, y + height, sprite, thickness, options, distance);
+		distance += Math.abs(width);
+		this.drawSpriteLine(x, y + height, x, y, sprite, thickness, options, distance);
+	}
+
+	/**
+	 * Draw a filled rectangle in a solid color
+	 * @param x - Top left X coordinate
+	 * @param y - Top left Y coordinate
+	 * @param width - Rectangle width
+	 * @param height - Rectangle height
+	 * @param options - Optional color (tint, defaults to white), alpha and layer
+	 */
+	fillRectangle(x: number, y: number, width: number, height: number, options?: DrawOptions): void {
+		const right = x + width;
+		const bottom = y + height;
+		const vertices = this.getShapeVertices(12);
+		vertices.set([x, y, right, y, right, bottom, x, bottom, right, bottom, x, y]);
+		this.renderer.drawSolidTriangles(vertices, 2, options);
+	}
+
+	/**
+	 * Draw a filled circle in a solid color
+	 * @param x - Center X coordinate
+	 * @param y - Center Y coordinate
+	 * @param radius - Circle radius
+	 * @param options - Optional segment count, color (tint, defaults to white), alpha and layer
+	 */
+	fillCircle(x: number, y: number, radius: number, options?: ShapeOptions): void {
+		this.fillEllipse(x, y, radius, radius, options);
+	}
+
+	/**
+	 * Draw a filled ellipse in a solid color
+	 * @param x - Center X coordinate
+	 * @param y - Center Y coordinate
+	 * @param radiusX - Horizontal radius
+	 * @param radiusY - Vertical radius
+	 * @param options - Optional segment count, color (tint, defaults to white), alpha and layer
+	 */
+	fillEllipse(x: number, y: number, radiusX: number, radiusY: number, options?: ShapeOptions): void {
+		const segments = options?.segments ?? getDefaultSegments(Math.max(radiusX, radiusY));
+		this.fillArcSegments(x, y, radiusX, radiusY, 0, 0, Math.PI * 2, segments, options);
+	}
+
+	/**
+	 * Draw a filled pie slice, or a ring segment with an inner radius, in a solid color.
+	 * Angles are in radians, clockwise on screen from the positive X axis.
+	 * @param x - Center X coordinate
+	 * @param y - Center Y coordinate
+	 * @param radius - Outer radius
+	 * @param startAngle - Angle the arc starts at
+	 * @param endAngle - Angle the arc ends at
+	 * @param options - Optional inner radius, segment count for a full circle, color (tint), alpha and layer
+	 */
+	fillArc(x: number, y: number, radius: number, startAngle: number, endAngle: number, options?: ArcOptions): void {
+		const sweep = endAngle - startAngle;
+		const fullSegments = options?.segments ?? getDefaultSegments(radius);
+		const segments = Math.max(1, Math.ceil((fullSegments * Math.abs(sweep)) / (Math.PI * 2)));
+		this.fillArcSegments(x, y, radius, radius, options?.innerRadius ?? 0, startAngle, sweep, segments, options);
+	}
+
+	/**
+	 * Draw a filled convex polygon in a solid color
+	 * @param points - Corner x, y pairs in order around the polygon
+	 * @param options - Optional color (tint, defaults to white), alpha and layer
+	 * @throws Error if points has an odd length
+	 */
+	fillPolygon(points: ArrayLike<number>, options?: DrawOptions): void {
+		if (points.length % 2 !== 0) {
+			throw new Error(`Polygon points must be x, y pairs (got ${points.length} numbers).`);
+		}
+		const triangleCount = points.length / 2 - 2;
+		if (triangleCount < 1) {
+			return;
+		}
+
+		// Fan out from the first corner
+		const vertices = this.getShapeVertices(triangleCount * 6);
+		for (let i = 0; i < triangleCount; i++) {
+			const offset = i * 6;
+			vertices[offset] = points[0];
+			vertices[offset + 1] = points[1];
+			vertices[offset + 2] = points[i * 2 + 2];
+			vertices[offset + 3] = points[i * 2 + 3];
+			vertices[offset + 4] = points[i * 2 + 4];
+			vertices[offset + 5] = points[i * 2 + 5];
+		}
+		this.renderer.drawSolidTriangles(vertices, triangleCount, options);
+	}
+
+	/**
+	 * Draw a list of filled triangles in a solid color
+	 * @param vertices - x, y pairs, three per triangle
+	 * @param options - Optional color (tint, defaults to white), alpha and layer
+	 * @throws Error if vertices does not hold whole triangles
+	 */
+	fillTriangles(vertices: ArrayLike<number>, options?: DrawOptions): void {
+		if (vertices.length % 6 !== 0) {
+			throw new Error(`Triangle vertices must be x, y pairs, three per triangle (got ${vertices.length} numbers).`);
+		}
+		this.renderer.drawSolidTriangles(vertices, vertices.length / 6, options);
+	}
+
+	/**
+	 * Draw connected line segments in a solid color, with joins at the corners and caps at the ends
+	 * @param points - x, y pairs
+	 * @param thickness - Line width in pixels
+	 * @param options - Optional join, cap, miter limit, closing, color (tint, defaults to white), alpha and layer
+	 */
+	drawPolyline(points: ArrayLike<number>, thickness: number = 1, options?: PolylineOptions): void {
+		const triangleCount = tessellatePolyline(points, thickness, options, this.polylineVertices);
+		this.renderer.drawSolidTriangles(this.polylineVertices, triangleCount, options);
+	}
+
+	/**
+	 * Draw a quadratic Bezier curve in a solid color
+	 * @param x1 - Start X
+	 * @param y1 - Start Y
+	 * @param cx - Control point X
+	 * @param cy - Control point Y
+	 * @param x2 - End X
+	 * @param y2 - End Y
+	 * @param thickness - Line width in pixels
+	 * @param options - Optional segment count, join, cap, color (tint, defaults to white), alpha and layer
+	 */
+	drawQuadraticCurve(
+		x1: number,
+		y1: number,
+		cx: number,
+		cy: number,
+		x2: number,
+		y2: number,
+		thickness: number = 1,
+		options?: CurveOptions
+	): void {
+		this.curvePoints.length = 0;
+		getQuadraticBezierPoints(x1, y1, cx, cy, x2, y2, options?.curveSegments, this.curvePoints);
+		this.drawPolyline(this.curvePoints, thickness, options);
+	}
+
+	/**
+	 * Draw a cubic Bezier curve in a solid color, e.g. a node editor wire
+	 * @param x1 - Start X
+	 * @param y1 - Start Y
+	 * @param cx1 - First control point X
+	 * @param cy1 - First control point Y
+	 * @param cx2 - Second control point X
+	 * @param cy2 - Second control point Y
+	 * @param x2 - End X
+	 * @param y2 - End Y
+	 * @param thickness - Line width in pixels
+	 * @param options - Optional segment count, join, cap, color (tint, defaults to white), alpha and layer
+	 */
+	drawBezierCurve(
+		x1: number,
+		y1: number,
+		cx1: number,
+		cy1: number,
+		cx2: number,
+		cy2: number,
+		x2: number,
+		y2: number,
+		thickness: number = 1,
+		options?: CurveOptions
+	): void {
+		this.curvePoints.length = 0;
+		getCubicBezierPoints(x1, y1, cx1, cy1, cx2, cy2, x2, y2, options?.curveSegments, this.curvePoints);
+		this.drawPolyline(this.curvePoints, thickness, options);
+	}
+
+	/**
+	 * Draw a smooth Catmull-Rom curve through every point in a solid color, e.g. a graph plot
+	 * @param points - x, y pairs to pass through
+	 * @param thickness - Line width in pixels
+	 * @param options - Optional segments per span, closing, join, cap, color (tint, defaults to white), alpha and layer
+	 */
+	drawSpline(points: ArrayLike<number>, thickness: number = 1, options?: CurveOptions): void {
+		this.curvePoints.length = 0;
+		getCatmullRomPoints(points, options?.curveSegments, options?.closed, this.curvePoints);
+		this.drawPolyline(this.curvePoints, thickness, options);
+	}
+
+	/**
+	 * Fill an elliptical arc as a fan from the center, or as a band when it has an inner radius
+	 */
+	private fillArcSegments(
+		x: number,
+		y: number,
+		radiusX: number,
+		radiusY: number,
+		innerRadius: number,
+		startAngle: number,
+		sweep: number,
+		segments: number,
+		options?: DrawOptions
+	): void {
+		const innerScale = radiusX > 0 ? innerRadius / radiusX : 0;
+		const trianglesPerSegment = innerScale > 0 ? 2 : 1;
+		const vertices = this.getShapeVertices(segments * trianglesPerSegment * 6);
+		let cos = Math.cos(startAngle);
+		let sin = Math.sin(startAngle);
+
+		for (let i = 0; i < segments; i++) {
+			const angle = startAngle + (sweep * (i + 1)) / segments;
+			const nextCos = Math.cos(angle);
+			const nextSin = Math.sin(angle);
+			const offset = i * trianglesPerSegment * 6;
+			vertices[offset + 2] = x + cos * radiusX;
+			vertices[offset + 3] = y + sin * radiusY;
+			vertices[offset + 4] = x + nextCos * radiusX;
+			vertices[offset + 5] = y + nextSin * radiusY;
+
+			if (innerScale > 0) {
+				// Two triangles between the inner and outer edge
+				vertices[offset] = x + cos * radiusX * innerScale;
+				vertices[offset + 1] = y + sin * radiusY * innerScale;
+				vertices[offset + 6] = vertices[offset];
+				vertices[offset + 7] = vertices[offset + 1];
+				vertices[offset + 8] = vertices[offset + 4];
+				vertices[offset + 9] = vertices[offset + 5];
+				vertices[offset + 10] = x + nextCos * radiusX * innerScale;
+				vertices[offset + 11] = y + nextSin * radiusY * innerScale;
+			} else {
+				vertices[offset] = x;
+				vertices[offset + 1] = y;
+			}
+			cos = nextCos;
+			sin = nextSin;
+		}
+		this.renderer.drawSolidTriangles(vertices, segments * trianglesPerSegment, options);
+	}
+
+	/**
+	 * Get shape vertex storage with room for at least this many floats
+	 */
+	private getShapeVertices(floats: number): Float32Array {
+		if (this.shapeVertices.length < floats) {
+			this.shapeVertices = new Float32Array(Math.max(floats, this.shapeVertices.length * 2));
+		}
+		return this.shapeVertices;
+	}
+
+	/**
+	 * Draw a panel from a nine-slice sprite: the corners keep their size, the edges and center
+	 * stretch or tile to fill the rest. Panels smaller than the corners shrink the corners.
+	 * @param x - Top left X coordinate
+	 * @param y - Top left Y coordinate
+	 * @param width - Panel width
+	 * @param height - Panel height
+	 * @param sprite - Sprite name or ID from lookup table
+	 * @param insets - Border widths in sprite sheet pixels, one number for all sides
+	 * @param options - Optional edge and center fill, tint, alpha, layer and blend mode
+	 * @throws Error if the sprite is rotated or trimmed in its atlas
+	 */
+	drawNineSlice(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		sprite: string | number,
+		insets: NineSliceInsets,
+		options?: NineSliceOptions
+	): void {
+		const definition = this.spriteLookup[sprite];
+		if (!definition) {
+			return; // Skip unknown sprites silently
+		}
+		if (definition.rotated || definition.sourceWidth !== undefined) {
+			throw new Error(`Nine-slice sprite "${sprite}" must not be rotated or trimmed in its atlas.`);
+		}
+		this.renderer.setAtlas(definition.atlas);
+
+		const { left, top, right, bottom } =
+			typeof insets === 'number' ? { left: insets, top: insets, right: insets, bottom: insets } : insets;
+		const { x: spriteX, y: spriteY, spriteWidth, spriteHeight } = definition;
+		const edges = options?.edges ?? 'stretch';
+		const center = options?.center ?? 'stretch';
+
+		// Shrink the corners proportionally when they do not fit
+		const scaleX = left + right > width ? width / (left + right) : 1;
+		const scaleY = top + bottom > height ? height / (top + bottom) : 1;
+		const middleWidth = width - (left + right) * scaleX;
+		const middleHeight = height - (top + bottom) * scaleY;
+		const columns = [
+			{ x, width: left * scaleX, spriteX, spriteWidth: left },
+			{ x: x + left * scaleX, width: middleWidth, spriteX: spriteX + left, spriteWidth: spriteWidth - left - right },
+			{ x: x + width - right * scaleX, width: right * scaleX, spriteX: spriteX + spriteWidth - right, spriteWidth: right },
+		];
+		const rows = [
+			{ y, height: top * scaleY, spriteY, spriteHeight: top },
+			{ y: y + top * scaleY, height: middleHeight, spriteY: spriteY + top, spriteHeight: spriteHeight - top - bottom },
+			{ y: y + height - bottom * scaleY, height: bottom * scaleY, spriteY: spriteY + spriteHeight - bottom, spriteHeight: bottom },
+		];
+
+		for (let row = 0; row < 3; row++) {
+			for (let column = 0; column < 3; column++) {
+				const isCenter = row === 1 && column === 1;
+				if (isCenter && center === 'none') {
+					continue;
+				}
+				const fill: NineSliceFill = isCenter ? (center as NineSliceFill) : edges;
+				this.drawNineSlicePatch(
+					columns[column].x,
+					rows[row].y,
+					columns[column].width,
+					rows[row].height,
+					columns[column].spriteX,
+					rows[row].spriteY,
+					columns[column].spriteWidth,
+					rows[row].spriteHeight,
+					fill === 'tile' && column === 1,
+					fill === 'tile' && row === 1,
+					options
+				);
+			}
+		}
+	}
+
+	/**
+	 * Fill an area with a sprite region, repeating it at its own size along tiled axes
 	 */
-	drawRectangle(x: number, y: number, width: number, height: number, sprite: string | number, thickness = 1): void {
-		this.drawLine(x, y, x + width, y, sprite, thickness);
-		this.drawLine(x + width, y, x + width, y + height, sprite, thickness);
-		this.drawLine(x + width, y + height, x, y + height, sprite, thickness);
-		this.drawLine(x, y + height, x, y, sprite, thickness);
+	private drawNineSlicePatch(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		spriteX: number,
+		spriteY: number,
+		spriteWidth: number,
+		spriteHeight: number,
+		tileX: boolean,
+		tileY: boolean,
+		options?: DrawOptions
+	): void {
+		if (width <= 0 || height <= 0 || spriteWidth <= 0 || spriteHeight <= 0) {
+			return;
+		}
+
+		const stepX = tileX ? spriteWidth : width;
+		const stepY = tileY ? spriteHeight : height;
+		for (let offsetY = 0; offsetY < height; offsetY += stepY) {
+			// The last repeat shows the start of the region, cropped to the remaining space
+			const partHeight = Math.min(stepY, height - offsetY);
+			const partSpriteHeight = tileY ? partHeight : spriteHeight;
+			for (let offsetX = 0; offsetX < width; offsetX += stepX) {
+				const partWidth = Math.min(stepX, width - offsetX);
+				this.renderer.drawSpriteFromCoordinates(
+					x + offsetX,
+					y + offsetY,
+					partWidth,
+					partHeight,
+					spriteX,
+					spriteY,
+					tileX ? partWidth : spriteWidth,
+					partSpriteHeight,
+					options
+				);
+			}
+		}
 	}
 
 	/**
 	 * Load sprite sheet texture and store dimensions for UV coordinate calculation
 	 * @param image - Image containing all sprites
 	 */
-	loadSpriteSheet(image: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas): void {
-		this.renderer.loadSpriteSheet(image);
+	loadSpriteSheet(image: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas): void;
+	/**
+	 * Load a named atlas. Sprite lookup entries with a matching `atlas` field are drawn from it.
+	 * @param name - Atlas name
+	 * @param image - Image containing the atlas sprites
+	 */
+	loadSpriteSheet(name: string, image: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas): void;
+	loadSpriteSheet(
+		nameOrImage: string | HTMLImageElement | HTMLCanvasElement | OffscreenCanvas,
+		image?: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas
+	): void {
+		if (typeof nameOrImage === 'string') {
+			this.renderer.loadSpriteSheet(nameOrImage, image!);
+		} else {
+			this.renderer.loadSpriteSheet(nameOrImage);
+		}
+	}
+
+	/**
+	 * Select the atlas used by drawSpriteFromCoordinates(). Sprite lookup draws select
+	 * their sprite's atlas themselves, and it stays selected afterwards.
+	 * @param name - Atlas name, or undefined for the main sprite sheet
+	 */
+	setAtlas(name?: string): void {
+		this.renderer.setAtlas(name);
 	}
 
 	/**
@@ -165,6 +887,7 @@ export class Engine {
 	 * @param spriteY - Y pixel in sprite sheet
 	 * @param spriteWidth - Width in sprite sheet
 	 * @param spriteHeight - Height in sprite sheet
+	 * @param options - Optional rotation, scale, pivot, flipping, quarter turns, tint and layer
 	 */
 	drawSpriteFromCoordinates(
 		x: number,
@@ -174,13 +897,11 @@ export class Engine {
 		spriteX: number,
 		spriteY: number,
 		spriteWidth: number = width,
-		spriteHeight: number = height
+		spriteHeight: number = height,
+		options?: SpriteDrawOptions
 	): void {
-		// Apply transform group offsets
-		x = x + this.offsetX;
-		y = y + this.offsetY;
-
-		this.renderer.drawSpriteFromCoordinates(x, y, width, height, spriteX, spriteY, spriteWidth, spriteHeight);
+		// The renderer applies the current transform (the pivot is relative to the sprite, so it moves along)
+		this.renderer.drawSpriteFromCoordinates(x, y, width, height, spriteX, spriteY, spriteWidth, spriteHeight, options);
 	}
 
 	/**
@@ -191,18 +912,131 @@ export class Engine {
 	 * @param y2 - End Y coordinate
 	 * @param sprite - Sprite to use for line texture
 	 * @param thickness - Line thickness in pixels
+	 * @param options - Optional sprite fill, dash pattern, tint and layer
+	 * @throws Error if a dash length is negative or the pattern has no length
 	 */
-	drawLine(x1: number, y1: number, x2: number, y2: number, sprite: string | number, thickness: number): void {
-		// Apply transform offsets
-		x1 = x1 + this.offsetX;
-		y1 = y1 + this.offsetY;
-		x2 = x2 + this.offsetX;
-		y2 = y2 + this.offsetY;
+	drawLine(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		sprite: string | number,
+		thickness: number,
+		options?: LineOptions
+	): void {
+		this.drawSpriteLine(x1, y1, x2, y2, sprite, thickness, options, options?.dashOffset ?? 0);
+	}
 
+	/**
+	 * Draw a sprite line whose dash pattern and sprite tiles start the given distance in
+	 */
+	private drawSpriteLine(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		sprite: string | number,
+		thickness: number,
+		options: LineOptions | undefined,
+		distance: number
+	): void {
 		// Get sprite texture coordinates for line appearance
-		const { x, y, spriteWidth, spriteHeight } = this.spriteLookup[sprite];
+		const { x, y, spriteWidth, spriteHeight, atlas } = this.spriteLookup[sprite];
+		this.renderer.setAtlas(atlas);
+
+		const dash = options?.dash;
+		const tile = options?.fill === 'tile' && spriteWidth > 0;
+		if (!tile && !dash?.length) {
+			this.renderer.drawLineFromCoordinates(x1, y1, x2, y2, x, y, spriteWidth, spriteHeight, thickness, options);
+			return;
+		}
+
+		const length = Math.hypot(x2 - x1, y2 - y1);
+		if (length === 0) {
+			return;
+		}
+		const directionX = (x2 - x1) / length;
+		const directionY = (y2 - y1) / length;
+
+		// Draw the part of the line between two distances from its start
+		const drawPiece = (start: number, end: number): void => {
+			if (!tile) {
+				// Each piece shows its share of the sprite stretched over the whole line
+				const scale = spriteWidth / length;
+				this.renderer.drawLineFromCoordinates(
+					x1 + directionX * start,
+					y1 + directionY * start,
+					x1 + directionX * end,
+					y1 + directionY * end,
+					x + start * scale,
+					y,
+					(end - start) * scale,
+					spriteHeight,
+					thickness,
+					options
+				);
+				return;
+			}
+			// Split the piece where sprite tiles meet
+			let tileStart = positiveModulo(start + distance, spriteWidth);
+			while (start < end) {
+				const tileEnd = Math.min(end, start + spriteWidth - tileStart);
+				this.renderer.drawLineFromCoordinates(
+					x1 + directionX * start,
+					y1 + directionY * start,
+					x1 + directionX * tileEnd,
+					y1 + directionY * tileEnd,
+					x + tileStart,
+					y,
+					tileEnd - start,
+					spriteHeight,
+					thickness,
+					options
+				);
+				start = tileEnd;
+				tileStart = 0;
+			}
+		};
+
+		if (!dash?.length) {
+			drawPiece(0, length);
+			return;
+		}
+
+		let patternLength = 0;
+		for (const dashLength of dash) {
+			if (!(dashLength >= 0)) {
+				patternLength = NaN;
+				break;
+			}
+			patternLength += dashLength;
+		}
+		if (!(patternLength > 0)) {
+			throw new Error(`Dash lengths must not be negative and must add up to more than 0 (got [${dash.join(', ')}]).`);
+		}
+		// Odd patterns repeat twice per period, with dashes and gaps swapped the second time
+		if (dash.length % 2 === 1) {
+			patternLength *= 2;
+		}
 
-		this.renderer.drawLineFromCoordinates(x1, y1, x2, y2, x, y, spriteWidth, spriteHeight, thickness);
+		// Find the dash or gap the line starts in
+		let index = 0;
+		let position = positiveModulo(distance, patternLength);
+		while (position >= dash[index % dash.length]) {
+			position -= dash[index % dash.length];
+			index++;
+		}
+
+		let start = 0;
+		while (start < length) {
+			const end = Math.min(length, start + dash[index % dash.length] - position);
+			if (index % 2 === 0 && end > start) {
+				drawPiece(start, end);
+			}
+			start = end;
+			position = 0;
+			index++;
+		}
 	}
 
 	/**
@@ -212,25 +1046,156 @@ export class Engine {
 	 * @param sprite - Sprite name or ID from lookup table
 	 * @param width - Optional custom width (uses sprite width if not specified)
 	 * @param height - Optional custom height (uses sprite height if not specified)
+	 * @param options - Optional rotation, scale, pivot, flipping, quarter turns, tint and layer
 	 */
-	drawSprite(posX: number, posY: number, sprite: string | number, width?: number, height?: number): void {
+	drawSprite(
+		posX: number,
+		posY: number,
+		sprite: string | number,
+		width?: number,
+		height?: number,
+		options?: SpriteDrawOptions
+	): void {
 		if (!this.spriteLookup[sprite]) {
 			return; // Skip unknown sprites silently
 		}
 
-		// Get sprite coordinates from lookup table
-		const { x, y, spriteWidth, spriteHeight } = this.spriteLookup[sprite];
+		this.drawSpriteDefinition(posX, posY, this.spriteLookup[sprite], width, height, options);
+	}
+
+	/**
+	 * Resolve sprites from the sprite lookup once, for drawSprites(). Create it again after
+	 * the lookup changes.
+	 * @param sprites - Sprite names or IDs; records refer to them by their index in this list
+	 * @throws Error if a sprite is unknown, rotated in its atlas or in a different atlas than the first
+	 */
+	createSpriteTable(sprites: Array<string | number>): SpriteTable {
+		const regions = new Float32Array(sprites.length * 6);
+		let atlas: string | undefined;
+		for (let i = 0; i < sprites.length; i++) {
+			const definition = this.spriteLookup[sprites[i]];
+			if (!definition) {
+				throw new Error(`Unknown sprite: ${sprites[i]}`);
+			}
+			if (definition.rotated) {
+				throw new Error(`Sprite table sprite "${sprites[i]}" must not be rotated in its atlas.`);
+			}
+			if (i === 0) {
+				atlas = definition.atlas;
+			} else if (definition.atlas !== atlas) {
+				throw new Error(`Sprite table sprites must share one atlas ("${sprites[i]}" is not in the same atlas as "${sprites[0]}").`);
+			}
+			regions.set(
+				[
+					definition.x,
+					definition.y,
+					definition.spriteWidth,
+					definition.spriteHeight,
+					definition.offsetX ?? 0,
+					definition.offsetY ?? 0,
+				],
+				i * 6
+			);
+		}
+		return { keys: sprites.slice(), regions, atlas };
+	}
+
+	/**
+	 * Draw many sprites at their own size from packed records, e.g. straight from an ECS
+	 * component array. Much cheaper per sprite than drawSprite(): no lookups and one tight loop.
+	 * @param records - x, y and sprite table index per record, plus the optional extra value
+	 * @param count - Number of records to draw
+	 * @param table - Sprites the records' indices refer to, from createSpriteTable()
+	 * @param options - Optional record stride, extra value, tint, alpha, layer and blend mode
+	 */
+	drawSprites(records: Float32Array | Int32Array, count: number, table: SpriteTable, options?: BulkSpriteOptions): void {
+		this.renderer.setAtlas(table.atlas);
+		this.renderer.drawSpriteRecords(records, count, table.regions, options);
+	}
+
+	/**
+	 * Draw a sprite lookup entry, handling its atlas, trimming, atlas rotation and pivot
+	 */
+	private drawSpriteDefinition(
+		posX: number,
+		posY: number,
+		sprite: SpriteCoordinates,
+		width?: number,
+		height?: number,
+		options?: SpriteDrawOptions
+	): void {
+		const { x, y, spriteWidth, spriteHeight, atlas } = sprite;
+		this.renderer.setAtlas(atlas);
+
+		// An odd number of quarter turns swaps the on-screen width and height
+		const swapSize = options?.quarterTurns !== undefined && Math.abs(options.quarterTurns % 2) === 1;
+
+		if (!sprite.rotated && sprite.sourceWidth === undefined && sprite.pivotX === undefined) {
+			// Delegate to low-level drawing function
+			this.drawSpriteFromCoordinates(
+				posX,
+				posY,
+				width || (swapSize ? spriteHeight : spriteWidth), // Use custom size or default
+				height || (swapSize ? spriteWidth : spriteHeight),
+				x, // Sprite sheet coordinates
+				y,
+				spriteWidth, // Original sprite size
+				spriteHeight,
+				options
+			);
+			return;
+		}
+
+		// Place the trimmed rectangle inside the untrimmed box, mirrored and turned like the image
+		const sourceWidth = sprite.sourceWidth ?? spriteWidth;
+		const sourceHeight = sprite.sourceHeight ?? spriteHeight;
+		let boxWidth = sourceWidth;
+		let boxHeight = sourceHeight;
+		let rectX = sprite.offsetX ?? 0;
+		let rectY = sprite.offsetY ?? 0;
+		let rectWidth = spriteWidth;
+		let rectHeight = spriteHeight;
+		if (options?.flipX) {
+			rectX = boxWidth - rectX - rectWidth;
+		}
+		if (options?.flipY) {
+			rectY = boxHeight - rectY - rectHeight;
+		}
+		const turns = (((options?.quarterTurns ?? 0) % 4) + 4) % 4;
+		for (let i = 0; i < turns; i++) {
+			// One clockwise turn maps (px, py) in a w x h box to (h - py, px)
+			[rectX, rectY, rectWidth, rectHeight] = [boxHeight - rectY - rectHeight, rectX, rectHeight, rectWidth];
+			[boxWidth, boxHeight] = [boxHeight, boxWidth];
+		}
+
+		const scaleX = (width || boxWidth) / boxWidth;
+		const scaleY = (height || boxHeight) / boxHeight;
+
+		// The image of a rotated sprite is stored turned clockwise, so turn it back. Flips
+		// apply to the stored image, which reverses the direction of that turn.
+		let drawOptions = options;
+		if (sprite.rotated) {
+			const mirrored = !!options?.flipX !== !!options?.flipY;
+			drawOptions = { ...options, quarterTurns: (options?.quarterTurns ?? 0) + (mirrored ? 1 : 3) };
+		}
+
+		// Pivots are relative to the drawn quad, which starts at the trimmed rectangle
+		if (options?.rotation || options?.scaleX !== undefined || options?.scaleY !== undefined) {
+			const pivotX = options.pivotX ?? (sprite.pivotX !== undefined ? sprite.pivotX * scaleX : (boxWidth * scaleX) / 2);
+			const pivotY = options.pivotY ?? (sprite.pivotY !== undefined ? sprite.pivotY * scaleY : (boxHeight * scaleY) / 2);
+			drawOptions = { ...drawOptions, pivotX: pivotX - rectX * scaleX, pivotY: pivotY - rectY * scaleY };
+		}
 
-		// Delegate to low-level drawing function
 		this.drawSpriteFromCoordinates(
-			posX,
-			posY,
-			width || spriteWidth, // Use custom size or default
-			height || spriteHeight,
-			x, // Sprite sheet coordinates
+			posX + rectX * scaleX,
+			posY + rectY * scaleY,
+			rectWidth * scaleX,
+			rectHeight * scaleY,
+			x,
 			y,
-			spriteWidth, // Original sprite size
-			spriteHeight
+			sprite.rotated ? spriteHeight : spriteWidth,
+			sprite.rotated ? spriteWidth : spriteHeight,
+			drawOptions
 		);
 	}
 
@@ -243,33 +1208,512 @@ export class Engine {
 	}
 
 	/**
-	 * Draw text using sprite font - each character is a sprite
+	 * Add animation definitions, replacing any with the same id
+	 * @param animations - Object mapping animation ids to definitions
+	 */
+	addAnimations(animations: AnimationLookup): void {
+		Object.assign(this.animations, animations);
+	}
+
+	/**
+	 * Add fonts for rich text [font=name] tags, replacing any with the same name
+	 * @param fonts - Object mapping font names to bitmap fonts
+	 */
+	addFonts(fonts: Record<string, BitmapFont>): void {
+		Object.assign(this.fonts, fonts);
+	}
+
+	/**
+	 * Create an animator that the render loop advances every frame
+	 * @param animationId - Animation to start playing
+	 * @throws Error if the animation is unknown or invalid
+	 */
+	createAnimator(animationId: string): Animator {
+		const animator = new Animator(this.animations, animationId);
+		this.animators.add(animator);
+		return animator;
+	}
+
+	/**
+	 * Stop advancing an animator created with createAnimator()
+	 * @param animator - Animator to remove
+	 */
+	removeAnimator(animator: Animator): void {
+		this.animators.delete(animator);
+	}
+
+	/**
+	 * Draw the current frame of an animation
+	 * @param posX - Screen X position
+	 * @param posY - Screen Y position
+	 * @param animator - Animator whose current frame to draw
+	 * @param width - Optional custom width (uses sprite width if not specified)
+	 * @param height - Optional custom height (uses sprite height if not specified)
+	 * @param options - Same options as drawSprite()
+	 */
+	drawAnimation(
+		posX: number,
+		posY: number,
+		animator: Animator,
+		width?: number,
+		height?: number,
+		options?: SpriteDrawOptions
+	): void {
+		this.drawSprite(posX, posY, animator.frame, width, height, options);
+	}
+
+	/**
+	 * Create a particle emitter that the render loop advances every frame
+	 * @param options - Spawning, motion and appearance settings
+	 * @throws Error if there are no sprites or maxParticles is not a positive integer
+	 */
+	createParticleEmitter(options: ParticleEmitterOptions): ParticleEmitter {
+		const emitter = new ParticleEmitter(options);
+		this.particleEmitters.add(emitter);
+		return emitter;
+	}
+
+	/**
+	 * Stop advancing an emitter created with createParticleEmitter()
+	 * @param emitter - Emitter to remove
+	 */
+	removeParticleEmitter(emitter: ParticleEmitter): void {
+		this.particleEmitters.delete(emitter);
+	}
+
+	/**
+	 * Draw the living particles of an emitter, centered on their positions
+	 * @param emitter - Emitter whose particles to draw
+	 * @param options - Optional tint and alpha multiplied with the particle colors, layer and blend mode
+	 * @throws Error if a sprite is rotated in its atlas or in a different atlas than the first
+	 */
+	drawParticles(emitter: ParticleEmitter, options?: DrawOptions): void {
+		const { sprites } = emitter;
+		if (this.particleSprites.length < sprites.length * 4) {
+			this.particleSprites = new Float32Array(sprites.length * 4);
+		}
+
+		// Resolve the sprite regions once per draw, rather than once per particle
+		let atlas: string | undefined;
+		for (let i = 0; i < sprites.length; i++) {
+			const definition = this.spriteLookup[sprites[i]];
+			if (!definition) {
+				return; // Skip emitters with unknown sprites silently, like drawSprite()
+			}
+			if (definition.rotated) {
+				throw new Error(`Particle sprite "${sprites[i]}" must not be rotated in its atlas.`);
+			}
+			if (i === 0) {
+				atlas = definition.atlas;
+			} else if (definition.atlas !== atlas) {
+				throw new Error(`Particle sprites must share one atlas ("${sprites[i]}" is not in the same atlas as "${sprites[0]}").`);
+			}
+			this.particleSprites[i * 4] = definition.x;
+			this.particleSprites[i * 4 + 1] = definition.y;
+			this.particleSprites[i * 4 + 2] = definition.spriteWidth;
+			this.particleSprites[i * 4 + 3] = definition.spriteHeight;
+		}
+
+		this.renderer.setAtlas(atlas);
+		this.renderer.drawParticles(emitter, this.particleSprites, options);
+	}
+
+	/**
+	 * Draw the visible part of a tilemap. Only tiles inside the viewport (and the current
+	 * clip rect) are drawn. With caching enabled, static layers are baked into chunk
+	 * textures and animated tiles are drawn on top of them.
+	 * @param tilemap - Tilemap to draw
+	 * @param x - X position of the map's top left corner
+	 * @param y - Y position of the map's top left corner
+	 * @param layers - Names of the layers to draw in order, hidden or not (defaults to all visible layers)
+	 */
+	drawTilemap(tilemap: Tilemap, x: number = 0, y: number = 0, layers?: string[]): void {
+		// Tile animations advance once per frame, however often the map is drawn
+		if (!this.updatedTilemaps.has(tilemap)) {
+			this.updatedTilemaps.add(tilemap);
+			tilemap.update(this.deltaTime);
+		}
+		for (const cacheId of tilemap.takeDirtyChunks()) {
+			this.clearCache(cacheId);
+		}
+
+		const visible = this.getVisibleArea(x, y);
+		if (!visible) {
+			return;
+		}
+		const range = tilemap.getTileRange(visible.left, visible.top, visible.right, visible.bottom);
+		if (range.startColumn >= range.endColumn || range.startRow >= range.endRow) {
+			return;
+		}
+
+		const drawnLayers = layers ? layers.map(name => tilemap.getLayer(name)) : tilemap.layers;
+		for (const layer of drawnLayers) {
+			if ((layers === undefined && layer.visible === false) || layer.opacity === 0) {
+				continue;
+			}
+			if (this.cachingEnabled && layer.static !== false) {
+				this.drawTilemapChunks(tilemap, layer, x, y, range);
+			} else {
+				this.drawTiles(tilemap, layer, x, y, range, layer.opacity ?? 1, 'all');
+			}
+		}
+	}
+
+	/**
+	 * Draw a layer as baked chunks, with its animated tiles drawn live on top
+	 */
+	private drawTilemapChunks(tilemap: Tilemap, layer: TilemapLayer, x: number, y: number, range: TileRange): void {
+		const { chunkSize, tileWidth, tileHeight } = tilemap;
+		const layerIndex = tilemap.layers.indexOf(layer);
+		const alpha = layer.opacity ?? 1;
+
+		for (let chunkRow = Math.floor(range.startRow / chunkSize); chunkRow * chunkSize < range.endRow; chunkRow++) {
+			for (
+				let chunkColumn = Math.floor(range.startColumn / chunkSize);
+				chunkColumn * chunkSize < range.endColumn;
+				chunkColumn++
+			) {
+				const chunk: TileRange = {
+					startColumn: chunkColumn * chunkSize,
+					startRow: chunkRow * chunkSize,
+					endColumn: Math.min(tilemap.width, (chunkColumn + 1) * chunkSize),
+					endRow: Math.min(tilemap.height, (chunkRow + 1) * chunkSize),
+				};
+				const chunkX = chunk.startColumn * tileWidth;
+				const chunkY = chunk.startRow * tileHeight;
+
+				// Chunks are captured in their own local space and replayed with the current transform
+				this.pushTransform();
+				this.translate(x + chunkX, y + chunkY);
+				this.cacheGroup(
+					tilemap.getChunkCacheId(layerIndex, chunkColumn, chunkRow),
+					(chunk.endColumn - chunk.startColumn) * tileWidth,
+					(chunk.endRow - chunk.startRow) * tileHeight,
+					() => this.drawTiles(tilemap, layer, -chunkX, -chunkY, chunk, 1, 'static'),
+					true,
+					alpha
+				);
+				this.popTransform();
+			}
+		}
+
+		this.drawTiles(tilemap, layer, x, y, range, alpha, 'animated');
+	}
+
+	/**
+	 * Draw the tiles of a layer within a range, anchored at the bottom left of their cells
+	 */
+	private drawTiles(
+		tilemap: Tilemap,
+		layer: TilemapLayer,
+		x: number,
+		y: number,
+		range: TileRange,
+		alpha: number,
+		tiles: 'all' | 'static' | 'animated'
+	): void {
+		const { width, tileWidth, tileHeight } = tilemap;
+		for (let row = range.startRow; row < range.endRow; row++) {
+			for (let column = range.startColumn; column < range.endColumn; column++) {
+				const index = row * width + column;
+				const tile = layer.tiles[index];
+				if (tile === null || tile === undefined) {
+					continue;
+				}
+				if (tiles !== 'all' && tilemap.isAnimated(tile) !== (tiles === 'animated')) {
+					continue;
+				}
+
+				const frame = tilemap.getTileFrame(tile);
+				const sprite = this.spriteLookup[frame];
+				if (!sprite) {
+					continue;
+				}
+
+				const flags = layer.flags ? layer.flags[index] : 0;
+				const options: SpriteDrawOptions | undefined =
+					flags !== 0 || alpha !== 1
+						? { flipX: (flags & 1) !== 0, flipY: (flags & 2) !== 0, quarterTurns: (flags & 4) !== 0 ? 1 : 0, alpha }
+						: undefined;
+				const spriteHeight =
+					(flags & 4) !== 0
+						? (sprite.sourceWidth ?? sprite.spriteWidth)
+						: (sprite.sourceHeight ?? sprite.spriteHeight);
+				this.drawSpriteDefinition(
+					x + column * tileWidth,
+					y + (row + 1) * tileHeight - spriteHeight,
+					sprite,
+					undefined,
+					undefined,
+					options
+				);
+			}
+		}
+	}
+
+	/**
+	 * Area of local coordinate space (after translating by x, y) that lands inside the
+	 * viewport and the current clip rect, or null if the transform collapses everything
+	 */
+	private getVisibleArea(x: number, y: number): { left: number; top: number; right: number; bottom: number } | null {
+		const [ta, tb, tc, td, te, tf] = this.renderer.transform;
+		let a = ta;
+		let b = tb;
+		let c = tc;
+		let d = td;
+		let e = ta * x + tc * y + te;
+		let f = tb * x + td * y + tf;
+
+		if (this.renderer.isCameraEnabled()) {
+			const v = this.renderer.viewMatrix;
+			[a, b, c, d, e, f] = [
+				v[0] * a + v[3] * b,
+				v[1] * a + v[4] * b,
+				v[0] * c + v[3] * d,
+				v[1] * c + v[4] * d,
+				v[0] * e + v[3] * f + v[6],
+				v[1] * e + v[4] * f + v[7],
+			];
+		}
+
+		const determinant = a * d - b * c;
+		if (determinant === 0) {
+			return null;
+		}
+
+		const { canvas } = this.renderer.gl;
+		const clip = this.renderer.getClipRect() ?? { x: 0, y: 0, width: canvas.width, height: canvas.height };
+		let left = Infinity;
+		let top = Infinity;
+		let right = -Infinity;
+		let bottom = -Infinity;
+		for (const [screenX, screenY] of [
+			[clip.x, clip.y],
+			[clip.x + clip.width, clip.y],
+			[clip.x, clip.y + clip.height],
+			[clip.x + clip.width, clip.y + clip.height],
+		]) {
+			const dx = screenX - e;
+			const dy = screenY - f;
+			const localX = (d * dx - c * dy) / determinant;
+			const localY = (a * dy - b * dx) / determinant;
+			left = Math.min(left, localX);
+			top = Math.min(top, localY);
+			right = Math.max(right, localX);
+			bottom = Math.max(bottom, localY);
+		}
+		return { left, top, right, bottom };
+	}
+
+	/**
+	 * Draw text using sprite font - each character is a sprite.
+	 * Characters advance by their untrimmed width and "\n" starts a new line below the tallest
+	 * character of the previous one.
 	 * @param posX - Starting X position
 	 * @param posY - Starting Y position
 	 * @param text - Text string to render
-	 * @param sprites - Optional per-character sprite lookup overrides
-	 */
-	drawText(posX: number, posY: number, text: string, sprites?: Array<SpriteLookup | undefined>): void {
-		// Draw each character as a sprite, positioned side by side
-		for (let i = 0; i < text.length; i++) {
-			// Allow per-character sprite lookup override
-			if (sprites && sprites[i]) {
-				const sprite = sprites[i];
-				if (sprite) {
-					this.spriteLookup = sprite; // Temporarily switch lookup table
-				}
+	 * @param sprites - Optional per-character sprite lookup overrides, indexed by code point position
+	 * @param options - Optional tint and layer applied to every character
+	 */
+	drawText(
+		posX: number,
+		posY: number,
+		text: string,
+		sprites?: Array<SpriteLookup | undefined>,
+		options?: DrawOptions
+	): void {
+		let x = posX;
+		let y = posY;
+		let lineHeight = 0;
+		let previousLineHeight = 0;
+		let i = 0;
+
+		// Iterate by code point so astral characters (e.g. emoji) are looked up whole
+		for (const character of text) {
+			const index = i++;
+			if (character === '\n') {
+				previousLineHeight = lineHeight || previousLineHeight;
+				y += previousLineHeight;
+				x = posX;
+				lineHeight = 0;
+				continue;
 			}
 
-			// Look up character sprite (e.g., 'A' -> sprite coordinates)
-			const spriteDef = this.spriteLookup[text[i]];
+			// Look up character sprite (e.g., 'A' -> sprite coordinates), allowing a per-character lookup override
+			const spriteDef = (sprites?.[index] ?? this.spriteLookup)[character];
 			if (!spriteDef) {
 				continue; // Skip undefined characters
 			}
 
-			// Draw character sprite at calculated position
-			const { x, y, spriteWidth, spriteHeight } = spriteDef;
-			this.drawSpriteFromCoordinates(posX + i * spriteWidth, posY, spriteWidth, spriteHeight, x, y);
+			// Draw character sprite at the pen position, then advance by its untrimmed width
+			this.drawSpriteDefinition(x, y, spriteDef, undefined, undefined, options);
+			x += spriteDef.sourceWidth ?? spriteDef.spriteWidth;
+			lineHeight = Math.max(lineHeight, spriteDef.sourceHeight ?? spriteDef.spriteHeight);
+		}
+	}
+
+	/**
+	 * Draw text with a bitmap font. Glyphs are placed by their offsets and advance, kerning
+	 * applies between pairs, and "\n" starts a new line.
+	 * @param x - X position of the first line
+	 * @param y - Y position of the first line's top (or baseline, see options)
+	 * @param text - Text to draw
+	 * @param font - Bitmap font, e.g. from parseBMFont()
+	 * @param options - Optional scale, letter spacing, line height, baseline, tint, alpha and layer
+	 */
+	drawBitmapText(x: number, y: number, text: string, font: BitmapFont, options?: BitmapTextOptions): void {
+		const scale = options?.scale ?? 1;
+		const letterSpacing = options?.letterSpacing ?? 0;
+		const lineHeight = options?.lineHeight ?? font.lineHeight;
+		let penX = x;
+		let penY = options?.baseline === 'alphabetic' ? y - font.base * scale : y;
+		let previous = -1;
+
+		for (const character of text) {
+			const codePoint = character.codePointAt(0)!;
+			if (character === '\n') {
+				penX = x;
+				penY += lineHeight * scale;
+				previous = -1;
+				continue;
+			}
+
+			const glyph = font.glyphs[codePoint];
+			if (!glyph) {
+				previous = -1;
+				continue; // Skip characters the font does not have
+			}
+
+			if (previous !== -1) {
+				penX += (font.kerning[previous]?.[codePoint] ?? 0) * scale;
+			}
+			if (glyph.width > 0 && glyph.height > 0) {
+				this.renderer.setAtlas(glyph.atlas);
+				this.renderer.drawSpriteFromCoordinates(
+					penX + glyph.xOffset * scale,
+					penY + glyph.yOffset * scale,
+					glyph.width * scale,
+					glyph.height * scale,
+					glyph.x,
+					glyph.y,
+					glyph.width,
+					glyph.height,
+					options
+				);
+			}
+			penX += (glyph.xAdvance + letterSpacing) * scale;
+			previous = codePoint;
+		}
+	}
+
+	/**
+	 * Draw bitmap text with inline markup: [color=#f00]…[/color], [font=name]…[/font],
+	 * [wave]…[/wave], [shake]…[/shake] and [icon=sprite] (see parseRichText())
+	 * @param x - X position of the first line
+	 * @param y - Y position of the first line's top (or baseline, see options)
+	 * @param markup - Text with markup tags; "\n" starts a new line
+	 * @param font - Font for text outside [font] tags, or its name from addFonts()
+	 * @param options - Optional scale, letter spacing, baseline, effect time, tint, alpha and layer
+	 * @throws Error if the markup is invalid or names an unknown font
+	 */
+	drawRichText(x: number, y: number, markup: string, font: BitmapFont | string, options?: RichTextOptions): void {
+		const scale = options?.scale ?? 1;
+		const time = options?.time ?? this.elapsedTime;
+		const getFont = (name: string): BitmapFont => {
+			const found = this.fonts[name];
+			if (!found) {
+				throw new Error(`Unknown font: ${name}`);
+			}
+			return found;
+		};
+		const layout = layoutRichText(
+			parseRichText(markup),
+			typeof font === 'string' ? getFont(font) : font,
+			getFont,
+			this.spriteLookup,
+			options
+		);
+		const top = options?.baseline === 'alphabetic' ? y - layout.baseline : y;
+
+		// Glyphs take their run's color; icons keep their own colors
+		const runOptions = new Map<RichTextRun, RichTextOptions>();
+		const iconOptions = { alpha: options?.alpha, layer: options?.layer, blendMode: options?.blendMode };
+
+		for (const { x: glyphX, y: glyphY, width, height, index, run, glyph, sprite } of layout.glyphs) {
+			let drawX = x + glyphX;
+			let drawY = top + glyphY;
+			if (run.wave || run.shake) {
+				const [offsetX, offsetY] = getRichTextEffectOffset(run, index, time, scale);
+				drawX += offsetX;
+				drawY += offsetY;
+			}
+
+			if (sprite) {
+				this.drawSpriteDefinition(drawX, drawY, sprite, width, height, iconOptions);
+				continue;
+			}
+			let drawOptions = runOptions.get(run);
+			if (!drawOptions) {
+				drawOptions = run.color !== undefined ? { ...options, tint: run.color } : options ?? {};
+				runOptions.set(run, drawOptions);
+			}
+			this.renderer.setAtlas(glyph!.atlas);
+			this.renderer.drawSpriteFromCoordinates(
+				drawX,
+				drawY,
+				width,
+				height,
+				glyph!.x,
+				glyph!.y,
+				glyph!.width,
+				glyph!.height,
+				drawOptions
+			);
+		}
+	}
+
+	/**
+	 * Measure bitmap text without drawing it, e.g. to right-align a score
+	 * @param text - Text to measure; "\n" starts a new line
+	 * @param font - Bitmap font, e.g. from parseBMFont() or createSpriteFont()
+	 * @param options - Scale, letter spacing and line height the text will be drawn with
+	 * @returns Overall size and the width of each line
+	 */
+	measureText(text: string, font: BitmapFont, options?: TextMeasureOptions): TextMetrics {
+		return measureText(text, font, options);
+	}
+
+	/**
+	 * Draw bitmap text inside a box, wrapping at its width and aligning within it
+	 * @param x - X position of the box
+	 * @param y - Y position of the box
+	 * @param width - Box width to wrap and align within
+	 * @param height - Box height for vertical alignment; lines that do not fit are dropped
+	 * @param text - Text to draw
+	 * @param font - Bitmap font, e.g. from parseBMFont() or createSpriteFont()
+	 * @param options - Alignment, wrapping, ellipsis and the drawBitmapText() options
+	 * @returns The layout that was drawn
+	 */
+	drawTextBox(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		text: string,
+		font: BitmapFont,
+		options?: TextBoxOptions
+	): TextMetrics {
+		const lineHeight = (options?.lineHeight ?? font.lineHeight) * (options?.scale ?? 1);
+		const layout = layoutText(text, font, {
+			...options,
+			maxWidth: width,
+			height,
+			maxLines: options?.maxLines ?? Math.max(1, Math.floor(height / lineHeight)),
+		});
+		for (const line of layout.lines) {
+			this.drawBitmapText(x + line.x, y + line.y, line.text, font, options);
 		}
+		return layout;
 	}
 
 	/**
@@ -370,13 +1814,13 @@ export class Engine {
 		alpha: number = 1
 	): boolean {
 		if (!this.cachingEnabled) {
-			// Caching not enabled: just draw with existing offsets
+			// Caching not enabled: just draw with the current transform
 			draw();
 			return false; // signal no cache was created/used
 		}
 
 		if (!enabled) {
-			// Caching disabled for this call: just draw with existing offsets.
+			// Caching disabled for this call: just draw with the current transform.
 			// Do not read, create, or update any cache entries.
 			draw();
 			return false; // signal no cache was created/used
@@ -384,28 +1828,15 @@ export class Engine {
 
 		const cachedRenderer = this.renderer as CachedRenderer;
 
-		// If cache exists, just draw it at current offset
+		// If cache exists, just draw it with the current transform
 		if (cachedRenderer.hasCachedContent(cacheId)) {
 			this.drawCachedContent(cacheId, 0, 0, alpha);
 			return false;
 		}
 
-		// Save and reset offsets for cache-local coordinates (creation path)
-		this.savedOffsetX = this.offsetX;
-		this.savedOffsetY = this.offsetY;
-		this.offsetX = 0;
-		this.offsetY = 0;
-
+		// The renderer captures in cache-local coordinates with an identity transform
 		const created = cachedRenderer.cacheGroup(cacheId, width, height, draw);
 
-		// Restore offsets
-		if (this.savedOffsetX !== null && this.savedOffsetY !== null) {
-			this.offsetX = this.savedOffsetX;
-			this.offsetY = this.savedOffsetY;
-			this.savedOffsetX = null;
-			this.savedOffsetY = null;
-		}
-
 		// Draw newly created cache immediately to avoid a one-frame gap on invalidation.
 		if (created) {
 			this.drawCachedContent(cacheId, 0, 0, alpha);
@@ -432,10 +1863,6 @@ export class Engine {
 			return; // Cache doesn't exist, skip silently
 		}
 
-		// Apply transform offsets
-		x = x + this.offsetX;
-		y = y + this.offsetY;
-
 		// Get cache data
 		const cacheData = cachedRenderer.getCachedData(cacheId);
 
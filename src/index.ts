@@ -1,16 +1,107 @@
 // Export types
-export type { SpriteCoordinates, SpriteLookup, EngineOptions } from './types';
+export type {
+	SpriteCoordinates,
+	SpriteLookup,
+	Transform,
+	ClipRect,
+	BlendMode,
+	EngineOptions,
+	DrawOptions,
+	SpriteDrawOptions,
+	BulkSpriteOptions,
+	NineSliceInsets,
+	NineSliceFill,
+	NineSliceOptions,
+	LineOptions,
+	ShapeOptions,
+	ArcOptions,
+	PolylineJoin,
+	PolylineCap,
+	PolylineOptions,
+	CurveOptions,
+} from './types';
+export type { SpriteTable } from './types/spriteTable';
 export type { PostProcessEffect, EffectUniforms, UniformBufferMapping } from './types/postProcess';
 export type { BackgroundEffect } from './types/background';
+export type {
+	AtlasData,
+	AtlasFrameData,
+	AtlasArrayFrameData,
+	AtlasRect,
+	AtlasParseOptions,
+	AsepriteAtlas,
+	AsepriteAnimation,
+	AsepriteDirection,
+	AsepriteFrameTag,
+} from './types/atlas';
+export type { CameraBounds } from './types/camera';
+export type { AnimationDefinition, AnimationLookup, AnimationMode } from './types/animation';
+export type { TilemapLayer, TilemapOptions, TileRange } from './types/tilemap';
+export type { ParticleEmitterOptions, ParticleRange, ParticleCurve, ParticleData } from './types/particles';
+export type {
+	BitmapFont,
+	BitmapGlyph,
+	BitmapTextOptions,
+	BMFontJson,
+	BMFontParseOptions,
+	TextMeasureOptions,
+	TextLayoutOptions,
+	TextBoxOptions,
+	TextLine,
+	TextMetrics,
+	RichTextRun,
+	RichTextOptions,
+	RichTextGlyph,
+	RichTextLayout,
+	GlyphAtlasOptions,
+	GlyphAtlas,
+} from './types/font';
+export type {
+	TiledMap,
+	TiledLayer,
+	TiledTileset,
+	TiledTile,
+	TiledProperty,
+	TiledParseOptions,
+	TiledMapResult,
+} from './types/tiled';
 
 // Export main Engine class (public API)
 export { Engine } from './engine';
 
 // Export Renderer for advanced users who want low-level access
 export { Renderer } from './renderer';
+export type { MaskState } from './renderer';
 
 // Export cached renderer for advanced users
 export { CachedRenderer } from './CachedRenderer';
 
+// Export atlas and map loaders
+export { parseTexturePackerAtlas, parseFreeTexturePackerAtlas, parseAsepriteAtlas } from './loaders/textureAtlas';
+export { parseTiledMap, parseTiledTmx } from './loaders/tiled';
+export { parseBMFont } from './loaders/bmfont';
+
+// Export camera
+export { Camera } from './camera/Camera';
+
+// Export animation
+export { Animator } from './animation/Animator';
+export { animationsFromAseprite } from './animation/fromAseprite';
+
+// Export text layout
+export { measureText, layoutText } from './text/layoutText';
+export { createSpriteFont } from './text/spriteFont';
+export { parseRichText, layoutRichText } from './text/richText';
+export { createGlyphAtlas } from './text/glyphAtlas';
+
+// Export curve helpers
+export { getQuadraticBezierPoints, getCubicBezierPoints, getCatmullRomPoints } from './utils/curves';
+
+// Export particles
+export { ParticleEmitter } from './particles/ParticleEmitter';
+
+// Export tilemap
+export { Tilemap } from './tilemap/Tilemap';
+
 // Export post-processing system
 export { PostProcessManager } from './postProcess/PostProcessManager';
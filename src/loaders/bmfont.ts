@@ -0,0 +1,178 @@
+import type { BitmapFont, BitmapGlyph, BMFontJson, BMFontParseOptions } from '../types/font';
+import { parseXml } from '../utils/parseXml';
+
+type BMFontChar = BMFontJson['chars'][number];
+type BMFontKerning = NonNullable<BMFontJson['kernings']>[number];
+
+// Descriptor being assembled from the text or XML format
+type BMFontBuilder = Partial<BMFontJson> & { chars: BMFontChar[]; pages: string[]; kernings: BMFontKerning[] };
+
+const CHAR_FIELDS = ['id', 'x', 'y', 'width', 'height', 'xoffset', 'yoffset', 'xadvance'] as const;
+
+/**
+ * Parse an AngelCode BMFont descriptor into a bitmap font. Accepts the text (.fnt) and XML
+ * formats as a string, and the common JSON layout as a parsed object.
+ *
+ * @param data - Contents of the .fnt / .xml file, or parsed JSON
+ * @param options - Atlas names for the font's pages
+ * @throws Error naming the offending char, kerning pair or page if the data is invalid
+ */
+export function parseBMFont(data: string | BMFontJson, options?: BMFontParseOptions): BitmapFont {
+	let json: BMFontJson;
+	if (typeof data === 'string') {
+		json = data.trimStart().startsWith('<') ? readXmlFont(data) : readTextFont(data);
+	} else {
+		json = data;
+	}
+
+	if (!json || typeof json !== 'object' || !json.common || !Array.isArray(json.chars)) {
+		throw new Error('BMFont data has no "common" block or "chars". Expected a BMFont text, XML or JSON descriptor.');
+	}
+	const { lineHeight, base } = json.common;
+	if (!isNumber(lineHeight) || !isNumber(base)) {
+		throw new Error('BMFont "common" block needs numeric lineHeight and base.');
+	}
+
+	const pages = json.pages ?? [];
+	const atlases = getPageAtlases(pages.length, options);
+	const glyphs: Record<number, BitmapGlyph> = {};
+	for (const char of json.chars) {
+		for (const field of CHAR_FIELDS) {
+			if (!isNumber(char?.[field])) {
+				throw new Error(`BMFont char ${char?.id ?? '(no id)'} has an invalid "${field}".`);
+			}
+		}
+		if (glyphs[char.id]) {
+			throw new Error(`BMFont char ${char.id} appears more than once.`);
+		}
+
+		const page = char.page ?? 0;
+		if (pages.length > 0 && (page < 0 || page >= pages.length)) {
+			throw new Error(`BMFont char ${char.id} is on page ${page}, but the font has ${pages.length} page(s).`);
+		}
+		const glyph: BitmapGlyph = {
+			x: char.x,
+			y: char.y,
+			width: char.width,
+			height: char.height,
+			xOffset: char.xoffset,
+			yOffset: char.yoffset,
+			xAdvance: char.xadvance,
+		};
+		if (atlases[page] !== undefined) {
+			glyph.atlas = atlases[page];
+		}
+		glyphs[char.id] = glyph;
+	}
+
+	const kerning: Record<number, Record<number, number>> = {};
+	for (const pair of json.kernings ?? []) {
+		if (!isNumber(pair?.first) || !isNumber(pair.second) || !isNumber(pair.amount)) {
+			throw new Error(`BMFont kerning pair ${pair?.first} ${pair?.second} is invalid.`);
+		}
+		(kerning[pair.first] ??= {})[pair.second] = pair.amount;
+	}
+
+	const font: BitmapFont = { lineHeight, base, glyphs, kerning, pages: [...pages] };
+	if (json.info?.face !== undefined) {
+		font.face = json.info.face;
+	}
+	if (json.info?.size !== undefined) {
+		// Negative sizes mean the font was generated to match character height
+		font.size = Math.abs(json.info.size);
+	}
+	return font;
+}
+
+function isNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value);
+}
+
+function getPageAtlases(pageCount: number, options?: BMFontParseOptions): Array<string | undefined> {
+	const atlas = options?.atlas;
+	if (Array.isArray(atlas)) {
+		if (atlas.length !== pageCount) {
+			throw new Error(`BMFont has ${pageCount} page(s), but ${atlas.length} atlas name(s) were given.`);
+		}
+		return atlas;
+	}
+	if (pageCount > 1) {
+		throw new Error(`BMFont has ${pageCount} pages. Load each page as an atlas and pass one atlas name per page.`);
+	}
+	return [atlas];
+}
+
+/**
+ * Read one "key=value" attribute list, converting numeric values
+ */
+function readAttributes(entries: Iterable<[string, string]>): Record<string, string | number> {
+	const attributes: Record<string, string | number> = {};
+	for (const [key, value] of entries) {
+		attributes[key] = value !== '' && /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+	}
+	return attributes;
+}
+
+/**
+ * Convert the text format: one tag per line followed by key=value pairs
+ */
+function readTextFont(text: string): BMFontJson {
+	const font: BMFontBuilder = { chars: [], pages: [], kernings: [] };
+	for (const line of text.split(/\r?\n/)) {
+		const tag = line.match(/^\s*(\w+)/)?.[1];
+		if (!tag) {
+			continue;
+		}
+		const attributes = readAttributes(
+			Array.from(line.matchAll(/(\w+)=("[^"]*"|\S+)/g), ([, key, value]): [string, string] => [
+				key,
+				value.replace(/^"|"$/g, ''),
+			])
+		);
+		addTag(font, tag, attributes);
+	}
+	return font as BMFontJson;
+}
+
+/**
+ * Convert the XML format: <font> with <info>, <common>, <pages>, <chars> and <kernings>
+ */
+function readXmlFont(xml: string): BMFontJson {
+	const root = parseXml(xml, 'BMFont file');
+	if (root.name !== 'font') {
+		throw new Error(`Expected a <font> root element in the BMFont file (got <${root.name}>).`);
+	}
+
+	const font: BMFontBuilder = { chars: [], pages: [], kernings: [] };
+	for (const element of root.children) {
+		// Pages, chars and kernings are wrapped in a list element
+		const tags = element.children.length > 0 ? element.children : [element];
+		for (const tag of tags) {
+			addTag(font, tag.name, readAttributes(Object.entries(tag.attributes)));
+		}
+	}
+	return font as BMFontJson;
+}
+
+function addTag(font: BMFontBuilder, tag: string, attributes: Record<string, string | number>): void {
+	switch (tag) {
+		case 'info':
+			font.info = {
+				face: attributes.face !== undefined ? String(attributes.face) : undefined,
+				size: attributes.size as number | undefined,
+			};
+			break;
+		case 'common':
+			font.common = { lineHeight: attributes.lineHeight as number, base: attributes.base as number };
+			break;
+		case 'page':
+			font.pages[attributes.id as number] = String(attributes.file);
+			break;
+		case 'char':
+			font.chars.push(attributes as unknown as BMFontChar);
+			break;
+		case 'kerning':
+			font.kernings.push(attributes as unknown as BMFontKerning);
+			break;
+	}
+}
@@ -0,0 +1,203 @@
+import type { SpriteCoordinates, SpriteLookup } from '../types';
+import type {
+	AtlasData,
+	AtlasFrameData,
+	AtlasParseOptions,
+	AtlasRect,
+	AsepriteAtlas,
+	AsepriteAnimation,
+	AsepriteDirection,
+} from '../types/atlas';
+
+const DIRECTIONS: AsepriteDirection[] = ['forward', 'reverse', 'pingpong', 'pingpong_reverse'];
+
+function isNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isRect(rect: AtlasRect | undefined): rect is AtlasRect {
+	return !!rect && isNumber(rect.x) && isNumber(rect.y) && isNumber(rect.w) && isNumber(rect.h);
+}
+
+/**
+ * List the frames of a hash or array export in file order
+ */
+function getFrameEntries(data: AtlasData): Array<[string, AtlasFrameData]> {
+	if (!data || typeof data !== 'object' || !data.frames || typeof data.frames !== 'object') {
+		throw new Error('Atlas data has no "frames". Expected a TexturePacker, Aseprite or Free Texture Packer JSON export.');
+	}
+
+	if (!Array.isArray(data.frames)) {
+		return Object.entries(data.frames);
+	}
+
+	const seen = new Set<string>();
+	return data.frames.map((frame, index) => {
+		if (typeof frame?.filename !== 'string') {
+			throw new Error(`Atlas frame at index ${index} has no filename.`);
+		}
+		if (seen.has(frame.filename)) {
+			throw new Error(`Atlas frame "${frame.filename}" appears more than once.`);
+		}
+		seen.add(frame.filename);
+		return [frame.filename, frame];
+	});
+}
+
+/**
+ * Validate one frame and convert it to sprite coordinates
+ */
+function parseFrame(
+	name: string,
+	data: AtlasFrameData,
+	atlasSize: { w: number; h: number } | undefined,
+	options?: AtlasParseOptions
+): SpriteCoordinates {
+	const { frame, rotated, spriteSourceSize, sourceSize, pivot } = data ?? ({} as AtlasFrameData);
+
+	if (!isRect(frame)) {
+		throw new Error(`Atlas frame "${name}" has an invalid "frame". Expected numeric x, y, w and h.`);
+	}
+	if (frame.w <= 0 || frame.h <= 0) {
+		throw new Error(`Atlas frame "${name}" has an empty frame (${frame.w}x${frame.h}).`);
+	}
+
+	// Rotated frames occupy h x w pixels in the atlas image
+	const regionWidth = rotated ? frame.h : frame.w;
+	const regionHeight = rotated ? frame.w : frame.h;
+	if (
+		atlasSize &&
+		(frame.x < 0 || frame.y < 0 || frame.x + regionWidth > atlasSize.w || frame.y + regionHeight > atlasSize.h)
+	) {
+		throw new Error(`Atlas frame "${name}" lies outside the ${atlasSize.w}x${atlasSize.h} atlas image.`);
+	}
+
+	const sprite: SpriteCoordinates = { x: frame.x, y: frame.y, spriteWidth: frame.w, spriteHeight: frame.h };
+	if (options?.atlas !== undefined) {
+		sprite.atlas = options.atlas;
+	}
+	if (rotated) {
+		sprite.rotated = true;
+	}
+
+	let sourceWidth = frame.w;
+	let sourceHeight = frame.h;
+	if (spriteSourceSize !== undefined || sourceSize !== undefined) {
+		if (!isRect(spriteSourceSize) || !sourceSize || !isNumber(sourceSize.w) || !isNumber(sourceSize.h)) {
+			throw new Error(
+				`Atlas frame "${name}" has an invalid "spriteSourceSize" or "sourceSize". Both are required for trimmed frames.`
+			);
+		}
+		if (
+			spriteSourceSize.x < 0 ||
+			spriteSourceSize.y < 0 ||
+			spriteSourceSize.x + frame.w > sourceSize.w ||
+			spriteSourceSize.y + frame.h > sourceSize.h
+		) {
+			throw new Error(
+				`Atlas frame "${name}" does not fit its source size: trimmed ${frame.w}x${frame.h} at (${spriteSourceSize.x}, ${spriteSourceSize.y}) in ${sourceSize.w}x${sourceSize.h}.`
+			);
+		}
+
+		// Only record trimming when it changes anything
+		if (spriteSourceSize.x !== 0 || spriteSourceSize.y !== 0 || sourceSize.w !== frame.w || sourceSize.h !== frame.h) {
+			sprite.offsetX = spriteSourceSize.x;
+			sprite.offsetY = spriteSourceSize.y;
+			sprite.sourceWidth = sourceSize.w;
+			sprite.sourceHeight = sourceSize.h;
+			sourceWidth = sourceSize.w;
+			sourceHeight = sourceSize.h;
+		}
+	}
+
+	if (pivot !== undefined) {
+		if (!pivot || !isNumber(pivot.x) || !isNumber(pivot.y)) {
+			throw new Error(`Atlas frame "${name}" has an invalid "pivot". Expected numeric x and y.`);
+		}
+		sprite.pivotX = pivot.x * sourceWidth;
+		sprite.pivotY = pivot.y * sourceHeight;
+	}
+
+	return sprite;
+}
+
+/**
+ * Parse a TexturePacker JSON export (hash or array flavour) into a sprite lookup.
+ * Trimmed frames keep their offset and untrimmed size, rotated frames are drawn upright,
+ * and pivots are converted to pixels.
+ *
+ * @param data - Parsed JSON export
+ * @param options - Optional atlas name to set on every sprite
+ * @throws Error naming the offending frame if the data is invalid
+ */
+export function parseTexturePackerAtlas(data: AtlasData, options?: AtlasParseOptions): SpriteLookup {
+	const atlasSize = data?.meta?.size;
+	const sprites: SpriteLookup = {};
+	for (const [name, frame] of getFrameEntries(data)) {
+		sprites[name] = parseFrame(name, frame, atlasSize, options);
+	}
+	return sprites;
+}
+
+/**
+ * Parse a Free Texture Packer JSON export. Its "JSON (hash)" and "JSON (array)" formats
+ * use the TexturePacker layout.
+ *
+ * @param data - Parsed JSON export
+ * @param options - Optional atlas name to set on every sprite
+ * @throws Error naming the offending frame if the data is invalid
+ */
+export function parseFreeTexturePackerAtlas(data: AtlasData, options?: AtlasParseOptions): SpriteLookup {
+	return parseTexturePackerAtlas(data, options);
+}
+
+/**
+ * Parse an Aseprite sprite sheet export (hash or array flavour) into a sprite lookup
+ * plus one animation per frame tag.
+ *
+ * @param data - Parsed JSON export
+ * @param options - Optional atlas name to set on every sprite
+ * @throws Error naming the offending frame or tag if the data is invalid
+ */
+export function parseAsepriteAtlas(data: AtlasData, options?: AtlasParseOptions): AsepriteAtlas {
+	const entries = getFrameEntries(data);
+	const sprites = parseTexturePackerAtlas(data, options);
+	const animations: Record<string, AsepriteAnimation> = {};
+
+	for (const tag of data.meta?.frameTags ?? []) {
+		const { name, from, to } = tag;
+		if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to < from || to >= entries.length) {
+			throw new Error(
+				`Frame tag "${name}" has an invalid frame range (${from} to ${to}). The export has ${entries.length} frames.`
+			);
+		}
+
+		const direction = tag.direction ?? 'forward';
+		if (!DIRECTIONS.includes(direction)) {
+			throw new Error(`Frame tag "${name}" has an unknown direction "${direction}".`);
+		}
+
+		const frames: string[] = [];
+		const durations: number[] = [];
+		for (let i = from; i <= to; i++) {
+			const [frameName, frame] = entries[i];
+			if (frame.duration !== undefined && (!isNumber(frame.duration) || frame.duration <= 0)) {
+				throw new Error(`Atlas frame "${frameName}" has an invalid duration (${frame.duration}).`);
+			}
+			frames.push(frameName);
+			durations.push(frame.duration ?? 100);
+		}
+
+		const animation: AsepriteAnimation = { frames, durations, direction };
+		const repeat = tag.repeat !== undefined ? Number(tag.repeat) : 0;
+		if (!Number.isInteger(repeat) || repeat < 0) {
+			throw new Error(`Frame tag "${name}" has an invalid repeat count "${tag.repeat}".`);
+		}
+		if (repeat > 0) {
+			animation.repeat = repeat;
+		}
+		animations[name] = animation;
+	}
+
+	return { sprites, animations };
+}
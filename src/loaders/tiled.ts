@@ -0,0 +1,355 @@
+import type { SpriteCoordinates, SpriteLookup } from '../types';
+import type { AnimationLookup } from '../types/animation';
+import type { TilemapLayer } from '../types/tilemap';
+import type {
+	TiledLayer,
+	TiledMap,
+	TiledMapResult,
+	TiledParseOptions,
+	TiledProperty,
+	TiledTile,
+	TiledTileset,
+} from '../types/tiled';
+import { parseXml } from '../utils/parseXml';
+import type { XmlElement } from '../utils/parseXml';
+
+// Flag bits stored in the top of each global tile id
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+const TILE_ID_MASK = 0x0fffffff;
+
+/**
+ * Parse a Tiled JSON map into tilemap options and a sprite lookup for its tilesets.
+ * Supports orthogonal, finite maps with embedded single-image tilesets, CSV or uncompressed
+ * base64 layer data, flipped tiles, tile animations and group layers. Tile layers with a
+ * boolean "static" property set to false are drawn live instead of baked.
+ *
+ * @param data - Parsed JSON map
+ * @param options - Atlas names, sprite key prefix and tilemap id
+ * @throws Error naming the offending layer or tileset if the map is not supported
+ */
+export function parseTiledMap(data: TiledMap, options?: TiledParseOptions): TiledMapResult {
+	if (!data || typeof data !== 'object' || !Array.isArray(data.layers) || !Array.isArray(data.tilesets)) {
+		throw new Error('Tiled map has no "layers" or "tilesets". Expected a Tiled JSON map.');
+	}
+	if (data.orientation !== undefined && data.orientation !== 'orthogonal') {
+		throw new Error(`Only orthogonal Tiled maps are supported (got "${data.orientation}").`);
+	}
+	if (data.infinite) {
+		throw new Error('Infinite Tiled maps are not supported. Uncheck "Infinite" in the map properties.');
+	}
+
+	const getKey = (gid: number): string | number => (options?.keyPrefix !== undefined ? `${options.keyPrefix}${gid}` : gid);
+	const sprites: SpriteLookup = {};
+	const animations: AnimationLookup = {};
+
+	const tilesets = [...data.tilesets].sort((a, b) => a.firstgid - b.firstgid);
+	for (const tileset of tilesets) {
+		parseTileset(tileset, getAtlas(tileset, options), getKey, sprites, animations);
+	}
+
+	const layers: TilemapLayer[] = [];
+	for (const layer of flattenLayers(data.layers)) {
+		layers.push(parseTileLayer(layer, data, getKey, sprites));
+	}
+
+	const map: TiledMapResult['map'] = {
+		width: data.width,
+		height: data.height,
+		tileWidth: data.tilewidth,
+		tileHeight: data.tileheight,
+		layers,
+	};
+	if (options?.id !== undefined) {
+		map.id = options.id;
+	}
+	if (options?.chunkSize !== undefined) {
+		map.chunkSize = options.chunkSize;
+	}
+	if (Object.keys(animations).length > 0) {
+		map.animations = animations;
+	}
+	return { map, sprites };
+}
+
+/**
+ * Parse a Tiled TMX (XML) map. Takes the same subset as parseTiledMap(), with layer data
+ * encoded as CSV, uncompressed base64 or <tile> elements.
+ *
+ * @param xml - Contents of the .tmx file
+ * @param options - Atlas names, sprite key prefix and tilemap id
+ * @throws Error naming the offending layer or tileset if the map is not supported
+ */
+export function parseTiledTmx(xml: string, options?: TiledParseOptions): TiledMapResult {
+	const root = parseXml(xml, 'TMX file');
+	if (root.name !== 'map') {
+		throw new Error(`Expected a <map> root element in the TMX file (got <${root.name}>).`);
+	}
+
+	const map: TiledMap = {
+		width: getNumber(root, 'width'),
+		height: getNumber(root, 'height'),
+		tilewidth: getNumber(root, 'tilewidth'),
+		tileheight: getNumber(root, 'tileheight'),
+		orientation: root.attributes.orientation,
+		infinite: root.attributes.infinite === '1',
+		layers: convertTmxLayers(root.children),
+		tilesets: root.children.filter(child => child.name === 'tileset').map(convertTmxTileset),
+	};
+	return parseTiledMap(map, options);
+}
+
+function getAtlas(tileset: TiledTileset, options?: TiledParseOptions): string | undefined {
+	const atlas = options?.atlas;
+	if (typeof atlas === 'object') {
+		return tileset.name !== undefined ? atlas[tileset.name] : undefined;
+	}
+	return atlas;
+}
+
+/**
+ * Add a sprite for every tile of a tileset, and an animation for every animated tile
+ */
+function parseTileset(
+	tileset: TiledTileset,
+	atlas: string | undefined,
+	getKey: (gid: number) => string | number,
+	sprites: SpriteLookup,
+	animations: AnimationLookup
+): void {
+	const name = tileset.name ?? `at firstgid ${tileset.firstgid}`;
+	if (tileset.source !== undefined) {
+		throw new Error(`Tileset "${tileset.source}" is external. Embed tilesets in the map to load it.`);
+	}
+	if (tileset.image === undefined) {
+		throw new Error(`Tileset "${name}" uses one image per tile, which is not supported. Use a single tileset image.`);
+	}
+
+	const tileWidth = tileset.tilewidth ?? 0;
+	const tileHeight = tileset.tileheight ?? 0;
+	const tileCount = tileset.tilecount ?? -1;
+	if (!(tileWidth > 0) || !(tileHeight > 0) || !(tileCount >= 0)) {
+		throw new Error(`Tileset "${name}" has an invalid tile size or tile count.`);
+	}
+	const margin = tileset.margin ?? 0;
+	const spacing = tileset.spacing ?? 0;
+	const columns = tileset.columns || Math.floor(((tileset.imagewidth ?? 0) - 2 * margin + spacing) / (tileWidth + spacing));
+	if (!(columns > 0)) {
+		throw new Error(`Tileset "${name}" has no columns. Check its image width and tile size.`);
+	}
+
+	for (let id = 0; id < tileCount; id++) {
+		const sprite: SpriteCoordinates = {
+			x: margin + (id % columns) * (tileWidth + spacing),
+			y: margin + Math.floor(id / columns) * (tileHeight + spacing),
+			spriteWidth: tileWidth,
+			spriteHeight: tileHeight,
+		};
+		if (atlas !== undefined) {
+			sprite.atlas = atlas;
+		}
+		sprites[getKey(tileset.firstgid + id)] = sprite;
+	}
+
+	for (const tile of tileset.tiles ?? []) {
+		if (!tile.animation || tile.animation.length === 0) {
+			continue;
+		}
+		animations[getKey(tileset.firstgid + tile.id)] = {
+			frames: tile.animation.map(frame => getKey(tileset.firstgid + frame.tileid)),
+			durations: tile.animation.map(frame => frame.duration),
+		};
+	}
+}
+
+/**
+ * Tile layers in drawing order, with group layers expanded and hidden groups hiding their children
+ */
+function flattenLayers(layers: TiledLayer[], hidden: boolean = false, opacity: number = 1): TiledLayer[] {
+	const result: TiledLayer[] = [];
+	for (const layer of layers) {
+		const layerHidden = hidden || layer.visible === false;
+		const layerOpacity = opacity * (layer.opacity ?? 1);
+		if (layer.type === 'group') {
+			result.push(...flattenLayers(layer.layers ?? [], layerHidden, layerOpacity));
+		} else if (layer.type === 'tilelayer') {
+			result.push({ ...layer, visible: !layerHidden, opacity: layerOpacity });
+		}
+	}
+	return result;
+}
+
+/**
+ * Convert a tile layer, splitting flag bits from global tile ids
+ */
+function parseTileLayer(
+	layer: TiledLayer,
+	map: TiledMap,
+	getKey: (gid: number) => string | number,
+	sprites: SpriteLookup
+): TilemapLayer {
+	if (layer.chunks !== undefined) {
+		throw new Error(`Layer "${layer.name}" is stored in chunks, which only infinite maps use.`);
+	}
+	if (layer.compression) {
+		throw new Error(
+			`Layer "${layer.name}" uses ${layer.compression} compression, which is not supported. Export with CSV or uncompressed base64.`
+		);
+	}
+
+	const gids = typeof layer.data === 'string' ? decodeBase64Gids(layer.data) : layer.data;
+	const size = map.width * map.height;
+	if (!gids || gids.length !== size) {
+		throw new Error(
+			`Layer "${layer.name}" has ${gids?.length ?? 0} tiles, expected ${size} (${map.width}x${map.height}).`
+		);
+	}
+
+	const tiles: Array<string | number | null> = new Array(size);
+	let flags: Uint8Array | undefined;
+	for (let i = 0; i < size; i++) {
+		const gid = gids[i];
+		const id = gid & TILE_ID_MASK;
+		if (id === 0) {
+			tiles[i] = null;
+			continue;
+		}
+
+		const key = getKey(id);
+		if (!sprites[key]) {
+			throw new Error(`Layer "${layer.name}" uses tile ${id}, which is not in any tileset.`);
+		}
+		tiles[i] = key;
+
+		// Tiled flips diagonally (swapping x and y) first, then horizontally and vertically
+		const horizontal = (gid & FLIPPED_HORIZONTALLY) !== 0;
+		const vertical = (gid & FLIPPED_VERTICALLY) !== 0;
+		const diagonal = (gid & FLIPPED_DIAGONALLY) !== 0;
+		if (horizontal || vertical || diagonal) {
+			flags ??= new Uint8Array(size);
+			flags[i] = diagonal
+				? (vertical ? 1 : 0) | (horizontal ? 0 : 2) | 4
+				: (horizontal ? 1 : 0) | (vertical ? 2 : 0);
+		}
+	}
+
+	const result: TilemapLayer = { name: layer.name, tiles };
+	if (flags) {
+		result.flags = flags;
+	}
+	if (layer.visible === false) {
+		result.visible = false;
+	}
+	if (layer.opacity !== undefined && layer.opacity !== 1) {
+		result.opacity = layer.opacity;
+	}
+	const staticProperty = layer.properties?.find((property: TiledProperty) => property.name === 'static');
+	if (staticProperty?.value === false) {
+		result.static = false;
+	}
+	return result;
+}
+
+/**
+ * Decode little-endian 32-bit global tile ids
+ */
+function decodeBase64Gids(data: string): number[] {
+	const bytes = atob(data.trim());
+	const gids: number[] = [];
+	for (let i = 0; i + 3 < bytes.length; i += 4) {
+		gids.push(
+			(bytes.charCodeAt(i) |
+				(bytes.charCodeAt(i + 1) << 8) |
+				(bytes.charCodeAt(i + 2) << 16) |
+				(bytes.charCodeAt(i + 3) << 24)) >>>
+				0
+		);
+	}
+	return gids;
+}
+
+function getNumber(element: XmlElement, attribute: string): number {
+	return Number(element.attributes[attribute]);
+}
+
+function getOptionalNumber(element: XmlElement, attribute: string): number | undefined {
+	return element.attributes[attribute] !== undefined ? Number(element.attributes[attribute]) : undefined;
+}
+
+function convertTmxProperties(element: XmlElement): TiledProperty[] | undefined {
+	const properties = element.children.find(child => child.name === 'properties');
+	return properties?.children.map(property => {
+		const { name, type, value } = property.attributes;
+		return { name, type, value: type === 'bool' ? value === 'true' : value };
+	});
+}
+
+function convertTmxLayers(elements: XmlElement[]): TiledLayer[] {
+	const layers: TiledLayer[] = [];
+	for (const element of elements) {
+		const common = {
+			name: element.attributes.name ?? '',
+			visible: element.attributes.visible !== '0',
+			opacity: getOptionalNumber(element, 'opacity'),
+			properties: convertTmxProperties(element),
+		};
+
+		if (element.name === 'group') {
+			layers.push({ ...common, type: 'group', layers: convertTmxLayers(element.children) });
+		} else if (element.name === 'layer') {
+			const data = element.children.find(child => child.name === 'data');
+			const layer: TiledLayer = { ...common, type: 'tilelayer' };
+			if (data) {
+				const { encoding, compression } = data.attributes;
+				if (compression) {
+					layer.compression = compression;
+				}
+				if (data.children.some(child => child.name === 'chunk')) {
+					layer.chunks = [];
+				} else if (encoding === 'csv') {
+					layer.data = data.text.split(',').map(value => Number(value.trim()));
+				} else if (encoding === 'base64') {
+					layer.encoding = 'base64';
+					layer.data = data.text.trim();
+				} else {
+					layer.data = data.children.filter(child => child.name === 'tile').map(tile => getNumber(tile, 'gid') || 0);
+				}
+			}
+			layers.push(layer);
+		}
+	}
+	return layers;
+}
+
+function convertTmxTileset(element: XmlElement): TiledTileset {
+	const image = element.children.find(child => child.name === 'image');
+	const tiles: TiledTile[] = [];
+	for (const tile of element.children.filter(child => child.name === 'tile')) {
+		const animation = tile.children.find(child => child.name === 'animation');
+		if (animation) {
+			tiles.push({
+				id: getNumber(tile, 'id'),
+				animation: animation.children
+					.filter(frame => frame.name === 'frame')
+					.map(frame => ({ tileid: getNumber(frame, 'tileid'), duration: getNumber(frame, 'duration') })),
+			});
+		}
+	}
+
+	return {
+		firstgid: getNumber(element, 'firstgid'),
+		name: element.attributes.name,
+		source: element.attributes.source,
+		image: image?.attributes.source,
+		imagewidth: image ? getOptionalNumber(image, 'width') : undefined,
+		imageheight: image ? getOptionalNumber(image, 'height') : undefined,
+		tilewidth: getOptionalNumber(element, 'tilewidth'),
+		tileheight: getOptionalNumber(element, 'tileheight'),
+		tilecount: getOptionalNumber(element, 'tilecount'),
+		columns: getOptionalNumber(element, 'columns'),
+		margin: getOptionalNumber(element, 'margin'),
+		spacing: getOptionalNumber(element, 'spacing'),
+		tiles,
+	};
+}
@@ -0,0 +1,227 @@
+import type { ParticleCurve, ParticleData, ParticleEmitterOptions, ParticleRange } from '../types/particles';
+
+/**
+ * Spawns, moves and ages particles, keeping them in typed arrays that Engine.drawParticles()
+ * writes straight into the vertex buffer. Advance it with update(), or create it with
+ * Engine.createParticleEmitter() to have the engine advance it every frame.
+ */
+export class ParticleEmitter implements ParticleData {
+	/** Position new particles spawn around */
+	x: number = 0;
+	y: number = 0;
+	/** Particles spawned per second while emitting */
+	rate: number;
+	/** Whether update() spawns particles at the rate; bursts spawn either way */
+	emitting: boolean = true;
+
+	readonly sprites: Array<string | number>;
+	readonly maxParticles: number;
+	/** Number of living particles, stored at the start of the arrays */
+	count: number = 0;
+
+	readonly positionX: Float32Array;
+	readonly positionY: Float32Array;
+	readonly rotation: Float32Array;
+	readonly scale: Float32Array;
+	readonly color: Float32Array;
+	readonly frame: Uint16Array;
+
+	private readonly velocityX: Float32Array;
+	private readonly velocityY: Float32Array;
+	private readonly spin: Float32Array;
+	private readonly age: Float32Array;
+	private readonly lifetime: Float32Array;
+
+	private readonly options: ParticleEmitterOptions;
+	private readonly scaleCurve: number[];
+	private readonly alphaCurve: number[];
+	private readonly redCurve: number[];
+	private readonly greenCurve: number[];
+	private readonly blueCurve: number[];
+
+	private randomState: number;
+	// Fraction of a particle carried over between updates, so low rates still spawn
+	private spawnDebt: number = 0;
+
+	/**
+	 * Creates an emitter without particles
+	 * @param options - Spawning, motion and appearance settings
+	 * @throws Error if there are no sprites or maxParticles is not a positive integer
+	 */
+	constructor(options: ParticleEmitterOptions) {
+		const maxParticles = options.maxParticles ?? 1000;
+		if (options.sprites.length === 0) {
+			throw new Error('Particle emitter needs at least one sprite.');
+		}
+		if (!Number.isInteger(maxParticles) || maxParticles < 1) {
+			throw new Error(`Particle emitter maxParticles must be a positive integer (got ${maxParticles}).`);
+		}
+
+		this.options = options;
+		this.sprites = options.sprites;
+		this.maxParticles = maxParticles;
+		this.rate = options.rate ?? 0;
+		this.randomState = (options.seed ?? Math.random() * 0x100000000) >>> 0;
+
+		this.positionX = new Float32Array(maxParticles);
+		this.positionY = new Float32Array(maxParticles);
+		this.rotation = new Float32Array(maxParticles);
+		this.scale = new Float32Array(maxParticles);
+		this.color = new Float32Array(maxParticles * 4);
+		this.frame = new Uint16Array(maxParticles);
+		this.velocityX = new Float32Array(maxParticles);
+		this.velocityY = new Float32Array(maxParticles);
+		this.spin = new Float32Array(maxParticles);
+		this.age = new Float32Array(maxParticles);
+		this.lifetime = new Float32Array(maxParticles);
+
+		this.scaleCurve = toCurve(options.scale ?? 1);
+		this.alphaCurve = toCurve(options.alpha ?? 1);
+		const colors = toCurve(options.color ?? 0xffffff);
+		this.redCurve = colors.map(color => ((color >> 16) & 0xff) / 255);
+		this.greenCurve = colors.map(color => ((color >> 8) & 0xff) / 255);
+		this.blueCurve = colors.map(color => (color & 0xff) / 255);
+	}
+
+	/**
+	 * Age and move the particles, remove the ones that died, then spawn new ones at the rate
+	 * @param deltaTime - Time since the last update in seconds
+	 */
+	update(deltaTime: number): void {
+		const gravityX = (this.options.gravityX ?? 0) * deltaTime;
+		const gravityY = (this.options.gravityY ?? 0) * deltaTime;
+		const drag = Math.exp(-(this.options.drag ?? 0) * deltaTime);
+
+		let i = 0;
+		while (i < this.count) {
+			this.age[i] += deltaTime;
+			if (this.age[i] >= this.lifetime[i]) {
+				this.removeParticle(i);
+				continue;
+			}
+			this.velocityX[i] = (this.velocityX[i] + gravityX) * drag;
+			this.velocityY[i] = (this.velocityY[i] + gravityY) * drag;
+			this.positionX[i] += this.velocityX[i] * deltaTime;
+			this.positionY[i] += this.velocityY[i] * deltaTime;
+			this.rotation[i] += this.spin[i] * deltaTime;
+			this.updateAppearance(i);
+			i++;
+		}
+
+		if (this.emitting && this.rate > 0) {
+			this.spawnDebt += this.rate * deltaTime;
+			const spawns = Math.floor(this.spawnDebt);
+			this.spawnDebt -= spawns;
+			this.burst(spawns);
+		}
+	}
+
+	/**
+	 * Spawn particles at once, e.g. for an explosion. Particles past maxParticles are dropped.
+	 * @param count - Number of particles
+	 * @param x - Spawn X, defaults to the emitter position
+	 * @param y - Spawn Y, defaults to the emitter position
+	 * @returns Number of particles spawned
+	 */
+	burst(count: number, x: number = this.x, y: number = this.y): number {
+		const spawns = Math.max(0, Math.min(Math.floor(count), this.maxParticles - this.count));
+		for (let n = 0; n < spawns; n++) {
+			this.spawnParticle(this.count++, x, y);
+		}
+		return spawns;
+	}
+
+	/**
+	 * Remove every particle
+	 */
+	clear(): void {
+		this.count = 0;
+		this.spawnDebt = 0;
+	}
+
+	private spawnParticle(i: number, x: number, y: number): void {
+		const options = this.options;
+		const speed = this.pick(options.speed ?? 0);
+		const angle = this.pick(options.angle ?? [0, Math.PI * 2]);
+
+		this.positionX[i] = x + this.pick(options.offsetX ?? 0);
+		this.positionY[i] = y + this.pick(options.offsetY ?? 0);
+		this.velocityX[i] = Math.cos(angle) * speed;
+		this.velocityY[i] = Math.sin(angle) * speed;
+		this.rotation[i] = this.pick(options.rotation ?? 0);
+		this.spin[i] = this.pick(options.spin ?? 0);
+		this.age[i] = 0;
+		this.lifetime[i] = this.pick(options.lifetime);
+		if (options.frameRate === undefined && !options.framesOverLife) {
+			this.frame[i] = Math.min(this.sprites.length - 1, Math.floor(this.random() * this.sprites.length));
+		}
+		this.updateAppearance(i);
+	}
+
+	/**
+	 * Move the last particle into a dead one's place
+	 */
+	private removeParticle(i: number): void {
+		const last = --this.count;
+		this.positionX[i] = this.positionX[last];
+		this.positionY[i] = this.positionY[last];
+		this.velocityX[i] = this.velocityX[last];
+		this.velocityY[i] = this.velocityY[last];
+		this.rotation[i] = this.rotation[last];
+		this.spin[i] = this.spin[last];
+		this.age[i] = this.age[last];
+		this.lifetime[i] = this.lifetime[last];
+		this.scale[i] = this.scale[last];
+		this.frame[i] = this.frame[last];
+		this.color.copyWithin(i * 4, last * 4, last * 4 + 4);
+	}
+
+	/**
+	 * Set scale, color and animation frame from the particle's share of its life
+	 */
+	private updateAppearance(i: number): void {
+		const life = this.lifetime[i] > 0 ? Math.min(1, this.age[i] / this.lifetime[i]) : 1;
+		this.scale[i] = sampleCurve(this.scaleCurve, life);
+		this.color[i * 4] = sampleCurve(this.redCurve, life);
+		this.color[i * 4 + 1] = sampleCurve(this.greenCurve, life);
+		this.color[i * 4 + 2] = sampleCurve(this.blueCurve, life);
+		this.color[i * 4 + 3] = sampleCurve(this.alphaCurve, life);
+
+		const frameCount = this.sprites.length;
+		if (this.options.framesOverLife) {
+			this.frame[i] = Math.min(frameCount - 1, Math.floor(life * frameCount));
+		} else if (this.options.frameRate !== undefined) {
+			this.frame[i] = Math.floor(this.age[i] * this.options.frameRate) % frameCount;
+		}
+	}
+
+	private pick(range: ParticleRange): number {
+		return typeof range === 'number' ? range : range[0] + (range[1] - range[0]) * this.random();
+	}
+
+	/**
+	 * Seeded random number from 0 (inclusive) to 1 (exclusive), mulberry32
+	 */
+	private random(): number {
+		let t = (this.randomState = (this.randomState + 0x6d2b79f5) >>> 0);
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+	}
+}
+
+function toCurve(curve: ParticleCurve): number[] {
+	return typeof curve === 'number' ? [curve] : curve.length > 0 ? curve : [0];
+}
+
+/**
+ * Interpolate between values spread evenly from 0 to 1
+ */
+function sampleCurve(values: number[], t: number): number {
+	if (values.length === 1) {
+		return values[0];
+	}
+	const position = t * (values.length - 1);
+	const index = Math.min(values.length - 2, Math.floor(position));
+	return values[index] + (values[index + 1] - values[index]) * (position - index);
+}
@@ -1,7 +1,10 @@
 import {
+	fillBufferWithColor,
+	fillBufferWithLineSpriteCoordinates,
 	fillBufferWithLineVertices,
 	fillBufferWithRectangleVertices,
 	fillBufferWithSpriteCoordinates,
+	fillBufferWithTransformedRectangleVertices,
 } from './utils/buffer';
 import createProgram from './utils/createProgram';
 import createShader from './utils/createShader';
@@ -11,8 +14,109 @@ import spriteVertexShader from './shaders/spriteVertexShader';
 import { PostProcessManager } from './postProcess/PostProcessManager';
 import { BackgroundEffectManager } from './background/BackgroundEffectManager';
 
+import type { DrawOptions, SpriteDrawOptions, BulkSpriteOptions, Transform, ClipRect, BlendMode } from './types';
 import type { PostProcessEffect } from './types/postProcess';
 import type { BackgroundEffect } from './types/background';
+import type { ParticleData } from './types/particles';
+
+/**
+ * Render state shared by a run of quads. Quads with different states are drawn
+ * in separate draw calls, in the order they end up in after layer sorting.
+ */
+export type BatchState = {
+	/** Texture to sample from, or null for the sprite sheet */
+	texture: WebGLTexture | null;
+	/** Whether the camera view matrix applies to the quads */
+	camera: boolean;
+	/** Scissor rectangle the quads are clipped to, or null for no clipping */
+	clip: ClipRect | null;
+	/** Stencil mask the quads write to or are masked by, or null for no masking */
+	mask: MaskState | null;
+	/** How the quads combine with the render target */
+	blendMode: BlendMode;
+};
+
+/**
+ * Stencil mask phase. Each nesting depth owns one stencil bit; masks nest up to 8 deep.
+ */
+export type MaskState = {
+	/** Unique per mask, so the mask's stencil bit is cleared once before its shape is drawn */
+	id: number;
+	/** Nesting depth, starting at 1 */
+	depth: number;
+	/** 'write' draws the mask shape into the stencil, 'test' draws inside it, 'invert' outside it */
+	mode: 'write' | 'test' | 'invert';
+	/** Minimum alpha for a mask shape pixel to count as inside the mask */
+	alphaThreshold: number;
+};
+
+/**
+ * Named sprite sheet texture and the size used for its UV coordinates
+ */
+export type SpriteAtlas = {
+	texture: WebGLTexture;
+	width: number;
+	height: number;
+};
+
+const IDENTITY_MATRIX = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+
+// Per instance: rectangle and texture rectangle (x, y, width, height) as floats, then RGBA as normalized unsigned shorts
+const INSTANCE_FLOATS = 10;
+const INSTANCE_BYTES = INSTANCE_FLOATS * 4;
+
+// Corners of the unit quad in the vertex order of a batched quad (top left, top right, bottom left, bottom left,
+// top right, bottom right)
+const UNIT_QUAD = new Float32Array([0, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1, 1]);
+
+function isSameClipRect(a: ClipRect | null, b: ClipRect | null): boolean {
+	if (a === b) return true;
+	if (!a || !b) return false;
+	return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Whether the quad at offset has the vertex layout of an axis-aligned rectangle (possibly mirrored),
+ * so it can be rebuilt from its first and last corners
+ */
+function isRectangleQuad(buffer: Float32Array, offset: number): boolean {
+	return (
+		buffer[offset + 3] === buffer[offset + 1] &&
+		buffer[offset + 4] === buffer[offset] &&
+		buffer[offset + 6] === buffer[offset] &&
+		buffer[offset + 7] === buffer[offset + 5] &&
+		buffer[offset + 8] === buffer[offset + 2] &&
+		buffer[offset + 9] === buffer[offset + 1] &&
+		buffer[offset + 10] === buffer[offset + 2] &&
+		buffer[offset + 11] === buffer[offset + 5]
+	);
+}
+
+/**
+ * Whether all six vertices of the quad at colorOffset share one color
+ */
+function hasOneColor(colors: Float32Array, colorOffset: number): boolean {
+	for (let i = 4; i < 24; i++) {
+		if (colors[colorOffset + i] !== colors[colorOffset + (i & 3)]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * GPU buffers and attribute locations for instanced drawing
+ */
+type InstanceResources = {
+	unitQuad: WebGLBuffer;
+	instances: WebGLBuffer;
+	position: number;
+	texcoord: number;
+	color: number;
+	corner: number;
+	rect: number;
+	uvRect: number;
+};
 
 /**
  * Low-level WebGL renderer - handles buffers, shaders, and GPU operations
@@ -22,18 +126,66 @@ export class Renderer {
 	program: WebGLProgram;
 	glPositionBuffer: WebGLBuffer;
 	glTextureCoordinateBuffer: WebGLBuffer;
+	glColorBuffer: WebGLBuffer;
 	vertexBuffer: Float32Array;
 	bufferPointer: number;
 	textureCoordinateBuffer: Float32Array;
+	colorBuffer: Float32Array;
+	quadLayers: Float32Array;
+	quadStates: Uint32Array;
 	spriteSheet: WebGLTexture;
 	spriteSheetWidth: number;
 	spriteSheetHeight: number;
+
+	// Named atlases, and the one subsequent draws sample from (null for the main sprite sheet)
+	atlases: Map<string, SpriteAtlas> = new Map();
+	protected currentAtlas: SpriteAtlas | null = null;
+	private currentAtlasName: string | undefined = undefined;
+
+	// 1x1 white texture for solid-color shapes, created on first use
+	private whiteTexture: WebGLTexture | null = null;
 	bufferSize: number;
 	bufferCounter: number;
 	timeLocation: WebGLUniformLocation | null;
 	alphaLocation: WebGLUniformLocation | null;
+	viewLocation: WebGLUniformLocation | null;
 	isPerformanceMeasurementMode: boolean;
 
+	// Transform applied to the geometry of every subsequent draw (see Engine.pushTransform)
+	transform: Transform = [1, 0, 0, 1, 0, 0];
+
+	// Camera view matrix (column-major mat3), applied to quads drawn with the camera enabled
+	viewMatrix: Float32Array = new Float32Array(IDENTITY_MATRIX);
+
+	// Batch states used by the quads in the buffer, and the state new quads get
+	protected batchStates: BatchState[] = [this.createDefaultBatchState()];
+	protected batchStateIndex = 0;
+
+	// Height of the current render target, for converting clip rects to GL scissor coordinates
+	protected targetHeight: number;
+
+	// Stencil state applied while drawing batches
+	alphaThresholdLocation: WebGLUniformLocation | null;
+	private appliedMask: MaskState | null = null;
+	private clearedMaskId = 0;
+
+	// Blend mode applied while drawing batches, and the last state created for a per-draw blend mode
+	private appliedBlendMode: BlendMode = 'normal';
+	private blendModeVariant: { base: BatchState; state: BatchState; index: number } | null = null;
+
+	// Draw layers: quads are sorted by layer (and optionally by bottom Y) before each flush
+	layer: number = 0;
+	sortByY: boolean = false;
+
+	// Draw axis-aligned quads as instances of a unit quad (see EngineOptions.instancing)
+	instancing: boolean = false;
+
+	// Reallocate the GPU buffers before each upload instead of overwriting them (see EngineOptions.orphanBuffers)
+	orphanBuffers: boolean = false;
+
+	// Allocated size in bytes of each GPU buffer that batched data is streamed into
+	private uploadCapacities: Map<WebGLBuffer, number> = new Map();
+
 	// Post-processing
 	postProcessManager: PostProcessManager;
 
@@ -45,13 +197,29 @@ export class Renderer {
 	renderTexture: WebGLTexture;
 	renderTextureWidth: number;
 	renderTextureHeight: number;
+	renderStencilBuffer: WebGLRenderbuffer | null = null;
 
 	// Cached sprite attribute locations
-	private spriteAttribLocations: { position: number; texcoord: number } | null = null;
+	private spriteAttribLocations: { position: number; texcoord: number; color: number } | null = null;
+
+	// Scratch space for layer sorting, allocated on first use
+	private sortOrder: Uint32Array | null = null;
+	private sortKeys: Float32Array | null = null;
+	private sortScratch: Float32Array | null = null;
+	private sortStateScratch: Uint32Array | null = null;
+
+	// Instanced drawing: GPU resources created on first use, the packed instances, and per quad whether
+	// it is an instance and its index among the instances or the per-vertex quads
+	private instanceResources: InstanceResources | null = null;
+	private instanceFloats: Float32Array | null = null;
+	private instanceShorts: Uint16Array | null = null;
+	private quadInstanced: Uint8Array | null = null;
+	private quadSlots: Uint32Array | null = null;
+	private instanceAttributesBound = false;
 
 	constructor(canvas: HTMLCanvasElement) {
 		// alpha: false = opaque canvas (slight performance gain)
-		const gl = canvas.getContext('webgl2', { antialias: false, alpha: false });
+		const gl = canvas.getContext('webgl2', { antialias: false, alpha: false, stencil: true });
 		if (!gl) {
 			throw new Error('WebGL2 is required but unavailable');
 		}
@@ -79,12 +247,16 @@ export class Renderer {
 		// Get shader variable locations (returns -1 if not found)
 		const a_position = this.gl.getAttribLocation(this.program, 'a_position'); // vertex position attribute
 		const a_texcoord = this.gl.getAttribLocation(this.program, 'a_texcoord'); // texture coordinate attribute
+		const a_color = this.gl.getAttribLocation(this.program, 'a_color'); // per-vertex tint attribute
 		this.timeLocation = this.gl.getUniformLocation(this.program, 'u_time'); // time uniform for animations
 		this.alphaLocation = this.gl.getUniformLocation(this.program, 'u_alpha');
+		this.viewLocation = this.gl.getUniformLocation(this.program, 'u_view');
+		this.alphaThresholdLocation = this.gl.getUniformLocation(this.program, 'u_alphaThreshold');
 
 		// Create GPU buffers (returns WebGLBuffer objects, data uploaded later)
 		this.glTextureCoordinateBuffer = this.gl.createBuffer(); // UV coordinates buffer
 		this.glPositionBuffer = this.gl.createBuffer(); // vertex positions buffer
+		this.glColorBuffer = this.gl.createBuffer(); // vertex colors buffer
 
 		// Validate buffer creation up-front to avoid null issues later
 		if (!this.glTextureCoordinateBuffer) {
@@ -93,6 +265,9 @@ export class Renderer {
 		if (!this.glPositionBuffer) {
 			throw new Error('Failed to create sprite position buffer.');
 		}
+		if (!this.glColorBuffer) {
+			throw new Error('Failed to create sprite color buffer.');
+		}
 
 		// Initialize post-processing system (after buffer validation)
 		this.postProcessManager = new PostProcessManager(this.gl, 256);
@@ -105,6 +280,7 @@ export class Renderer {
 		this.gl.clear(this.gl.COLOR_BUFFER_BIT); // fills with clearColor
 		this.gl.useProgram(this.program); // bind shader program for rendering
 		this.setUniform('u_resolution', canvas.width, canvas.height); // pass screen size to vertex shader
+		this.targetHeight = canvas.height;
 
 		// Set texture uniform to use texture unit 0 (this is critical for texture sampling)
 		const textureLocation = this.gl.getUniformLocation(this.program, 'u_texture');
@@ -114,6 +290,9 @@ export class Renderer {
 		if (this.alphaLocation) {
 			this.gl.uniform1f(this.alphaLocation, 1.0);
 		}
+		if (this.viewLocation) {
+			this.gl.uniformMatrix3fv(this.viewLocation, false, IDENTITY_MATRIX);
+		}
 
 		// Configure vertex attributes (tells GPU how to read buffer data)
 		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glPositionBuffer); // make this the active buffer
@@ -122,6 +301,9 @@ export class Renderer {
 		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glTextureCoordinateBuffer); // switch to texture coords buffer
 		this.gl.vertexAttribPointer(a_texcoord, 2, this.gl.FLOAT, false, 0, 0); // 2 floats per texture coordinate
 
+		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glColorBuffer); // switch to color buffer
+		this.gl.vertexAttribPointer(a_color, 4, this.gl.FLOAT, false, 0, 0); // 4 floats per RGBA color
+
 		// Enable alpha blending for premultiplied-alpha textures (matches createTexture)
 		this.gl.blendFunc(this.gl.ONE, this.gl.ONE_MINUS_SRC_ALPHA);
 		this.gl.enable(this.gl.BLEND); // turn on blending (disabled by default)
@@ -129,6 +311,7 @@ export class Renderer {
 		// Enable vertex attributes (make them available to vertex shader)
 		this.gl.enableVertexAttribArray(a_texcoord); // enable a_texcoord attribute
 		this.gl.enableVertexAttribArray(a_position); // enable a_position attribute
+		this.gl.enableVertexAttribArray(a_color); // enable a_color attribute
 
 		// Initialize buffers for batching (20,000 sprites max)
 		this.growBuffer(20000);
@@ -151,6 +334,15 @@ export class Renderer {
 		this.bufferCounter = 0;
 		this.vertexBuffer = new Float32Array(this.bufferSize);
 		this.textureCoordinateBuffer = new Float32Array(this.bufferSize);
+		this.colorBuffer = new Float32Array(this.bufferSize * 2); // 4 color floats per 2 position floats
+		this.quadLayers = new Float32Array(newSize); // 1 layer per sprite
+		this.quadStates = new Uint32Array(newSize); // 1 batch state index per sprite
+
+		// Drop sort scratch space so it gets reallocated at the new size
+		this.sortOrder = null;
+		this.sortKeys = null;
+		this.sortScratch = null;
+		this.sortStateScratch = null;
 	}
 
 	/**
@@ -161,6 +353,7 @@ export class Renderer {
 	resize(width: number, height: number): void {
 		this.gl.viewport(0, 0, width, height); // update rendering area
 		this.setUniform('u_resolution', width, height); // update vertex shader coordinate conversion
+		this.targetHeight = height;
 
 		// Recreate render texture with new size
 		this.createRenderTexture(width, height);
@@ -170,10 +363,63 @@ export class Renderer {
 	 * Load sprite sheet texture and store dimensions for UV coordinate calculation
 	 * @param image - Image containing all sprites
 	 */
-	loadSpriteSheet(image: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas): void {
-		this.spriteSheet = createTexture(this.gl, image);
-		this.spriteSheetWidth = image.width;
-		this.spriteSheetHeight = image.height;
+	loadSpriteSheet(image: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas): void;
+	/**
+	 * Load a named atlas texture, replacing any atlas with the same name
+	 * @param name - Atlas name referenced by sprite lookup entries
+	 * @param image - Image containing the atlas sprites
+	 */
+	loadSpriteSheet(name: string, image: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas): void;
+	loadSpriteSheet(
+		nameOrImage: string | HTMLImageElement | HTMLCanvasElement | OffscreenCanvas,
+		atlasImage?: HTMLImageElement | HTMLCanvasElement | OffscreenCanvas
+	): void {
+		if (typeof nameOrImage !== 'string') {
+			this.spriteSheet = createTexture(this.gl, nameOrImage);
+			this.spriteSheetWidth = nameOrImage.width;
+			this.spriteSheetHeight = nameOrImage.height;
+			return;
+		}
+
+		if (!atlasImage) {
+			throw new Error(`No image given for atlas: ${nameOrImage}`);
+		}
+		const atlas = { texture: createTexture(this.gl, atlasImage), width: atlasImage.width, height: atlasImage.height };
+		this.atlases.set(nameOrImage, atlas);
+		if (this.currentAtlasName === nameOrImage) {
+			this.currentAtlas = atlas;
+		}
+	}
+
+	/**
+	 * Select the atlas subsequent draws sample from. Draws with different atlases are
+	 * drawn in separate draw calls.
+	 * @param name - Atlas name, or undefined for the main sprite sheet
+	 */
+	setAtlas(name?: string): void {
+		if (name === this.currentAtlasName) {
+			return;
+		}
+		if (name === undefined) {
+			this.currentAtlas = null;
+		} else {
+			const atlas = this.atlases.get(name);
+			if (!atlas) {
+				throw new Error(`Unknown atlas: ${name}`);
+			}
+			this.currentAtlas = atlas;
+		}
+		this.currentAtlasName = name;
+	}
+
+	/**
+	 * Switch the batch state to the current atlas texture (after cached quads or an atlas change)
+	 */
+	protected useAtlasTexture(): void {
+		const texture = this.currentAtlas ? this.currentAtlas.texture : null;
+		if (this.batchStates[this.batchStateIndex].texture !== texture) {
+			this.useBatchState({ texture });
+		}
 	}
 
 	setAlpha(alpha: number): void {
@@ -194,6 +440,7 @@ export class Renderer {
 	 * @param spriteY - Y pixel in sprite sheet
 	 * @param spriteWidth - Width in sprite sheet
 	 * @param spriteHeight - Height in sprite sheet
+	 * @param options - Optional rotation, scale, pivot, flipping, quarter turns, tint and layer
 	 */
 	drawSpriteFromCoordinates(
 		x: number,
@@ -203,16 +450,66 @@ export class Renderer {
 		spriteX: number,
 		spriteY: number,
 		spriteWidth: number = width,
-		spriteHeight: number = height
+		spriteHeight: number = height,
+		options?: SpriteDrawOptions
 	): void {
 		// Auto-flush buffer if full (prevents overflow)
 		if (this.bufferCounter + 12 > this.bufferSize) {
 			this.renderVertexBuffer();
-			this.bufferCounter = 0;
-			this.bufferPointer = 0;
+			this.resetBuffers();
 		}
 
-		fillBufferWithRectangleVertices(this.vertexBuffer, this.bufferPointer, x, y, width, height);
+		const [ta, tb, tc, td, te, tf] = this.transform;
+		if (options && (options.rotation || options.scaleX !== undefined || options.scaleY !== undefined)) {
+			// Rotate and scale around the pivot: p' = M * (p - pivot) + pivot
+			const rotation = options.rotation ?? 0;
+			const scaleX = options.scaleX ?? 1;
+			const scaleY = options.scaleY ?? 1;
+			const pivotX = x + (options.pivotX ?? width / 2);
+			const pivotY = y + (options.pivotY ?? height / 2);
+			const cos = Math.cos(rotation);
+			const sin = Math.sin(rotation);
+			const a = cos * scaleX;
+			const b = sin * scaleX;
+			const c = -sin * scaleY;
+			const d = cos * scaleY;
+			const e = pivotX - a * pivotX - c * pivotY;
+			const f = pivotY - b * pivotX - d * pivotY;
+
+			// Then apply the current transform: p'' = T * p'
+			fillBufferWithTransformedRectangleVertices(
+				this.vertexBuffer,
+				this.bufferPointer,
+				x,
+				y,
+				width,
+				height,
+				ta * a + tc * b,
+				tb * a + td * b,
+				ta * c + tc * d,
+				tb * c + td * d,
+				ta * e + tc * f + te,
+				tb * e + td * f + tf
+			);
+		} else if (ta === 1 && tb === 0 && tc === 0 && td === 1) {
+			// Translation only: keep the plain rectangle path
+			fillBufferWithRectangleVertices(this.vertexBuffer, this.bufferPointer, x + te, y + tf, width, height);
+		} else {
+			fillBufferWithTransformedRectangleVertices(
+				this.vertexBuffer,
+				this.bufferPointer,
+				x,
+				y,
+				width,
+				height,
+				ta,
+				tb,
+				tc,
+				td,
+				te,
+				tf
+			);
+		}
 		fillBufferWithSpriteCoordinates(
 			this.textureCoordinateBuffer,
 			this.bufferPointer,
@@ -220,9 +517,14 @@ export class Renderer {
 			spriteY,
 			spriteWidth,
 			spriteHeight,
-			this.spriteSheetWidth,
-			this.spriteSheetHeight
+			this.currentAtlas ? this.currentAtlas.width : this.spriteSheetWidth,
+			this.currentAtlas ? this.currentAtlas.height : this.spriteSheetHeight,
+			options?.flipX,
+			options?.flipY,
+			options?.quarterTurns
 		);
+		this.useAtlasTexture();
+		this.fillQuadAttributes(options);
 
 		// Advance buffer pointer (12 floats = 6 vertices = 2 triangles)
 		this.bufferCounter += 12;
@@ -240,6 +542,7 @@ export class Renderer {
 	 * @param spriteWidth - Width in sprite sheet
 	 * @param spriteHeight - Height in sprite sheet
 	 * @param thickness - Line thickness in pixels
+	 * @param options - Optional tint and layer
 	 */
 	drawLineFromCoordinates(
 		x1: number,
@@ -250,51 +553,510 @@ export class Renderer {
 		spriteY: number,
 		spriteWidth: number,
 		spriteHeight: number,
-		thickness: number
+		thickness: number,
+		options?: DrawOptions
 	): void {
 		// Auto-flush buffer if full
 		if (this.bufferCounter + 12 > this.bufferSize) {
 			this.renderVertexBuffer();
-			this.bufferCounter = 0;
-			this.bufferPointer = 0;
+			this.resetBuffers();
 		}
 
-		// Generate line geometry using trigonometry (see buffer.ts for math)
-		fillBufferWithLineVertices(this.vertexBuffer, this.bufferPointer, x1, y1, x2, y2, thickness);
+		const [ta, tb, tc, td, te, tf] = this.transform;
+		if (ta === 1 && tb === 0 && tc === 0 && td === 1) {
+			// Generate line geometry using trigonometry (see buffer.ts for math)
+			fillBufferWithLineVertices(this.vertexBuffer, this.bufferPointer, x1 + te, y1 + tf, x2 + te, y2 + tf, thickness);
+		} else {
+			// Build the line in local space, then transform its corners (thickness scales too)
+			fillBufferWithLineVertices(this.vertexBuffer, this.bufferPointer, x1, y1, x2, y2, thickness);
+			for (let i = this.bufferPointer; i < this.bufferPointer + 12; i += 2) {
+				const vx = this.vertexBuffer[i];
+				const vy = this.vertexBuffer[i + 1];
+				this.vertexBuffer[i] = ta * vx + tc * vy + te;
+				this.vertexBuffer[i + 1] = tb * vx + td * vy + tf;
+			}
+		}
 
-		// Use sprite texture to fill the line shape
-		fillBufferWithSpriteCoordinates(
+		// Run the sprite along the line, so partial sprites line up when a line is drawn in pieces
+		fillBufferWithLineSpriteCoordinates(
 			this.textureCoordinateBuffer,
 			this.bufferPointer,
 			spriteX,
 			spriteY,
 			spriteWidth,
 			spriteHeight,
-			this.spriteSheetWidth,
-			this.spriteSheetHeight
+			this.currentAtlas ? this.currentAtlas.width : this.spriteSheetWidth,
+			this.currentAtlas ? this.currentAtlas.height : this.spriteSheetHeight
 		);
+		this.useAtlasTexture();
+		this.fillQuadAttributes(options);
 
 		this.bufferCounter += 12;
 		this.bufferPointer = this.bufferCounter;
 	}
 
 	/**
-	 * Upload batched vertex data to GPU and render all sprites in one draw call
+	 * Draw solid-colored triangles. Two triangles fill each quad slot in the batch, so shapes
+	 * share draw calls with sprites and follow the transform, layers, clipping and masks.
+	 * @param vertices - x, y pairs, three per triangle
+	 * @param triangleCount - Number of triangles to read from vertices
+	 * @param options - Optional color (tint, defaults to white), alpha, layer and blend mode
 	 */
-	renderVertexBuffer(): void {
-		// Bind sprite sheet texture for sprite rendering
-		if (this.spriteSheet) {
-			this.gl.activeTexture(this.gl.TEXTURE0);
-			this.gl.bindTexture(this.gl.TEXTURE_2D, this.spriteSheet);
+	drawSolidTriangles(vertices: ArrayLike<number>, triangleCount: number, options?: DrawOptions): void {
+		const texture = this.getWhiteTexture();
+		for (let triangle = 0; triangle < triangleCount; triangle += 2) {
+			// Auto-flush buffer if full
+			if (this.bufferCounter + 12 > this.bufferSize) {
+				this.renderVertexBuffer();
+				this.resetBuffers();
+			}
+
+			const [ta, tb, tc, td, te, tf] = this.transform;
+			const hasSecond = triangle + 1 < triangleCount;
+			for (let i = 0; i < 6; i++) {
+				// A lone last triangle is paired with a zero-area one at its first vertex
+				const source = i < 3 ? (triangle * 3 + i) * 2 : hasSecond ? (triangle * 3 + i) * 2 : triangle * 6;
+				const x = vertices[source];
+				const y = vertices[source + 1];
+				this.vertexBuffer[this.bufferPointer + i * 2] = ta * x + tc * y + te;
+				this.vertexBuffer[this.bufferPointer + i * 2 + 1] = tb * x + td * y + tf;
+			}
+
+			// Every vertex samples the middle of the white texel
+			this.textureCoordinateBuffer.fill(0.5, this.bufferPointer, this.bufferPointer + 12);
+			if (this.batchStates[this.batchStateIndex].texture !== texture) {
+				this.useBatchState({ texture });
+			}
+			this.fillQuadAttributes(options);
+
+			this.bufferCounter += 12;
+			this.bufferPointer = this.bufferCounter;
+		}
+	}
+
+	/**
+	 * Draw many sprites from packed records in one loop, from the current atlas. Each record is
+	 * x, y and an index into regions; sprites are drawn at their own size like drawSprite().
+	 * Indices are not checked, so they must be valid.
+	 * @param records - Records of stride numbers each
+	 * @param count - Number of records to draw
+	 * @param regions - spriteX, spriteY, spriteWidth, spriteHeight, offsetX and offsetY per sprite
+	 * @param options - Optional stride, extra value, tint, alpha, layer and blend mode
+	 */
+	drawSpriteRecords(
+		records: Float32Array | Int32Array,
+		count: number,
+		regions: Float32Array,
+		options?: BulkSpriteOptions
+	): void {
+		const extra = options?.extra;
+		const stride = options?.stride ?? (extra ? 4 : 3);
+		const inverseWidth = 1 / (this.currentAtlas ? this.currentAtlas.width : this.spriteSheetWidth);
+		const inverseHeight = 1 / (this.currentAtlas ? this.currentAtlas.height : this.spriteSheetHeight);
+		const [ta, tb, tc, td, te, tf] = this.transform;
+		const translateOnly = ta === 1 && tb === 0 && tc === 0 && td === 1;
+		const tint = options?.tint ?? 0xffffff;
+		const red = ((tint >> 16) & 0xff) / 255;
+		const green = ((tint >> 8) & 0xff) / 255;
+		const blue = (tint & 0xff) / 255;
+		const alpha = options?.alpha ?? 1;
+
+		let record = 0;
+		while (record < count) {
+			// Auto-flush buffer if full
+			if (this.bufferCounter + 12 > this.bufferSize) {
+				this.renderVertexBuffer();
+				this.resetBuffers();
+			}
+
+			// Fill as many records as fit without checking the buffer size again
+			const end = Math.min(count, record + (this.bufferSize - this.bufferCounter) / 12);
+			const firstQuad = this.bufferCounter / 12;
+			const lastQuad = firstQuad + end - record;
+			this.useAtlasTexture();
+			this.fillQuadState(options);
+			this.quadLayers.fill(this.quadLayers[firstQuad], firstQuad + 1, lastQuad);
+			this.quadStates.fill(this.quadStates[firstQuad], firstQuad + 1, lastQuad);
+
+			const vertices = this.vertexBuffer;
+			const uvs = this.textureCoordinateBuffer;
+			const colors = this.colorBuffer;
+			for (let p = this.bufferCounter; record < end; record++, p += 12) {
+				const r = record * stride;
+				const s = records[r + 2] * 6;
+				const x1 = records[r] + regions[s + 4];
+				const y1 = records[r + 1] + regions[s + 5];
+				const x2 = x1 + regions[s + 2];
+				const y2 = y1 + regions[s + 3];
+
+				// Top left, top right, bottom left, bottom left, top right, bottom right
+				if (translateOnly) {
+					vertices[p] = vertices[p + 4] = vertices[p + 6] = x1 + te;
+					vertices[p + 2] = vertices[p + 8] = vertices[p + 10] = x2 + te;
+					vertices[p + 1] = vertices[p + 3] = vertices[p + 9] = y1 + tf;
+					vertices[p + 5] = vertices[p + 7] = vertices[p + 11] = y2 + tf;
+				} else {
+					vertices[p] = ta * x1 + tc * y1 + te;
+					vertices[p + 1] = tb * x1 + td * y1 + tf;
+					vertices[p + 2] = vertices[p + 8] = ta * x2 + tc * y1 + te;
+					vertices[p + 3] = vertices[p + 9] = tb * x2 + td * y1 + tf;
+					vertices[p + 4] = vertices[p + 6] = ta * x1 + tc * y2 + te;
+					vertices[p + 5] = vertices[p + 7] = tb * x1 + td * y2 + tf;
+					vertices[p + 10] = ta * x2 + tc * y2 + te;
+					vertices[p + 11] = tb * x2 + td * y2 + tf;
+				}
+
+				const u1 = regions[s] * inverseWidth;
+				const v1 = regions[s + 1] * inverseHeight;
+				const u2 = (regions[s] + regions[s + 2]) * inverseWidth;
+				const v2 = (regions[s + 1] + regions[s + 3]) * inverseHeight;
+				uvs[p] = uvs[p + 4] = uvs[p + 6] = u1;
+				uvs[p + 2] = uvs[p + 8] = uvs[p + 10] = u2;
+				uvs[p + 1] = uvs[p + 3] = uvs[p + 9] = v1;
+				uvs[p + 5] = uvs[p + 7] = uvs[p + 11] = v2;
+
+				if (extra === 'tint') {
+					const recordTint = records[r + 3];
+					fillBufferWithColor(
+						colors,
+						p * 2,
+						((recordTint >> 16) & 0xff) / 255,
+						((recordTint >> 8) & 0xff) / 255,
+						(recordTint & 0xff) / 255,
+						alpha
+					);
+				} else {
+					fillBufferWithColor(colors, p * 2, red, green, blue, extra === 'alpha' ? records[r + 3] : alpha);
+				}
+			}
+
+			this.bufferCounter += (lastQuad - firstQuad) * 12;
+			this.bufferPointer = this.bufferCounter;
+		}
+	}
+
+	/**
+	 * Draw particles straight into the vertex buffer, one quad per particle centered on its
+	 * position, from the current atlas. Particles follow the transform like sprites.
+	 * @param particles - Particle positions, rotations, scales, colors and frames
+	 * @param sprites - spriteX, spriteY, spriteWidth and spriteHeight per frame index
+	 * @param options - Optional tint and alpha multiplied with the particle colors, layer and blend mode
+	 */
+	drawParticles(particles: ParticleData, sprites: Float32Array, options?: DrawOptions): void {
+		const { positionX, positionY, rotation, scale, color, frame } = particles;
+		const sheetWidth = this.currentAtlas ? this.currentAtlas.width : this.spriteSheetWidth;
+		const sheetHeight = this.currentAtlas ? this.currentAtlas.height : this.spriteSheetHeight;
+		const tint = options?.tint ?? 0xffffff;
+		const red = ((tint >> 16) & 0xff) / 255;
+		const green = ((tint >> 8) & 0xff) / 255;
+		const blue = (tint & 0xff) / 255;
+		const alpha = options?.alpha ?? 1;
+
+		for (let i = 0; i < particles.count; i++) {
+			// Auto-flush buffer if full
+			if (this.bufferCounter + 12 > this.bufferSize) {
+				this.renderVertexBuffer();
+				this.resetBuffers();
+			}
+
+			const sprite = frame[i] * 4;
+			const halfWidth = sprites[sprite + 2] * scale[i] * 0.5;
+			const halfHeight = sprites[sprite + 3] * scale[i] * 0.5;
+			const cos = rotation[i] === 0 ? 1 : Math.cos(rotation[i]);
+			const sin = rotation[i] === 0 ? 0 : Math.sin(rotation[i]);
+			const [ta, tb, tc, td, te, tf] = this.transform;
+			// Corner axes of the rotated, scaled quad, then through the current transform
+			const axisXx = ta * cos * halfWidth + tc * sin * halfWidth;
+			const axisXy = tb * cos * halfWidth + td * sin * halfWidth;
+			const axisYx = ta * -sin * halfHeight + tc * cos * halfHeight;
+			const axisYy = tb * -sin * halfHeight + td * cos * halfHeight;
+			const centerX = ta * positionX[i] + tc * positionY[i] + te;
+			const centerY = tb * positionX[i] + td * positionY[i] + tf;
+
+			const p = this.bufferPointer;
+			const vertices = this.vertexBuffer;
+			// Top left, top right, bottom left, bottom left, top right, bottom right
+			vertices[p] = centerX - axisXx - axisYx;
+			vertices[p + 1] = centerY - axisXy - axisYy;
+			vertices[p + 2] = vertices[p + 8] = centerX + axisXx - axisYx;
+			vertices[p + 3] = vertices[p + 9] = centerY + axisXy - axisYy;
+			vertices[p + 4] = vertices[p + 6] = centerX - axisXx + axisYx;
+			vertices[p + 5] = vertices[p + 7] = centerY - axisXy + axisYy;
+			vertices[p + 10] = centerX + axisXx + axisYx;
+			vertices[p + 11] = centerY + axisXy + axisYy;
+
+			fillBufferWithSpriteCoordinates(
+				this.textureCoordinateBuffer,
+				p,
+				sprites[sprite],
+				sprites[sprite + 1],
+				sprites[sprite + 2],
+				sprites[sprite + 3],
+				sheetWidth,
+				sheetHeight
+			);
+			this.useAtlasTexture();
+			this.fillQuadState(options);
+			fillBufferWithColor(
+				this.colorBuffer,
+				p * 2,
+				color[i * 4] * red,
+				color[i * 4 + 1] * green,
+				color[i * 4 + 2] * blue,
+				color[i * 4 + 3] * alpha
+			);
+
+			this.bufferCounter += 12;
+			this.bufferPointer = this.bufferCounter;
+		}
+	}
+
+	/**
+	 * Get the 1x1 white texture solid shapes are drawn with
+	 */
+	protected getWhiteTexture(): WebGLTexture {
+		if (this.whiteTexture) {
+			return this.whiteTexture;
+		}
+		const texture = this.gl.createTexture();
+		if (!texture) {
+			throw new Error('Failed to create texture');
+		}
+		this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+		this.gl.texImage2D(
+			this.gl.TEXTURE_2D,
+			0,
+			this.gl.RGBA8,
+			1,
+			1,
+			0,
+			this.gl.RGBA,
+			this.gl.UNSIGNED_BYTE,
+			new Uint8Array([255, 255, 255, 255])
+		);
+		this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST);
+		this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.NEAREST);
+		this.whiteTexture = texture;
+		return texture;
+	}
+
+	/**
+	 * Enable or disable the camera view matrix for subsequent draws
+	 * @param enabled - Whether subsequent quads are transformed by the camera
+	 */
+	setCameraEnabled(enabled: boolean): void {
+		this.useBatchState({ camera: enabled });
+	}
+
+	/**
+	 * Whether subsequent draws go through the camera view matrix
+	 */
+	isCameraEnabled(): boolean {
+		return this.batchStates[this.batchStateIndex].camera;
+	}
+
+	/**
+	 * Clip subsequent draws to a rectangle
+	 * @param clip - Rectangle in render target pixels, or null to stop clipping
+	 */
+	setClipRect(clip: ClipRect | null): void {
+		this.useBatchState({ clip });
+	}
+
+	/**
+	 * Get the clip rectangle applied to subsequent draws
+	 */
+	getClipRect(): ClipRect | null {
+		return this.batchStates[this.batchStateIndex].clip;
+	}
+
+	/**
+	 * Set the stencil mask phase for subsequent draws
+	 * @param mask - Mask phase, or null to stop masking
+	 */
+	setMask(mask: MaskState | null): void {
+		this.useBatchState({ mask });
+	}
+
+	/**
+	 * Get the stencil mask phase applied to subsequent draws
+	 */
+	getMask(): MaskState | null {
+		return this.batchStates[this.batchStateIndex].mask;
+	}
+
+	/**
+	 * Set the blend mode for subsequent draws without their own blendMode option
+	 * @param blendMode - Blend mode to use
+	 */
+	setBlendMode(blendMode: BlendMode): void {
+		this.useBatchState({ blendMode });
+	}
+
+	/**
+	 * Set the camera view matrix used for camera-enabled quads
+	 * @param matrix - Column-major 3x3 matrix mapping world to screen pixels
+	 */
+	setViewMatrix(matrix: Float32Array): void {
+		this.viewMatrix.set(matrix);
+	}
+
+	/**
+	 * Switch the batch state for subsequent quads. A new state is only recorded when
+	 * something actually changes, so repeated calls don't split batches.
+	 */
+	protected useBatchState(changes: Partial<BatchState>): void {
+		const current = this.batchStates[this.batchStateIndex];
+		let changed = false;
+		for (const key in changes) {
+			if (current[key as keyof BatchState] !== changes[key as keyof BatchState]) {
+				changed = true;
+				break;
+			}
+		}
+		if (!changed) {
+			return;
+		}
+
+		this.batchStates.push({ ...current, ...changes });
+		this.batchStateIndex = this.batchStates.length - 1;
+	}
+
+	/**
+	 * Write the per-quad attributes at the current buffer pointer: tint color (white when
+	 * no tint is given), layer (the renderer's current layer when none is given) and batch state
+	 */
+	protected fillQuadAttributes(options?: DrawOptions): void {
+		const offset = this.bufferPointer * 2; // 4 color floats per 2 position floats
+		this.fillQuadState(options);
+
+		if (!options || (options.tint === undefined && options.alpha === undefined)) {
+			fillBufferWithColor(this.colorBuffer, offset, 1, 1, 1, 1);
+			return;
+		}
+
+		const tint = options.tint ?? 0xffffff;
+		fillBufferWithColor(
+			this.colorBuffer,
+			offset,
+			((tint >> 16) & 0xff) / 255,
+			((tint >> 8) & 0xff) / 255,
+			(tint & 0xff) / 255,
+			options.alpha ?? 1
+		);
+	}
+
+	/**
+	 * Write the layer and batch state of the quad at the current buffer pointer
+	 */
+	protected fillQuadState(options?: DrawOptions): void {
+		this.quadLayers[this.bufferPointer / 12] = options?.layer ?? this.layer;
+		this.quadStates[this.bufferPointer / 12] =
+			options?.blendMode !== undefined && options.blendMode !== this.batchStates[this.batchStateIndex].blendMode
+				? this.getBlendModeVariant(options.blendMode)
+				: this.batchStateIndex;
+	}
+
+	/**
+	 * Reorder the batched quads by layer (and by bottom Y when sortByY is on), keeping
+	 * submission order within equal keys. Returns the new order as indices into the
+	 * previous quad order, or null when every quad is on the same layer and no sorting
+	 * was needed.
+	 */
+	protected sortQuads(): Uint32Array | null {
+		const quadCount = this.bufferCounter / 12;
+		if (quadCount < 2) {
+			return null;
+		}
+
+		const layers = this.quadLayers;
+		if (!this.sortByY) {
+			let needsSort = false;
+			for (let i = 1; i < quadCount; i++) {
+				if (layers[i] !== layers[0]) {
+					needsSort = true;
+					break;
+				}
+			}
+			if (!needsSort) {
+				return null;
+			}
+		}
+
+		if (!this.sortOrder || !this.sortKeys || !this.sortScratch || !this.sortStateScratch) {
+			this.sortOrder = new Uint32Array(layers.length);
+			this.sortKeys = new Float32Array(layers.length);
+			this.sortScratch = new Float32Array(this.colorBuffer.length);
+			this.sortStateScratch = new Uint32Array(layers.length);
+		}
+
+		const keys = this.sortKeys;
+		const order = this.sortOrder.subarray(0, quadCount);
+		for (let i = 0; i < quadCount; i++) {
+			order[i] = i;
+			if (this.sortByY) {
+				// Sort by the lowest point on screen (e.g. a character's feet)
+				const offset = i * 12;
+				let bottom = this.vertexBuffer[offset + 1];
+				for (let j = 3; j < 12; j += 2) {
+					bottom = Math.max(bottom, this.vertexBuffer[offset + j]);
+				}
+				keys[i] = bottom;
+			}
+		}
+
+		if (this.sortByY) {
+			order.sort((a, b) => layers[a] - layers[b] || keys[a] - keys[b] || a - b);
+		} else {
+			order.sort((a, b) => layers[a] - layers[b] || a - b);
+		}
+
+		this.permuteQuads(this.vertexBuffer, order, 12);
+		this.permuteQuads(this.textureCoordinateBuffer, order, 12);
+		this.permuteQuads(this.colorBuffer, order, 24);
+
+		// Batch state indices travel with their quads
+		for (let i = 0; i < quadCount; i++) {
+			this.sortStateScratch[i] = this.quadStates[order[i]];
 		}
+		this.quadStates.set(this.sortStateScratch.subarray(0, quadCount));
 
-		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glTextureCoordinateBuffer); // make texture buffer active
-		this.gl.bufferData(this.gl.ARRAY_BUFFER, this.textureCoordinateBuffer, this.gl.STATIC_DRAW); // copy Float32Array to GPU
+		return order;
+	}
 
-		this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glPositionBuffer); // switch to position buffer
-		this.gl.bufferData(this.gl.ARRAY_BUFFER, this.vertexBuffer, this.gl.STATIC_DRAW); // copy positions to GPU
+	/**
+	 * Rearrange per-quad data in place so that quad i takes the data of quad order[i]
+	 */
+	private permuteQuads(buffer: Float32Array, order: Uint32Array, floatsPerQuad: number): void {
+		const scratch = this.sortScratch!;
+		for (let i = 0; i < order.length; i++) {
+			const from = order[i] * floatsPerQuad;
+			const to = i * floatsPerQuad;
+			for (let j = 0; j < floatsPerQuad; j++) {
+				scratch[to + j] = buffer[from + j];
+			}
+		}
+		buffer.set(scratch.subarray(0, order.length * floatsPerQuad));
+	}
+
+	/**
+	 * Upload batched vertex data to GPU and render all sprites in one draw call
+	 */
+	renderVertexBuffer(): void {
+		// Apply draw layers before uploading
+		this.sortQuads();
+
+		if (this.instancing) {
+			this.uploadInstancedQuads();
+		} else {
+			// Only the filled part of the buffers is copied to the GPU
+			const floats = Math.min(this.bufferCounter, this.bufferSize);
+			this.uploadBuffer(this.glTextureCoordinateBuffer, this.textureCoordinateBuffer, floats);
+			this.uploadBuffer(this.glPositionBuffer, this.vertexBuffer, floats);
+			this.uploadBuffer(this.glColorBuffer, this.colorBuffer, floats * 2); // 4 color floats per 2 position floats
+		}
 
-		this.gl.drawArrays(this.gl.TRIANGLES, 0, Math.min(this.bufferCounter / 2, this.bufferSize / 2)); // render triangles from vertex 0
+		this.drawBatches();
 
 		// Force GPU sync for accurate performance measurement
 		if (this.isPerformanceMeasurementMode) {
@@ -302,6 +1064,384 @@ export class Renderer {
 		}
 	}
 
+	/**
+	 * Split the batched quads into instances and per-vertex quads, and upload both. Instances are quads
+	 * that are axis-aligned rectangles with an axis-aligned texture rectangle and one color; the rest
+	 * (rotated sprites, lines, shapes) are moved to the front of the vertex buffers in order, so the
+	 * buffers must be reset after the flush.
+	 */
+	private uploadInstancedQuads(): void {
+		const resources = this.getInstanceResources();
+		const quadCount = Math.min(this.bufferCounter, this.bufferSize) / 12;
+
+		// Sized to the current buffers, which are swapped out while capturing caches
+		if (!this.quadSlots || this.quadSlots.length < quadCount) {
+			const data = new ArrayBuffer(this.quadLayers.length * INSTANCE_BYTES);
+			this.instanceFloats = new Float32Array(data);
+			this.instanceShorts = new Uint16Array(data);
+			this.quadInstanced = new Uint8Array(this.quadLayers.length);
+			this.quadSlots = new Uint32Array(this.quadLayers.length);
+		}
+
+		const positions = this.vertexBuffer;
+		const uvs = this.textureCoordinateBuffer;
+		const colors = this.colorBuffer;
+		const floats = this.instanceFloats!;
+		const shorts = this.instanceShorts!;
+		const instanced = this.quadInstanced!;
+		const slots = this.quadSlots;
+		let instanceCount = 0;
+		let vertexQuadCount = 0;
+
+		for (let i = 0; i < quadCount; i++) {
+			const offset = i * 12;
+			const colorOffset = offset * 2;
+			if (isRectangleQuad(positions, offset) && isRectangleQuad(uvs, offset) && hasOneColor(colors, colorOffset)) {
+				const f = instanceCount * INSTANCE_FLOATS;
+				floats[f] = positions[offset];
+				floats[f + 1] = positions[offset + 1];
+				floats[f + 2] = positions[offset + 10] - positions[offset];
+				floats[f + 3] = positions[offset + 11] - positions[offset + 1];
+				floats[f + 4] = uvs[offset];
+				floats[f + 5] = uvs[offset + 1];
+				floats[f + 6] = uvs[offset + 10] - uvs[offset];
+				floats[f + 7] = uvs[offset + 11] - uvs[offset + 1];
+				for (let c = 0; c < 4; c++) {
+					shorts[f * 2 + 16 + c] = Math.round(Math.min(1, Math.max(0, colors[colorOffset + c])) * 65535);
+				}
+				instanced[i] = 1;
+				slots[i] = instanceCount++;
+			} else {
+				// Only moves quads towards the front, so unread quads are never overwritten
+				const to = vertexQuadCount * 12;
+				if (to !== offset) {
+					positions.copyWithin(to, offset, offset + 12);
+					uvs.copyWithin(to, offset, offset + 12);
+					colors.copyWithin(to * 2, colorOffset, colorOffset + 24);
+				}
+				instanced[i] = 0;
+				slots[i] = vertexQuadCount++;
+			}
+		}
+
+		this.uploadBuffer(resources.instances, floats, instanceCount * INSTANCE_FLOATS);
+
+		if (vertexQuadCount > 0) {
+			this.uploadBuffer(this.glTextureCoordinateBuffer, uvs, vertexQuadCount * 12);
+			this.uploadBuffer(this.glPositionBuffer, positions, vertexQuadCount * 12);
+			this.uploadBuffer(this.glColorBuffer, colors, vertexQuadCount * 24);
+		}
+	}
+
+	/**
+	 * Copy the first length floats of data to the start of a GPU buffer with bufferSubData. The GPU buffer
+	 * is allocated at the full size of data the first time (or when data outgrows it) and then overwritten
+	 * in place. With orphanBuffers it is reallocated before every upload instead, so the driver can hand
+	 * out fresh memory rather than wait for draws still reading the previous contents.
+	 * @param buffer - GPU buffer to upload to
+	 * @param data - CPU-side buffer
+	 * @param length - Number of floats to upload from the start of data
+	 */
+	protected uploadBuffer(buffer: WebGLBuffer, data: Float32Array, length: number): void {
+		const gl = this.gl;
+		gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+		if (this.orphanBuffers || (this.uploadCapacities.get(buffer) ?? 0) < data.byteLength) {
+			gl.bufferData(gl.ARRAY_BUFFER, data.byteLength, this.orphanBuffers ? gl.STREAM_DRAW : gl.DYNAMIC_DRAW);
+			this.uploadCapacities.set(buffer, data.byteLength);
+		}
+		if (length > 0) {
+			gl.bufferSubData(gl.ARRAY_BUFFER, 0, data, 0, length);
+		}
+	}
+
+	/**
+	 * Create the unit quad and instance buffers and look up the attribute locations on first use
+	 */
+	private getInstanceResources(): InstanceResources {
+		if (!this.instanceResources) {
+			const gl = this.gl;
+			const unitQuad = gl.createBuffer();
+			const instances = gl.createBuffer();
+			if (!unitQuad || !instances) {
+				throw new Error('Failed to create sprite instance buffers.');
+			}
+			gl.bindBuffer(gl.ARRAY_BUFFER, unitQuad);
+			gl.bufferData(gl.ARRAY_BUFFER, UNIT_QUAD, gl.STATIC_DRAW);
+
+			this.instanceResources = {
+				unitQuad,
+				instances,
+				position: gl.getAttribLocation(this.program, 'a_position'),
+				texcoord: gl.getAttribLocation(this.program, 'a_texcoord'),
+				color: gl.getAttribLocation(this.program, 'a_color'),
+				corner: gl.getAttribLocation(this.program, 'a_corner'),
+				rect: gl.getAttribLocation(this.program, 'a_rect'),
+				uvRect: gl.getAttribLocation(this.program, 'a_uvRect'),
+			};
+		}
+		return this.instanceResources;
+	}
+
+	/**
+	 * Point the sprite attributes at the instances starting at firstInstance
+	 */
+	private useInstanceAttributes(firstInstance: number): void {
+		const gl = this.gl;
+		const resources = this.instanceResources!;
+
+		if (!this.instanceAttributesBound) {
+			// The unit quad corner places each vertex within its instance's rectangles
+			for (const location of [resources.position, resources.texcoord]) {
+				gl.disableVertexAttribArray(location);
+				gl.vertexAttrib4f(location, 0, 0, 0, 0);
+			}
+			gl.bindBuffer(gl.ARRAY_BUFFER, resources.unitQuad);
+			gl.vertexAttribPointer(resources.corner, 2, gl.FLOAT, false, 0, 0);
+			gl.enableVertexAttribArray(resources.corner);
+			for (const location of [resources.rect, resources.uvRect, resources.color]) {
+				gl.enableVertexAttribArray(location);
+				gl.vertexAttribDivisor(location, 1);
+			}
+			this.instanceAttributesBound = true;
+		}
+
+		const offset = firstInstance * INSTANCE_BYTES;
+		gl.bindBuffer(gl.ARRAY_BUFFER, resources.instances);
+		gl.vertexAttribPointer(resources.rect, 4, gl.FLOAT, false, INSTANCE_BYTES, offset);
+		gl.vertexAttribPointer(resources.uvRect, 4, gl.FLOAT, false, INSTANCE_BYTES, offset + 16);
+		gl.vertexAttribPointer(resources.color, 4, gl.UNSIGNED_SHORT, true, INSTANCE_BYTES, offset + 32);
+	}
+
+	/**
+	 * Point the sprite attributes back at the per-vertex buffers, as the per-vertex quads and the
+	 * other programs expect
+	 */
+	private useVertexAttributes(): void {
+		const gl = this.gl;
+		const resources = this.instanceResources!;
+		for (const location of [resources.rect, resources.uvRect, resources.color]) {
+			gl.vertexAttribDivisor(location, 0);
+		}
+		for (const location of [resources.corner, resources.rect, resources.uvRect]) {
+			gl.disableVertexAttribArray(location);
+			gl.vertexAttrib4f(location, 0, 0, 0, 0);
+		}
+		this.instanceAttributesBound = false;
+		this.restoreSpriteState();
+	}
+
+	/**
+	 * Draw the uploaded quads, one draw call per run of quads sharing a batch state
+	 * (and, when instancing, sharing whether they are instances)
+	 */
+	protected drawBatches(): void {
+		const quadCount = Math.min(this.bufferCounter, this.bufferSize) / 12;
+		const states = this.batchStates;
+		const instanced = this.instancing ? this.quadInstanced : null;
+		let runStart = 0;
+
+		for (let i = 1; i < quadCount; i++) {
+			if (
+				!this.isSameBatchState(states[this.quadStates[i]], states[this.quadStates[runStart]]) ||
+				(instanced !== null && instanced[i] !== instanced[runStart])
+			) {
+				this.drawBatch(states[this.quadStates[runStart]], runStart, i);
+				runStart = i;
+			}
+		}
+
+		// The last run is always drawn, even when empty, so the sprite pass always issues a draw call
+		this.drawBatch(states[quadCount > 0 ? this.quadStates[runStart] : this.batchStateIndex], runStart, quadCount);
+
+		if (this.instanceAttributesBound) {
+			this.useVertexAttributes();
+		}
+
+		// Leave scissoring and masking off and blending normal for clears and post-processing
+		this.gl.disable(this.gl.SCISSOR_TEST);
+		if (this.appliedMask) {
+			this.applyMask(null);
+		}
+		if (this.appliedBlendMode !== 'normal') {
+			this.applyBlendMode('normal');
+		}
+	}
+
+	/**
+	 * Apply a batch state and draw the quads in [startQuad, endQuad)
+	 */
+	private drawBatch(state: BatchState, startQuad: number, endQuad: number): void {
+		const texture = state.texture ?? this.spriteSheet;
+		if (texture) {
+			this.gl.activeTexture(this.gl.TEXTURE0);
+			this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+		}
+
+		if (this.viewLocation) {
+			this.gl.uniformMatrix3fv(this.viewLocation, false, state.camera ? this.viewMatrix : IDENTITY_MATRIX);
+		}
+
+		if (state.mask !== this.appliedMask) {
+			this.applyMask(state.mask);
+		}
+
+		if (state.blendMode !== this.appliedBlendMode) {
+			this.applyBlendMode(state.blendMode);
+		}
+
+		if (state.clip) {
+			// GL scissor coordinates start at the bottom left of the target
+			const { x, y, width, height } = state.clip;
+			this.gl.enable(this.gl.SCISSOR_TEST);
+			this.gl.scissor(x, this.targetHeight - y - height, width, height);
+		} else {
+			this.gl.disable(this.gl.SCISSOR_TEST);
+		}
+
+		if (this.instancing) {
+			this.drawInstancedRun(startQuad, endQuad);
+		} else {
+			this.gl.drawArrays(this.gl.TRIANGLES, startQuad * 6, (endQuad - startQuad) * 6);
+		}
+	}
+
+	/**
+	 * Draw the quads in [startQuad, endQuad), which are either all instances or all per-vertex quads
+	 */
+	private drawInstancedRun(startQuad: number, endQuad: number): void {
+		const count = endQuad - startQuad;
+		if (count > 0 && this.quadInstanced![startQuad] === 1) {
+			this.useInstanceAttributes(this.quadSlots![startQuad]);
+			this.gl.drawArraysInstanced(this.gl.TRIANGLES, 0, 6, count);
+			return;
+		}
+
+		if (this.instanceAttributesBound) {
+			this.useVertexAttributes();
+		}
+		this.gl.drawArrays(this.gl.TRIANGLES, count > 0 ? this.quadSlots![startQuad] * 6 : 0, count * 6);
+	}
+
+	/**
+	 * Configure the stencil test for a mask phase
+	 * @param mask - Mask phase to apply, or null to disable masking
+	 */
+	private applyMask(mask: MaskState | null): void {
+		this.appliedMask = mask;
+		const gl = this.gl;
+
+		if (!mask) {
+			gl.disable(gl.STENCIL_TEST);
+			gl.colorMask(true, true, true, true);
+			if (this.alphaThresholdLocation) {
+				gl.uniform1f(this.alphaThresholdLocation, 0);
+			}
+			return;
+		}
+
+		// Bits of this mask and its parents; a pixel is inside the mask when all of them are set
+		const bit = 1 << (mask.depth - 1);
+		const bits = (bit << 1) - 1;
+		const parentBits = bit - 1;
+		gl.enable(gl.STENCIL_TEST);
+
+		if (mask.mode === 'write') {
+			if (mask.id > this.clearedMaskId) {
+				// Start from an empty bit for this mask (clears ignore the stencil test, but not the scissor)
+				this.clearedMaskId = mask.id;
+				gl.disable(gl.SCISSOR_TEST);
+				gl.stencilMask(bit);
+				gl.clear(gl.STENCIL_BUFFER_BIT);
+			}
+			// Set this mask's bit where the shape is drawn inside the parent masks, without drawing color
+			gl.stencilMask(bit);
+			gl.stencilFunc(gl.EQUAL, bits, parentBits);
+			gl.stencilOp(gl.KEEP, gl.KEEP, gl.REPLACE);
+			gl.colorMask(false, false, false, false);
+			if (this.alphaThresholdLocation) {
+				gl.uniform1f(this.alphaThresholdLocation, mask.alphaThreshold);
+			}
+			return;
+		}
+
+		gl.stencilMask(0);
+		gl.stencilFunc(gl.EQUAL, mask.mode === 'invert' ? parentBits : bits, bits);
+		gl.stencilOp(gl.KEEP, gl.KEEP, gl.KEEP);
+		gl.colorMask(true, true, true, true);
+		if (this.alphaThresholdLocation) {
+			gl.uniform1f(this.alphaThresholdLocation, 0);
+		}
+	}
+
+	/**
+	 * Set the blend function for a blend mode. Colors are premultiplied, so every mode
+	 * takes the source color as is.
+	 * @param blendMode - Blend mode to apply
+	 */
+	private applyBlendMode(blendMode: BlendMode): void {
+		this.appliedBlendMode = blendMode;
+		const gl = this.gl;
+
+		switch (blendMode) {
+			case 'additive':
+				gl.blendFunc(gl.ONE, gl.ONE);
+				break;
+			case 'multiply':
+				gl.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+				break;
+			case 'screen':
+				gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+				break;
+			case 'replace':
+				gl.blendFunc(gl.ONE, gl.ZERO);
+				break;
+			default:
+				gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+		}
+	}
+
+	/**
+	 * Get the index of a state like the current one but with another blend mode, for draws
+	 * with their own blendMode option. Consecutive draws reuse the same state.
+	 * @param blendMode - Blend mode of the draw
+	 */
+	private getBlendModeVariant(blendMode: BlendMode): number {
+		const current = this.batchStates[this.batchStateIndex];
+		const variant = this.blendModeVariant;
+		if (
+			variant &&
+			variant.base === current &&
+			variant.state.blendMode === blendMode &&
+			this.batchStates[variant.index] === variant.state
+		) {
+			return variant.index;
+		}
+
+		const state = { ...current, blendMode };
+		this.batchStates.push(state);
+		this.blendModeVariant = { base: current, state, index: this.batchStates.length - 1 };
+		return this.blendModeVariant.index;
+	}
+
+	/**
+	 * State for quads drawn without any state changes: sprite sheet, screen space, unclipped,
+	 * unmasked and normally blended
+	 */
+	protected createDefaultBatchState(): BatchState {
+		return { texture: null, camera: false, clip: null, mask: null, blendMode: 'normal' };
+	}
+
+	protected isSameBatchState(a: BatchState, b: BatchState): boolean {
+		return (
+			a === b ||
+			(a.texture === b.texture &&
+				a.camera === b.camera &&
+				a.mask === b.mask &&
+				a.blendMode === b.blendMode &&
+				isSameClipRect(a.clip, b.clip))
+		);
+	}
+
 	/**
 	 * Render sprites to texture, then apply post-processing to canvas
 	 */
@@ -343,6 +1483,7 @@ export class Renderer {
 			this.spriteAttribLocations = {
 				position: this.gl.getAttribLocation(this.program, 'a_position'),
 				texcoord: this.gl.getAttribLocation(this.program, 'a_texcoord'),
+				color: this.gl.getAttribLocation(this.program, 'a_color'),
 			};
 		}
 
@@ -357,6 +1498,12 @@ export class Renderer {
 			this.gl.vertexAttribPointer(this.spriteAttribLocations.texcoord, 2, this.gl.FLOAT, false, 0, 0);
 			this.gl.enableVertexAttribArray(this.spriteAttribLocations.texcoord);
 		}
+
+		if (this.spriteAttribLocations.color !== -1) {
+			this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.glColorBuffer);
+			this.gl.vertexAttribPointer(this.spriteAttribLocations.color, 4, this.gl.FLOAT, false, 0, 0);
+			this.gl.enableVertexAttribArray(this.spriteAttribLocations.color);
+		}
 	}
 
 	/**
@@ -402,6 +1549,10 @@ export class Renderer {
 	resetBuffers(): void {
 		this.bufferPointer = 0; // Reset write position
 		this.bufferCounter = 0; // Reset usage counter
+
+		// Keep only the current batch state for the next quads
+		this.batchStates = [this.batchStates[this.batchStateIndex]];
+		this.batchStateIndex = 0;
 	}
 
 	getBufferStats(): { triangles: number; maxTriangles: number } {
@@ -447,6 +1598,21 @@ export class Renderer {
 			0
 		);
 
+		// Attach a stencil buffer for sprite masks (depth is unused, but depth-stencil is the portable format)
+		if (this.renderStencilBuffer) {
+			this.gl.deleteRenderbuffer(this.renderStencilBuffer);
+		}
+		this.renderStencilBuffer = this.gl.createRenderbuffer();
+		this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, this.renderStencilBuffer);
+		this.gl.renderbufferStorage(this.gl.RENDERBUFFER, this.gl.DEPTH24_STENCIL8, width, height);
+		this.gl.framebufferRenderbuffer(
+			this.gl.FRAMEBUFFER,
+			this.gl.DEPTH_STENCIL_ATTACHMENT,
+			this.gl.RENDERBUFFER,
+			this.renderStencilBuffer
+		);
+		this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, null);
+
 		// Check framebuffer completeness
 		if (this.gl.checkFramebufferStatus(this.gl.FRAMEBUFFER) !== this.gl.FRAMEBUFFER_COMPLETE) {
 			throw new Error('Framebuffer not complete');
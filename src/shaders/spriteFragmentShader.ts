@@ -2,15 +2,22 @@ export default `#version 300 es
 precision mediump float;
 
 in vec2 v_texcoord;
+in vec4 v_color;
 uniform sampler2D u_texture;
 uniform float u_time;
 uniform float u_alpha;
+uniform float u_alphaThreshold;
 
 out vec4 outColor;
 
 void main() {
 	vec2 uv = v_texcoord;
 	vec4 color = texture(u_texture, uv);
-	outColor = color * u_alpha;
+	// Textures are premultiplied, so premultiply the tint before applying it
+	outColor = color * vec4(v_color.rgb * v_color.a, v_color.a) * u_alpha;
+	// Mask shapes only mark the stencil where they are opaque enough (threshold is 0 otherwise)
+	if (outColor.a < u_alphaThreshold) {
+		discard;
+	}
 }
 `;
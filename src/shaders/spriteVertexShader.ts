@@ -3,19 +3,34 @@ precision mediump float;
 
 in vec2 a_position;
 in vec2 a_texcoord;
+in vec4 a_color;
+
+// Instanced quads: a corner of the unit quad, and the instance's rectangle and texture rectangle
+// (x, y, width, height). Per-vertex quads leave a_corner disabled, so it reads as zero; instanced
+// quads disable a_position and a_texcoord and set them to zero.
+in vec2 a_corner;
+in vec4 a_rect;
+in vec4 a_uvRect;
 
 uniform vec2 u_resolution;
+uniform mat3 u_view;
 
 out vec2 v_texcoord;
+out vec4 v_color;
 
 void main() {
-	vec2 zeroToOne = a_position / u_resolution;
+	// Camera view (identity for quads drawn outside the camera)
+	vec2 vertex = a_position + a_rect.xy + a_corner * a_rect.zw;
+	vec2 position = (u_view * vec3(vertex, 1.0)).xy;
+
+	vec2 zeroToOne = position / u_resolution;
 	vec2 zeroToTwo = zeroToOne * 2.0;
 	vec2 clipSpace = zeroToTwo - 1.0;
 
 	gl_PointSize = 1.0;
 	gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
 
-	v_texcoord = a_texcoord;
+	v_texcoord = a_texcoord + a_uvRect.xy + a_corner * a_uvRect.zw;
+	v_color = a_color;
 }
 `;
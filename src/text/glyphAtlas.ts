@@ -0,0 +1,178 @@
+import type { SpriteCoordinates, SpriteLookup } from '../types';
+import type { BitmapFont, BitmapGlyph, GlyphAtlas, GlyphAtlasOptions } from '../types/font';
+
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+interface MeasuredGlyph {
+	character: string;
+	codePoint: number;
+	/** Ink box in whole pixels around the pen position on the baseline */
+	left: number;
+	ascent: number;
+	width: number;
+	height: number;
+	advance: number;
+	/** Position in the atlas */
+	x: number;
+	y: number;
+}
+
+/**
+ * Rasterize characters from a CSS font into a packed glyph atlas. The result has the atlas
+ * image for `Engine.loadSpriteSheet`, a bitmap font for drawBitmapText() and the text layout
+ * methods, and a sprite lookup for drawText().
+ *
+ * @param options - Font, characters, atlas name and rasterization settings
+ * @throws Error if a canvas 2D context is unavailable or a glyph is wider than the atlas
+ */
+export function createGlyphAtlas(options: GlyphAtlasOptions): GlyphAtlas {
+	const padding = options.padding ?? 1;
+	const maxWidth = options.maxWidth ?? 512;
+	const canvas = options.canvas ?? new OffscreenCanvas(1, 1);
+	let context = getContext(canvas);
+	context.font = options.font;
+
+	const codePoints = new Set(Array.from(options.characters, character => character.codePointAt(0)!));
+	codePoints.delete(10); // "\n" is a line break, not a glyph
+
+	// The font's own ascent and descent keep the line height the same for any character set
+	let fontAscent: number | undefined;
+	let fontDescent: number | undefined;
+	const glyphs: MeasuredGlyph[] = Array.from(codePoints, codePoint => {
+		const character = String.fromCodePoint(codePoint);
+		const metrics = context.measureText(character);
+		fontAscent ??= metrics.fontBoundingBoxAscent;
+		fontDescent ??= metrics.fontBoundingBoxDescent;
+		const left = Math.ceil(metrics.actualBoundingBoxLeft);
+		const ascent = Math.ceil(metrics.actualBoundingBoxAscent);
+		return {
+			character,
+			codePoint,
+			left,
+			ascent,
+			width: Math.max(0, left + Math.ceil(metrics.actualBoundingBoxRight)),
+			height: Math.max(0, ascent + Math.ceil(metrics.actualBoundingBoxDescent)),
+			advance: metrics.width,
+			x: 0,
+			y: 0,
+		};
+	});
+
+	const base = Math.ceil(fontAscent ?? Math.max(0, ...glyphs.map(glyph => glyph.ascent)));
+	const descent = Math.ceil(fontDescent ?? Math.max(0, ...glyphs.map(glyph => glyph.height - glyph.ascent)));
+
+	// Pack glyphs with ink into rows, tallest first
+	const inked = glyphs.filter(glyph => glyph.width > 0 && glyph.height > 0).sort((a, b) => b.height - a.height);
+	let x = padding;
+	let y = padding;
+	let rowHeight = 0;
+	let atlasWidth = 0;
+	for (const glyph of inked) {
+		if (glyph.width + padding * 2 > maxWidth) {
+			throw new Error(`Glyph "${glyph.character}" is ${glyph.width} pixels wide, too wide for a ${maxWidth} pixel glyph atlas.`);
+		}
+		if (x + glyph.width + padding > maxWidth) {
+			x = padding;
+			y += rowHeight + padding;
+			rowHeight = 0;
+		}
+		glyph.x = x;
+		glyph.y = y;
+		x += glyph.width + padding;
+		rowHeight = Math.max(rowHeight, glyph.height);
+		atlasWidth = Math.max(atlasWidth, x);
+	}
+
+	// Resizing the canvas resets its context state
+	canvas.width = Math.max(1, atlasWidth);
+	canvas.height = Math.max(1, y + rowHeight + padding);
+	context = getContext(canvas);
+	context.clearRect(0, 0, canvas.width, canvas.height);
+	context.font = options.font;
+	context.fillStyle = options.color ?? '#ffffff';
+	context.textAlign = 'left';
+	context.textBaseline = 'alphabetic';
+	for (const glyph of inked) {
+		context.fillText(glyph.character, glyph.x + glyph.left, glyph.y + glyph.ascent);
+	}
+	if (options.threshold !== undefined) {
+		applyThreshold(context, canvas.width, canvas.height, options.threshold);
+	}
+
+	const font: BitmapFont = {
+		lineHeight: base + descent,
+		base,
+		glyphs: {},
+		kerning: options.kerning ? measureKerning(context, glyphs) : {},
+		pages: [],
+		face: options.font,
+	};
+	const sprites: SpriteLookup = {};
+	for (const glyph of glyphs) {
+		const hasInk = glyph.width > 0 && glyph.height > 0;
+		const bitmapGlyph: BitmapGlyph = {
+			x: glyph.x,
+			y: glyph.y,
+			width: hasInk ? glyph.width : 0,
+			height: hasInk ? glyph.height : 0,
+			xOffset: 0 - glyph.left, // Avoids -0 for glyphs without left bearing
+			yOffset: base - glyph.ascent,
+			xAdvance: Math.round(glyph.advance),
+		};
+		const sprite: SpriteCoordinates = {
+			x: bitmapGlyph.x,
+			y: bitmapGlyph.y,
+			spriteWidth: bitmapGlyph.width,
+			spriteHeight: bitmapGlyph.height,
+			offsetX: bitmapGlyph.xOffset,
+			offsetY: bitmapGlyph.yOffset,
+			sourceWidth: bitmapGlyph.xAdvance,
+			sourceHeight: font.lineHeight,
+		};
+		if (options.atlas !== undefined) {
+			bitmapGlyph.atlas = sprite.atlas = options.atlas;
+		}
+		font.glyphs[glyph.codePoint] = bitmapGlyph;
+		sprites[glyph.character] = sprite;
+	}
+
+	return { canvas, font, sprites };
+}
+
+function getContext(canvas: OffscreenCanvas | HTMLCanvasElement): Context2D {
+	const context = canvas.getContext('2d') as Context2D | null;
+	if (!context) {
+		throw new Error('Failed to get a 2D context for the glyph atlas canvas.');
+	}
+	return context;
+}
+
+/**
+ * Make every pixel fully opaque or fully transparent
+ */
+function applyThreshold(context: Context2D, width: number, height: number, threshold: number): void {
+	const image = context.getImageData(0, 0, width, height);
+	const { data } = image;
+	for (let i = 3; i < data.length; i += 4) {
+		data[i] = data[i] >= threshold ? 255 : 0;
+	}
+	context.putImageData(image, 0, 0);
+}
+
+/**
+ * Kerning is how much narrower a pair is than its two characters measured apart
+ */
+function measureKerning(context: Context2D, glyphs: MeasuredGlyph[]): Record<number, Record<number, number>> {
+	const kerning: Record<number, Record<number, number>> = {};
+	for (const first of glyphs) {
+		for (const second of glyphs) {
+			const amount = Math.round(
+				context.measureText(first.character + second.character).width - first.advance - second.advance
+			);
+			if (amount !== 0) {
+				(kerning[first.codePoint] ??= {})[second.codePoint] = amount;
+			}
+		}
+	}
+	return kerning;
+}
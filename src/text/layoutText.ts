@@ -0,0 +1,141 @@
+import type { BitmapFont, TextLayoutOptions, TextLine, TextMeasureOptions, TextMetrics } from '../types/font';
+
+/**
+ * Width of a single line as drawn by Engine.drawBitmapText(), in font pixels.
+ * Letter spacing only counts between glyphs.
+ */
+function measureLine(text: string, font: BitmapFont, letterSpacing: number): number {
+	let width = 0;
+	let glyphs = 0;
+	let previous = -1;
+	for (const character of text) {
+		const codePoint = character.codePointAt(0)!;
+		const glyph = font.glyphs[codePoint];
+		if (!glyph) {
+			previous = -1;
+			continue;
+		}
+		if (previous !== -1) {
+			width += font.kerning[previous]?.[codePoint] ?? 0;
+		}
+		width += glyph.xAdvance + letterSpacing;
+		glyphs++;
+		previous = codePoint;
+	}
+	return glyphs > 0 ? width - letterSpacing : 0;
+}
+
+/**
+ * Measure text without drawing it. Lines are split at "\n" only.
+ *
+ * @param text - Text to measure
+ * @param font - Bitmap font the text will be drawn with
+ * @param options - Scale, letter spacing and line height used when drawing
+ */
+export function measureText(text: string, font: BitmapFont, options?: TextMeasureOptions): TextMetrics {
+	return layoutText(text, font, options);
+}
+
+/**
+ * Break text into lines and position them: word wrapping, truncation with an ellipsis,
+ * and horizontal and vertical alignment within a box.
+ *
+ * @param text - Text to lay out
+ * @param font - Bitmap font the text will be drawn with
+ * @param options - Box size, wrapping, alignment and truncation
+ */
+export function layoutText(text: string, font: BitmapFont, options?: TextLayoutOptions): TextMetrics {
+	const scale = options?.scale ?? 1;
+	const letterSpacing = options?.letterSpacing ?? 0;
+	const lineHeight = (options?.lineHeight ?? font.lineHeight) * scale;
+	const maxWidth = options?.maxWidth ?? Infinity;
+	const measure = (line: string): number => measureLine(line, font, letterSpacing) * scale;
+
+	let lines: string[] = [];
+	for (const paragraph of text.split('\n')) {
+		if (options?.wrap !== false && maxWidth !== Infinity) {
+			lines.push(...wrapParagraph(paragraph, maxWidth, measure));
+		} else {
+			lines.push(paragraph);
+		}
+	}
+
+	let truncated = false;
+	if (options?.maxLines !== undefined && lines.length > options.maxLines) {
+		lines = lines.slice(0, Math.max(0, options.maxLines));
+		truncated = true;
+	}
+
+	if (options?.ellipsis) {
+		const ellipsis =
+			typeof options.ellipsis === 'string' ? options.ellipsis : font.glyphs[0x2026] ? '…' : '...';
+		lines = lines.map((line, i) => {
+			const cut = truncated && i === lines.length - 1;
+			return cut || measure(line) > maxWidth ? fitWithEllipsis(line, ellipsis, maxWidth, measure) : line;
+		});
+	}
+
+	const widths = lines.map(measure);
+	const width = Math.max(0, ...widths);
+	const height = lines.length * lineHeight;
+	const alignWidth = maxWidth !== Infinity ? maxWidth : width;
+	const boxHeight = options?.height ?? height;
+	const top =
+		options?.verticalAlign === 'middle'
+			? (boxHeight - height) / 2
+			: options?.verticalAlign === 'bottom'
+				? boxHeight - height
+				: 0;
+
+	const laidOut: TextLine[] = lines.map((line, i) => ({
+		text: line,
+		width: widths[i],
+		x: options?.align === 'center' ? (alignWidth - widths[i]) / 2 : options?.align === 'right' ? alignWidth - widths[i] : 0,
+		y: top + i * lineHeight,
+	}));
+
+	return { width, height, lineHeight, baseline: font.base * scale, lines: laidOut };
+}
+
+/**
+ * Greedy word wrap. Spaces at line ends do not count towards the width, and words wider
+ * than the line are broken between characters.
+ */
+function wrapParagraph(paragraph: string, maxWidth: number, measure: (line: string) => number): string[] {
+	const lines: string[] = [];
+	let line = '';
+
+	for (const word of paragraph.match(/\S+\s*|\s+/g) ?? []) {
+		if (measure((line + word).trimEnd()) <= maxWidth) {
+			line += word;
+			continue;
+		}
+		if (line.trimEnd() !== '') {
+			lines.push(line.trimEnd());
+			line = '';
+		}
+
+		// Break words that do not fit on a line of their own
+		for (const character of word) {
+			if (line !== '' && measure((line + character).trimEnd()) > maxWidth) {
+				lines.push(line.trimEnd());
+				line = '';
+			}
+			line += character;
+		}
+	}
+
+	lines.push(line.trimEnd());
+	return lines;
+}
+
+/**
+ * Cut characters off the end of a line until it fits with the ellipsis appended
+ */
+function fitWithEllipsis(line: string, ellipsis: string, maxWidth: number, measure: (line: string) => number): string {
+	const characters = Array.from(line.trimEnd());
+	while (characters.length > 0 && measure(characters.join('').trimEnd() + ellipsis) > maxWidth) {
+		characters.pop();
+	}
+	return characters.join('').trimEnd() + ellipsis;
+}
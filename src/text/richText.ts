@@ -0,0 +1,254 @@
+import type { SpriteLookup } from '../types';
+import type { BitmapFont, RichTextGlyph, RichTextLayout, RichTextRun, TextMeasureOptions } from '../types/font';
+
+type RichTextStyle = Omit<RichTextRun, 'text' | 'icon'>;
+
+const DEFAULT_WAVE = 2;
+const DEFAULT_SHAKE = 1;
+
+// Waves take one second per cycle and trail by this many radians per glyph
+const WAVE_SPEED = Math.PI * 2;
+const WAVE_PHASE = 0.6;
+
+// Shaking glyphs jump to a new offset this many times per second
+const SHAKE_RATE = 20;
+
+/**
+ * Parse rich text markup into styled runs.
+ *
+ * Tags: [color=#f00]…[/color], [font=name]…[/font], [wave]…[/wave] or [wave=4],
+ * [shake]…[/shake] or [shake=2], and [icon=sprite] for an inline sprite. Tags nest,
+ * and "[[" writes a literal "[".
+ *
+ * @param markup - Text with markup tags
+ * @throws Error if a tag is unknown, has an invalid value or is not closed in order
+ */
+export function parseRichText(markup: string): RichTextRun[] {
+	const runs: RichTextRun[] = [];
+	const stack: Array<{ tag: string; style: RichTextStyle }> = [];
+	let style: RichTextStyle = {};
+
+	const addText = (text: string): void => {
+		const last = runs[runs.length - 1];
+		if (last && last.icon === undefined && isSameStyle(last, style)) {
+			last.text += text;
+		} else if (text !== '') {
+			runs.push({ text, ...style });
+		}
+	};
+
+	let position = 0;
+	for (const match of markup.matchAll(/\[\[|\[(\/?)(\w+)(?:=([^\]]*))?\]/g)) {
+		addText(markup.slice(position, match.index));
+		position = match.index! + match[0].length;
+
+		const [tagText, closing, tag, value] = match;
+		if (tagText === '[[') {
+			addText('[');
+		} else if (closing) {
+			const open = stack.pop();
+			if (!open) {
+				throw new Error(`Rich text ${tagText} has no opening tag.`);
+			}
+			if (open.tag !== tag) {
+				throw new Error(`Rich text ${tagText} does not close [${open.tag}].`);
+			}
+			style = open.style;
+		} else if (tag === 'icon') {
+			if (!value) {
+				throw new Error('Rich text [icon] needs a sprite name, e.g. [icon=coin].');
+			}
+			runs.push({ text: '', icon: value, ...style });
+		} else {
+			stack.push({ tag, style });
+			style = { ...style, ...readStyleTag(tag, value) };
+		}
+	}
+	addText(markup.slice(position));
+
+	if (stack.length > 0) {
+		throw new Error(`Rich text [${stack[stack.length - 1].tag}] is not closed.`);
+	}
+	return runs;
+}
+
+function readStyleTag(tag: string, value: string | undefined): RichTextStyle {
+	switch (tag) {
+		case 'color':
+			return { color: parseColor(value) };
+		case 'font':
+			if (!value) {
+				throw new Error('Rich text [font] needs a font name, e.g. [font=title].');
+			}
+			return { font: value };
+		case 'wave':
+			return { wave: readAmount(tag, value, DEFAULT_WAVE) };
+		case 'shake':
+			return { shake: readAmount(tag, value, DEFAULT_SHAKE) };
+		default:
+			throw new Error(`Unknown rich text tag [${tag}].`);
+	}
+}
+
+function parseColor(value: string | undefined): number {
+	const hex = value?.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+	if (!hex) {
+		throw new Error(`Rich text color "${value ?? ''}" is not a #rgb or #rrggbb color.`);
+	}
+	return parseInt(hex.length === 3 ? hex.replace(/./g, '$&$&') : hex, 16);
+}
+
+function readAmount(tag: string, value: string | undefined, defaultAmount: number): number {
+	if (value === undefined) {
+		return defaultAmount;
+	}
+	const amount = Number(value);
+	if (value === '' || !Number.isFinite(amount)) {
+		throw new Error(`Rich text [${tag}=${value}] needs a number of pixels.`);
+	}
+	return amount;
+}
+
+function isSameStyle(a: RichTextStyle, b: RichTextStyle): boolean {
+	return a.color === b.color && a.font === b.font && a.wave === b.wave && a.shake === b.shake;
+}
+
+/**
+ * Place the glyphs and icons of rich text. Each line sits on a shared baseline that clears
+ * its tallest font or icon, and "\n" starts a new line below its lowest descent.
+ *
+ * @param runs - Runs from parseRichText()
+ * @param font - Font for runs without a [font] tag
+ * @param getFont - Look up a font named by a [font] tag
+ * @param sprites - Sprite lookup for [icon] tags; unknown icons are skipped
+ * @param options - Scale and letter spacing
+ */
+export function layoutRichText(
+	runs: RichTextRun[],
+	font: BitmapFont,
+	getFont: (name: string) => BitmapFont,
+	sprites: SpriteLookup,
+	options?: Omit<TextMeasureOptions, 'lineHeight'>
+): RichTextLayout {
+	const scale = options?.scale ?? 1;
+	const spacing = (options?.letterSpacing ?? 0) * scale;
+	const glyphs: RichTextGlyph[] = [];
+
+	// Glyphs of the current line are placed relative to its baseline until the line ends
+	let line: RichTextGlyph[] = [];
+	let ascent = 0;
+	let descent = 0;
+	let penX = 0;
+	let lineWidth = 0;
+	let top = 0;
+	let width = 0;
+	let baseline: number | undefined;
+	let index = 0;
+	let previous = -1;
+	let previousFont: BitmapFont | undefined;
+
+	const endLine = (): void => {
+		if (ascent === 0 && descent === 0) {
+			ascent = font.base * scale;
+			descent = (font.lineHeight - font.base) * scale;
+		}
+		for (const glyph of line) {
+			glyph.y += top + ascent;
+			glyphs.push(glyph);
+		}
+		baseline ??= top + ascent;
+		width = Math.max(width, lineWidth);
+		top += ascent + descent;
+		line = [];
+		ascent = descent = penX = lineWidth = 0;
+		previous = -1;
+	};
+
+	for (const run of runs) {
+		if (run.icon !== undefined) {
+			previous = -1;
+			const sprite = sprites[run.icon];
+			if (!sprite) {
+				continue;
+			}
+			// Icons stand on the baseline
+			const iconWidth = (sprite.sourceWidth ?? sprite.spriteWidth) * scale;
+			const iconHeight = (sprite.sourceHeight ?? sprite.spriteHeight) * scale;
+			line.push({ x: penX, y: -iconHeight, width: iconWidth, height: iconHeight, index: index++, run, sprite });
+			ascent = Math.max(ascent, iconHeight);
+			lineWidth = penX + iconWidth;
+			penX = lineWidth + spacing;
+			continue;
+		}
+
+		const runFont = run.font !== undefined ? getFont(run.font) : font;
+		for (const character of run.text) {
+			if (character === '\n') {
+				endLine();
+				continue;
+			}
+			const codePoint = character.codePointAt(0)!;
+			const glyph = runFont.glyphs[codePoint];
+			if (!glyph) {
+				previous = -1;
+				continue; // Skip characters the font does not have
+			}
+
+			if (previous !== -1 && previousFont === runFont) {
+				penX += (runFont.kerning[previous]?.[codePoint] ?? 0) * scale;
+			}
+			if (glyph.width > 0 && glyph.height > 0) {
+				line.push({
+					x: penX + glyph.xOffset * scale,
+					y: (glyph.yOffset - runFont.base) * scale,
+					width: glyph.width * scale,
+					height: glyph.height * scale,
+					index: index++,
+					run,
+					glyph,
+				});
+			}
+			ascent = Math.max(ascent, runFont.base * scale);
+			descent = Math.max(descent, (runFont.lineHeight - runFont.base) * scale);
+			lineWidth = penX + glyph.xAdvance * scale;
+			penX = lineWidth + spacing;
+			previous = codePoint;
+			previousFont = runFont;
+		}
+	}
+	endLine();
+
+	return { width, height: top, baseline: baseline!, glyphs };
+}
+
+/**
+ * Offset of a glyph moved by its run's wave and shake effects, in pixels
+ *
+ * @param run - Run the glyph belongs to
+ * @param index - Glyph index from layoutRichText()
+ * @param time - Time in seconds
+ * @param scale - Text scale
+ */
+export function getRichTextEffectOffset(run: RichTextRun, index: number, time: number, scale: number): [number, number] {
+	let x = 0;
+	let y = 0;
+	if (run.wave) {
+		y -= Math.sin(time * WAVE_SPEED - index * WAVE_PHASE) * run.wave * scale;
+	}
+	if (run.shake) {
+		const step = Math.floor(time * SHAKE_RATE);
+		x += (noise(index, step, 0) * 2 - 1) * run.shake * scale;
+		y += (noise(index, step, 1) * 2 - 1) * run.shake * scale;
+	}
+	return [x, y];
+}
+
+/**
+ * Repeatable pseudo-random number from 0 to 1, so shaking looks the same at the same time
+ */
+function noise(index: number, step: number, axis: number): number {
+	let hash = Math.imul(index, 0x27d4eb2d) ^ Math.imul(step, 0x165667b1) ^ Math.imul(axis + 1, 0x9e3779b9);
+	hash = Math.imul(hash ^ (hash >>> 15), 0x85ebca6b);
+	hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+	return ((hash ^ (hash >>> 16)) >>> 0) / 0xffffffff;
+}
@@ -0,0 +1,40 @@
+import type { SpriteLookup } from '../types';
+import type { BitmapFont, BitmapGlyph } from '../types/font';
+
+/**
+ * Build a bitmap font from single-character sprites, e.g. the sprite lookup used by
+ * Engine.drawText(). Glyphs advance by their untrimmed width and the line height is the
+ * tallest character, so measuring and laying out text works the same as for BMFont fonts.
+ *
+ * @param sprites - Sprite lookup; only keys that are a single character become glyphs
+ * @throws Error if a character's sprite is stored rotated in its atlas
+ */
+export function createSpriteFont(sprites: SpriteLookup): BitmapFont {
+	const glyphs: Record<number, BitmapGlyph> = {};
+	let lineHeight = 0;
+
+	for (const [key, sprite] of Object.entries(sprites)) {
+		if (Array.from(key).length !== 1) {
+			continue;
+		}
+		if (sprite.rotated) {
+			throw new Error(`Sprite font character "${key}" must not be rotated in its atlas.`);
+		}
+		const glyph: BitmapGlyph = {
+			x: sprite.x,
+			y: sprite.y,
+			width: sprite.spriteWidth,
+			height: sprite.spriteHeight,
+			xOffset: sprite.offsetX ?? 0,
+			yOffset: sprite.offsetY ?? 0,
+			xAdvance: sprite.sourceWidth ?? sprite.spriteWidth,
+		};
+		if (sprite.atlas !== undefined) {
+			glyph.atlas = sprite.atlas;
+		}
+		glyphs[key.codePointAt(0)!] = glyph;
+		lineHeight = Math.max(lineHeight, sprite.sourceHeight ?? sprite.spriteHeight);
+	}
+
+	return { lineHeight, base: lineHeight, glyphs, kerning: {}, pages: [] };
+}
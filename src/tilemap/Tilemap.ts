@@ -0,0 +1,195 @@
+import { Animator } from '../animation/Animator';
+import type { TilemapLayer, TilemapOptions, TileRange } from '../types/tilemap';
+
+let tilemapCounter = 0;
+
+/**
+ * Grid of sprite lookup keys drawn with Engine.drawTilemap(). Holds any number of layers,
+ * animates tiles that have an animation, and tracks which baked chunks need redrawing.
+ */
+export class Tilemap {
+	readonly id: string;
+	readonly width: number;
+	readonly height: number;
+	readonly tileWidth: number;
+	readonly tileHeight: number;
+	readonly chunkSize: number;
+	layers: TilemapLayer[];
+
+	// One animator per animated tile key, so every instance of a tile animates in sync
+	private animators: Map<string, Animator> = new Map();
+
+	// Cache ids of baked chunks whose tiles changed since the last draw
+	private dirtyChunks: Set<string> = new Set();
+
+	/**
+	 * Creates a tilemap
+	 * @param options - Map size, grid size, layers and tile animations
+	 * @throws Error if a layer does not match the map size or an animation is invalid
+	 */
+	constructor(options: TilemapOptions) {
+		this.id = options.id ?? `tilemap${++tilemapCounter}`;
+		this.width = options.width;
+		this.height = options.height;
+		this.tileWidth = options.tileWidth;
+		this.tileHeight = options.tileHeight;
+		this.chunkSize = options.chunkSize ?? 16;
+		this.layers = [];
+
+		for (const layer of options.layers ?? []) {
+			this.addLayer(layer);
+		}
+
+		const animations = options.animations ?? {};
+		for (const tile of Object.keys(animations)) {
+			this.animators.set(tile, new Animator(animations, tile));
+		}
+	}
+
+	/**
+	 * Add a layer on top of the existing ones
+	 * @param layer - Layer with one entry per cell
+	 * @throws Error if the layer does not match the map size or its name is taken
+	 */
+	addLayer(layer: TilemapLayer): void {
+		const size = this.width * this.height;
+		if (layer.tiles.length !== size) {
+			throw new Error(
+				`Tilemap layer "${layer.name}" has ${layer.tiles.length} tiles, expected ${size} (${this.width}x${this.height}).`
+			);
+		}
+		if (layer.flags && layer.flags.length !== size) {
+			throw new Error(`Tilemap layer "${layer.name}" has ${layer.flags.length} flags, expected ${size}.`);
+		}
+		if (this.layers.some(existing => existing.name === layer.name)) {
+			throw new Error(`Tilemap layer "${layer.name}" already exists.`);
+		}
+		this.layers.push(layer);
+	}
+
+	/**
+	 * Get a layer by name
+	 * @param name - Layer name
+	 * @throws Error if there is no such layer
+	 */
+	getLayer(name: string): TilemapLayer {
+		const layer = this.layers.find(layer => layer.name === name);
+		if (!layer) {
+			throw new Error(`Unknown tilemap layer: ${name}`);
+		}
+		return layer;
+	}
+
+	/**
+	 * Get the tile in a cell
+	 * @param layerName - Layer name
+	 * @param column - Cell column
+	 * @param row - Cell row
+	 * @returns The sprite lookup key, or null for empty cells and cells outside the map
+	 */
+	getTile(layerName: string, column: number, row: number): string | number | null {
+		const layer = this.getLayer(layerName);
+		if (!this.contains(column, row)) {
+			return null;
+		}
+		return layer.tiles[row * this.width + column];
+	}
+
+	/**
+	 * Change the tile in a cell, marking its baked chunk for redrawing
+	 * @param layerName - Layer name
+	 * @param column - Cell column
+	 * @param row - Cell row
+	 * @param tile - Sprite lookup key, or null to empty the cell
+	 * @param flags - Flip and turn bits, see TilemapLayer.flags
+	 * @throws Error if the cell is outside the map
+	 */
+	setTile(layerName: string, column: number, row: number, tile: string | number | null, flags: number = 0): void {
+		const layer = this.getLayer(layerName);
+		if (!this.contains(column, row)) {
+			throw new Error(`Tile (${column}, ${row}) is outside the ${this.width}x${this.height} tilemap.`);
+		}
+
+		const index = row * this.width + column;
+		layer.tiles[index] = tile;
+		if (flags !== 0 && !layer.flags) {
+			layer.flags = new Uint8Array(this.width * this.height);
+		}
+		if (layer.flags) {
+			layer.flags[index] = flags;
+		}
+
+		const layerIndex = this.layers.indexOf(layer);
+		this.dirtyChunks.add(
+			this.getChunkCacheId(layerIndex, Math.floor(column / this.chunkSize), Math.floor(row / this.chunkSize))
+		);
+	}
+
+	/**
+	 * Advance tile animations
+	 * @param deltaTime - Time since the last update in seconds
+	 */
+	update(deltaTime: number): void {
+		for (const animator of this.animators.values()) {
+			animator.update(deltaTime);
+		}
+	}
+
+	/**
+	 * Check whether a tile has an animation
+	 * @param tile - Sprite lookup key
+	 */
+	isAnimated(tile: string | number): boolean {
+		return this.animators.has(String(tile));
+	}
+
+	/**
+	 * Get the sprite to draw for a tile - the current animation frame for animated tiles
+	 * @param tile - Sprite lookup key
+	 */
+	getTileFrame(tile: string | number): string | number {
+		const animator = this.animators.get(String(tile));
+		return animator ? animator.frame : tile;
+	}
+
+	/**
+	 * Get the cells overlapping a rectangle in map pixels, clamped to the map.
+	 * Tiles are anchored at the bottom left of their cell, so the range reaches one cell
+	 * further left and down to catch tiles up to twice the grid size.
+	 * @param left - Left edge in map pixels
+	 * @param top - Top edge in map pixels
+	 * @param right - Right edge in map pixels
+	 * @param bottom - Bottom edge in map pixels
+	 */
+	getTileRange(left: number, top: number, right: number, bottom: number): TileRange {
+		return {
+			startColumn: Math.max(0, Math.floor(left / this.tileWidth) - 1),
+			startRow: Math.max(0, Math.floor(top / this.tileHeight)),
+			endColumn: Math.min(this.width, Math.ceil(right / this.tileWidth)),
+			endRow: Math.min(this.height, Math.ceil(bottom / this.tileHeight) + 1),
+		};
+	}
+
+	/**
+	 * Cache id of a baked chunk
+	 * @param layerIndex - Index into layers
+	 * @param chunkColumn - Chunk column
+	 * @param chunkRow - Chunk row
+	 */
+	getChunkCacheId(layerIndex: number, chunkColumn: number, chunkRow: number): string {
+		return `${this.id}:${layerIndex}:${chunkColumn},${chunkRow}`;
+	}
+
+	/**
+	 * Return and forget the cache ids of chunks changed since the last call
+	 */
+	takeDirtyChunks(): string[] {
+		const chunks = [...this.dirtyChunks];
+		this.dirtyChunks.clear();
+		return chunks;
+	}
+
+	private contains(column: number, row: number): boolean {
+		return column >= 0 && row >= 0 && column < this.width && row < this.height;
+	}
+}
@@ -3,13 +3,195 @@ export type SpriteCoordinates = {
 	spriteHeight: number;
 	x: number;
 	y: number;
+	/** Name of the atlas the sprite is in (see `Engine.loadSpriteSheet(name, image)`). Defaults to the main sprite sheet. */
+	atlas?: string;
+	/** Stored rotated 90 degrees clockwise: the atlas region is spriteHeight wide and spriteWidth tall */
+	rotated?: boolean;
+	/** Position of the trimmed sprite within its untrimmed size */
+	offsetX?: number;
+	offsetY?: number;
+	/** Untrimmed size, used as the sprite's default draw size when set */
+	sourceWidth?: number;
+	sourceHeight?: number;
+	/** Default rotation and scaling pivot in pixels from the untrimmed top left */
+	pivotX?: number;
+	pivotY?: number;
 };
 
 export type SpriteLookup = Record<string | number, SpriteCoordinates>;
 
+/**
+ * Rectangle in render target pixels, top-left origin
+ */
+export type ClipRect = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+/**
+ * 2D affine transform [a, b, c, d, e, f] mapping (x, y) to (a*x + c*y + e, b*x + d*y + f)
+ */
+export type Transform = [number, number, number, number, number, number];
+
 export type EngineOptions = {
 	/** Enable caching functionality. Defaults to false. */
 	caching?: boolean;
 	/** Maximum number of cache items when caching is enabled. Defaults to 50. */
 	maxCacheItems?: number;
+	/** Sort draws within each layer by their bottom edge, for top-down games. Defaults to false. */
+	sortByY?: boolean;
+	/**
+	 * Draw axis-aligned sprites as WebGL2 instances of one shared quad, uploading 40 bytes per sprite instead of 192.
+	 * Rotated sprites, lines and shapes still upload all six vertices. The output is the same either way. Defaults to false.
+	 */
+	instancing?: boolean;
+	/**
+	 * Reallocate the GPU vertex buffers before each upload (buffer orphaning) instead of overwriting them in place,
+	 * so uploads never wait for the GPU to finish drawing the previous flush. Helps on drivers that stall on
+	 * bufferSubData, at the cost of an allocation per flush. Defaults to false.
+	 */
+	orphanBuffers?: boolean;
+};
+
+/**
+ * How drawn pixels combine with what is already on the render target
+ * - normal: alpha blending
+ * - additive: adds color, for glows and lights
+ * - multiply: multiplies color, for shadows and tinting the scene
+ * - screen: inverse multiply, brightens without blowing out as fast as additive
+ * - replace: overwrites the target, including its alpha
+ */
+export type BlendMode = 'normal' | 'additive' | 'multiply' | 'screen' | 'replace';
+
+export type DrawOptions = {
+	/** Tint color as 0xRRGGBB, multiplied with the texture color. Defaults to 0xffffff (no tint). */
+	tint?: number;
+	/** Opacity from 0 to 1, multiplied with the texture alpha. Defaults to 1. */
+	alpha?: number;
+	/**
+	 * Draw layer. Lower layers are drawn first; draws on the same layer keep their call order.
+	 * Defaults to the engine's current layer (see `Engine.setLayer`).
+	 */
+	layer?: number;
+	/** Blend mode for this draw. Defaults to the engine's current blend mode (see `Engine.setBlendMode`). */
+	blendMode?: BlendMode;
+};
+
+export type SpriteDrawOptions = DrawOptions & {
+	/** Rotation in radians around the pivot point, clockwise on screen. Defaults to 0. */
+	rotation?: number;
+	/** Horizontal scale factor applied around the pivot point. Defaults to 1. */
+	scaleX?: number;
+	/** Vertical scale factor applied around the pivot point. Defaults to 1. */
+	scaleY?: number;
+	/** Pivot X in pixels, relative to the sprite's top left corner. Defaults to half the width. */
+	pivotX?: number;
+	/** Pivot Y in pixels, relative to the sprite's top left corner. Defaults to half the height. */
+	pivotY?: number;
+	/** Mirror the sprite horizontally by swapping its texture coordinates. Defaults to false. */
+	flipX?: boolean;
+	/** Mirror the sprite vertically by swapping its texture coordinates. Defaults to false. */
+	flipY?: boolean;
+	/**
+	 * Number of 90 degree clockwise steps to rotate the sprite image within its quad, applied after flipping.
+	 * Unlike `rotation`, this only remaps texture coordinates, so tiles stay pixel aligned.
+	 */
+	quarterTurns?: number;
+};
+
+/**
+ * Options for Engine.drawSprites(). Records are numbers in a row: x, y, sprite table index,
+ * the optional extra value, then any other fields of the record.
+ */
+export type BulkSpriteOptions = DrawOptions & {
+	/** Numbers per record. Defaults to 3, or 4 with an extra value. */
+	stride?: number;
+	/**
+	 * What the fourth number of each record is: a 0xRRGGBB tint or an alpha from 0 to 1, used instead
+	 * of the options' tint or alpha. Without it every sprite gets the options' tint and alpha.
+	 */
+	extra?: 'tint' | 'alpha';
+};
+
+/**
+ * Widths of the fixed borders of a nine-slice sprite, in sprite sheet pixels.
+ * A single number uses the same inset on all four sides.
+ */
+export type NineSliceInsets = number | { left: number; top: number; right: number; bottom: number };
+
+/**
+ * How the edges and center of a nine-slice fill their area
+ * - stretch: scale the source region to fit
+ * - tile: repeat the source region at its own size, cropping the last repeat
+ */
+export type NineSliceFill = 'stretch' | 'tile';
+
+export type NineSliceOptions = DrawOptions & {
+	/** Fill for the four edges. Defaults to 'stretch'. */
+	edges?: NineSliceFill;
+	/** Fill for the center, or 'none' to leave it empty. Defaults to 'stretch'. */
+	center?: NineSliceFill | 'none';
+};
+
+/**
+ * Options for sprite lines. The sprite's width runs along the line and its height across it.
+ */
+export type LineOptions = DrawOptions & {
+	/** Stretch the sprite over the whole line, or tile it at its own width. Defaults to 'stretch'. */
+	fill?: NineSliceFill;
+	/** Alternating dash and gap lengths in pixels, repeated along the line. An odd count is repeated to make it even. */
+	dash?: number[];
+	/** How far into the dash pattern and sprite tiles the line starts, in pixels. Animate it for marching ants. */
+	dashOffset?: number;
+};
+
+/**
+ * Options for filled shapes. The tint is the fill color and defaults to white.
+ */
+export type ShapeOptions = DrawOptions & {
+	/** Straight segments approximating a full circle. Defaults to a count based on the radius. */
+	segments?: number;
+};
+
+export type ArcOptions = ShapeOptions & {
+	/** Inner radius, to draw a ring segment instead of a pie slice. Defaults to 0. */
+	innerRadius?: number;
+};
+
+/**
+ * How polyline segments meet at a corner
+ * - miter: extend the edges to a point, falling back to bevel past the miter limit
+ * - bevel: cut the corner off
+ * - round: round the corner
+ */
+export type PolylineJoin = 'miter' | 'bevel' | 'round';
+
+/**
+ * How open polylines end
+ * - butt: stop at the end point
+ * - square: extend past the end point by half the thickness
+ * - round: add a half circle
+ */
+export type PolylineCap = 'butt' | 'square' | 'round';
+
+/**
+ * Options for polylines and curves. The tint is the line color and defaults to white.
+ * `segments` sets the smoothness of round joins and caps.
+ */
+export type PolylineOptions = ShapeOptions & {
+	/** Defaults to 'miter' */
+	join?: PolylineJoin;
+	/** Defaults to 'butt' */
+	cap?: PolylineCap;
+	/** Longest miter, as a multiple of half the thickness, before falling back to bevel. Defaults to 4. */
+	miterLimit?: number;
+	/** Connect the last point back to the first. Defaults to false. */
+	closed?: boolean;
+};
+
+export type CurveOptions = PolylineOptions & {
+	/** Straight segments per curve (per span between points for splines). Defaults to a count based on its length. */
+	curveSegments?: number;
 };
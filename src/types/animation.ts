@@ -0,0 +1,30 @@
+/**
+ * How an animation continues after its last frame
+ * - loop: start again from the first frame
+ * - pingpong: play back towards the first frame, then forwards again
+ * - once: stop on the last frame
+ */
+export type AnimationMode = 'loop' | 'pingpong' | 'once';
+
+/**
+ * Frame-based sprite animation
+ */
+export interface AnimationDefinition {
+	/** Sprite lookup keys, in playback order */
+	frames: Array<string | number>;
+	/** Duration in milliseconds, for every frame or per frame */
+	durations: number | number[];
+	/** Defaults to 'loop' */
+	mode?: AnimationMode;
+	/** Start from the last frame and play towards the first */
+	reverse?: boolean;
+	/**
+	 * Number of passes through the frames before stopping, for 'loop' and 'pingpong'.
+	 * In 'pingpong' mode each direction counts as one pass. Absent plays forever.
+	 */
+	repeat?: number;
+	/** Event names fired when a frame is shown, keyed by index into frames */
+	events?: Record<number, string>;
+}
+
+export type AnimationLookup = Record<string, AnimationDefinition>;
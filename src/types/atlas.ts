@@ -0,0 +1,93 @@
+import type { SpriteLookup } from '../types';
+
+/**
+ * Rectangle as written by TexturePacker-style exporters
+ */
+export interface AtlasRect {
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+}
+
+/**
+ * Single frame of a TexturePacker, Aseprite or Free Texture Packer JSON export
+ */
+export interface AtlasFrameData {
+	/** Region in the atlas image; w and h are the unrotated size */
+	frame: AtlasRect;
+	/** Stored rotated 90 degrees clockwise in the atlas */
+	rotated?: boolean;
+	/** Transparent borders were trimmed away */
+	trimmed?: boolean;
+	/** Position and size of the trimmed frame within the untrimmed sprite */
+	spriteSourceSize?: AtlasRect;
+	/** Untrimmed sprite size */
+	sourceSize?: { w: number; h: number };
+	/** Pivot relative to the untrimmed sprite size (0 to 1) */
+	pivot?: { x: number; y: number };
+	/** Frame duration in milliseconds (Aseprite) */
+	duration?: number;
+}
+
+/**
+ * Frame in the array flavour of the JSON export
+ */
+export interface AtlasArrayFrameData extends AtlasFrameData {
+	filename: string;
+}
+
+/**
+ * Aseprite animation tag
+ */
+export interface AsepriteFrameTag {
+	name: string;
+	from: number;
+	to: number;
+	direction?: AsepriteDirection;
+	/** Number of times to play, as a string; absent or "0" loops forever */
+	repeat?: string;
+}
+
+export type AsepriteDirection = 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+
+/**
+ * TexturePacker / Free Texture Packer / Aseprite JSON export, hash or array flavour
+ */
+export interface AtlasData {
+	frames: Record<string, AtlasFrameData> | AtlasArrayFrameData[];
+	meta?: {
+		image?: string;
+		size?: { w: number; h: number };
+		frameTags?: AsepriteFrameTag[];
+	};
+}
+
+/**
+ * Options for atlas parsers
+ */
+export interface AtlasParseOptions {
+	/** Atlas name set on every sprite, matching `Engine.loadSpriteSheet(name, image)` */
+	atlas?: string;
+}
+
+/**
+ * Animation read from an Aseprite frame tag
+ */
+export interface AsepriteAnimation {
+	/** Sprite lookup keys, in tag order */
+	frames: string[];
+	/** Duration of each frame in milliseconds */
+	durations: number[];
+	direction: AsepriteDirection;
+	/** Number of times to play; absent loops forever */
+	repeat?: number;
+}
+
+/**
+ * Parsed Aseprite export
+ */
+export interface AsepriteAtlas {
+	sprites: SpriteLookup;
+	animations: Record<string, AsepriteAnimation>;
+}
@@ -0,0 +1,9 @@
+/**
+ * World-space rectangle the camera view is kept inside
+ */
+export interface CameraBounds {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
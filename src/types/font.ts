@@ -0,0 +1,226 @@
+import type { DrawOptions, SpriteCoordinates, SpriteLookup } from '../types';
+
+/**
+ * One glyph of a bitmap font, in pixels
+ */
+export interface BitmapGlyph {
+	/** Region in the atlas image */
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	/** Offset from the pen position (top of the line) to the glyph's top left corner */
+	xOffset: number;
+	yOffset: number;
+	/** How far the pen moves after drawing the glyph */
+	xAdvance: number;
+	/** Atlas the glyph is in (see `Engine.loadSpriteSheet(name, image)`). Defaults to the main sprite sheet. */
+	atlas?: string;
+}
+
+/**
+ * Bitmap font with variable-width glyphs and kerning
+ */
+export interface BitmapFont {
+	/** Distance between the tops of consecutive lines */
+	lineHeight: number;
+	/** Distance from the top of a line to the baseline */
+	base: number;
+	/** Glyphs keyed by Unicode code point */
+	glyphs: Record<number, BitmapGlyph>;
+	/** Extra advance between two code points: kerning[first][second] */
+	kerning: Record<number, Record<number, number>>;
+	/** Image files of the font's pages, in page order */
+	pages: string[];
+	/** Font name and size from the font file, if known */
+	face?: string;
+	size?: number;
+}
+
+/**
+ * Options for drawing bitmap text
+ */
+export type BitmapTextOptions = DrawOptions & {
+	/** Scale factor for glyphs, spacing and line height. Defaults to 1. */
+	scale?: number;
+	/** Extra space added after every glyph, in font pixels. Defaults to 0. */
+	letterSpacing?: number;
+	/** Line height override, in font pixels. Defaults to the font's line height. */
+	lineHeight?: number;
+	/** Whether y is the top of the first line or its baseline. Defaults to 'top'. */
+	baseline?: 'top' | 'alphabetic';
+};
+
+/**
+ * Options that affect the size of text
+ */
+export type TextMeasureOptions = Pick<BitmapTextOptions, 'scale' | 'letterSpacing' | 'lineHeight'>;
+
+/**
+ * Options for laying out text in a box
+ */
+export type TextLayoutOptions = TextMeasureOptions & {
+	/** Width to wrap, truncate and align within. Defaults to no limit. */
+	maxWidth?: number;
+	/** Break lines at spaces (or inside words that do not fit) to stay within maxWidth. Defaults to true. */
+	wrap?: boolean;
+	/** Horizontal alignment within maxWidth, or within the widest line without one. Defaults to 'left'. */
+	align?: 'left' | 'center' | 'right';
+	/** Drop lines after this many */
+	maxLines?: number;
+	/** Mark cut text with "…" (or "..." if the font lacks it), or with a custom string. Defaults to false. */
+	ellipsis?: boolean | string;
+	/** Box height for vertical alignment */
+	height?: number;
+	/** Vertical alignment within height. Defaults to 'top'. */
+	verticalAlign?: 'top' | 'middle' | 'bottom';
+};
+
+/**
+ * Options for Engine.drawTextBox()
+ */
+export type TextBoxOptions = Omit<BitmapTextOptions, 'baseline'> &
+	Omit<TextLayoutOptions, 'maxWidth' | 'height'>;
+
+/**
+ * Line of measured or laid out text
+ */
+export interface TextLine {
+	text: string;
+	width: number;
+	/** Position of the line's top left corner relative to the layout */
+	x: number;
+	y: number;
+}
+
+/**
+ * Size of a block of text, in pixels after scaling
+ */
+export interface TextMetrics {
+	width: number;
+	height: number;
+	lineHeight: number;
+	/** Distance from the top of a line to its baseline */
+	baseline: number;
+	lines: TextLine[];
+}
+
+/**
+ * Styled span of rich text markup
+ */
+export interface RichTextRun {
+	/** Text of the span; empty for icons */
+	text: string;
+	/** Sprite drawn inline, from [icon=name] */
+	icon?: string;
+	/** Tint as 0xRRGGBB, from [color=#rgb] or [color=#rrggbb] */
+	color?: number;
+	/** Font name, from [font=name] (see `Engine.addFonts`) */
+	font?: string;
+	/** Wave height in font pixels, from [wave] or [wave=n] */
+	wave?: number;
+	/** Shake distance in font pixels, from [shake] or [shake=n] */
+	shake?: number;
+}
+
+/**
+ * Options for drawing rich text
+ */
+export type RichTextOptions = Omit<BitmapTextOptions, 'lineHeight'> & {
+	/** Time in seconds driving wave and shake effects. Defaults to the time since the engine started. */
+	time?: number;
+};
+
+/**
+ * Glyph or icon placed by layoutRichText(), in pixels relative to the top left of the text
+ */
+export interface RichTextGlyph {
+	x: number;
+	y: number;
+	/** Draw size after scaling */
+	width: number;
+	height: number;
+	/** Position among the text's glyphs and icons, used to offset effects */
+	index: number;
+	run: RichTextRun;
+	/** Font glyph, for text */
+	glyph?: BitmapGlyph;
+	/** Sprite, for icons; x and y are its untrimmed top left corner */
+	sprite?: SpriteCoordinates;
+}
+
+/**
+ * Rich text broken into lines with mixed fonts and icons sharing each line's baseline
+ */
+export interface RichTextLayout {
+	width: number;
+	height: number;
+	/** Distance from the top to the first line's baseline */
+	baseline: number;
+	glyphs: RichTextGlyph[];
+}
+
+/**
+ * Options for createGlyphAtlas()
+ */
+export interface GlyphAtlasOptions {
+	/** CSS font, e.g. '16px "Press Start 2P"'. Web fonts must be loaded first (see `document.fonts.load`). */
+	font: string;
+	/** Characters to rasterize */
+	characters: string;
+	/** Atlas name the texture will be loaded under (see `Engine.loadSpriteSheet(name, image)`). Defaults to the main sprite sheet. */
+	atlas?: string;
+	/** Keep pixels with at least this alpha (0-255) fully opaque and drop the rest, for crisp pixel fonts. Defaults to antialiased output. */
+	threshold?: number;
+	/** Fill color. Defaults to white, so tinting colors the text. */
+	color?: string;
+	/** Empty pixels around each glyph in the atlas. Defaults to 1. */
+	padding?: number;
+	/** Atlas width in pixels; glyphs wrap onto new rows. Defaults to 512. */
+	maxWidth?: number;
+	/** Measure kerning between every pair of characters. Slow for large character sets. Defaults to false. */
+	kerning?: boolean;
+	/** Canvas to draw on, e.g. a DOM canvas where OffscreenCanvas is unavailable. Defaults to a new OffscreenCanvas. */
+	canvas?: OffscreenCanvas | HTMLCanvasElement;
+}
+
+/**
+ * Glyph atlas rasterized at runtime
+ */
+export interface GlyphAtlas {
+	/** Atlas image for `Engine.loadSpriteSheet` */
+	canvas: OffscreenCanvas | HTMLCanvasElement;
+	/** Font for drawBitmapText(), drawTextBox() and drawRichText() */
+	font: BitmapFont;
+	/** One sprite per character, trimmed within a cell of its advance by the line height, for drawText() */
+	sprites: SpriteLookup;
+}
+
+/**
+ * Options for the BMFont loader
+ */
+export interface BMFontParseOptions {
+	/** Atlas name for each page, or one name for a single-page font. Defaults to the main sprite sheet. */
+	atlas?: string | string[];
+}
+
+/**
+ * AngelCode BMFont descriptor in the common JSON layout (as written by bmfont2json and msdf-bmfont)
+ */
+export interface BMFontJson {
+	info?: { face?: string; size?: number };
+	common: { lineHeight: number; base: number };
+	pages: string[];
+	chars: Array<{
+		id: number;
+		x: number;
+		y: number;
+		width: number;
+		height: number;
+		xoffset: number;
+		yoffset: number;
+		xadvance: number;
+		page?: number;
+	}>;
+	kernings?: Array<{ first: number; second: number; amount: number }>;
+}
@@ -0,0 +1,70 @@
+/**
+ * A fixed value, or a [min, max] range picked from at random for each particle
+ */
+export type ParticleRange = number | [min: number, max: number];
+
+/**
+ * A value over a particle's life: a fixed value, or values spread evenly from birth to death
+ * and interpolated between
+ */
+export type ParticleCurve = number | number[];
+
+/**
+ * Options for creating a particle emitter
+ */
+export interface ParticleEmitterOptions {
+	/** Sprite lookup keys. Each particle gets a random one unless frameRate or framesOverLife is set. */
+	sprites: Array<string | number>;
+	/** Play the sprites as looping animation frames at this many frames per second, from each particle's birth */
+	frameRate?: number;
+	/** Play the sprites once, spread evenly over each particle's life */
+	framesOverLife?: boolean;
+	/** Most particles alive at once; spawns beyond it are dropped. Defaults to 1000. */
+	maxParticles?: number;
+	/** Seed for the emitter's random numbers, so the same seed and updates give the same particles. Defaults to a random seed. */
+	seed?: number;
+	/** Particles spawned per second while emitting. Defaults to 0. */
+	rate?: number;
+	/** Seconds each particle lives */
+	lifetime: ParticleRange;
+	/** Spawn offset from the emitter position in pixels. Defaults to 0. */
+	offsetX?: ParticleRange;
+	offsetY?: ParticleRange;
+	/** Initial speed in pixels per second. Defaults to 0. */
+	speed?: ParticleRange;
+	/** Initial direction in radians, clockwise from the positive X axis. Defaults to every direction. */
+	angle?: ParticleRange;
+	/** Acceleration in pixels per second squared. Defaults to 0. */
+	gravityX?: number;
+	gravityY?: number;
+	/** Share of velocity lost per second, e.g. 2 slows to about 13% after a second. Defaults to 0. */
+	drag?: number;
+	/** Initial rotation in radians. Defaults to 0. */
+	rotation?: ParticleRange;
+	/** Rotation speed in radians per second. Defaults to 0. */
+	spin?: ParticleRange;
+	/** Size multiplier of the sprite over life. Defaults to 1. */
+	scale?: ParticleCurve;
+	/** Opacity from 0 to 1 over life. Defaults to 1. */
+	alpha?: ParticleCurve;
+	/** Tint as 0xRRGGBB over life, interpolated per channel. Defaults to white. */
+	color?: number | number[];
+}
+
+/**
+ * Particles as parallel arrays, read by Renderer.drawParticles(). Entries past count are unused.
+ */
+export interface ParticleData {
+	readonly count: number;
+	/** Center position */
+	readonly positionX: Float32Array;
+	readonly positionY: Float32Array;
+	/** Rotation in radians */
+	readonly rotation: Float32Array;
+	/** Size multiplier of the sprite */
+	readonly scale: Float32Array;
+	/** Red, green, blue and alpha from 0 to 1, four per particle */
+	readonly color: Float32Array;
+	/** Index into the emitter's sprites */
+	readonly frame: Uint16Array;
+}
@@ -0,0 +1,12 @@
+/**
+ * Sprites resolved from the sprite lookup once, so bulk draws refer to them by index
+ * instead of looking up every sprite every frame. Create it with Engine.createSpriteTable().
+ */
+export interface SpriteTable {
+	/** Sprite lookup keys, in index order */
+	readonly keys: Array<string | number>;
+	/** spriteX, spriteY, spriteWidth, spriteHeight, offsetX and offsetY per sprite */
+	readonly regions: Float32Array;
+	/** Atlas every sprite is in, undefined for the main sprite sheet */
+	readonly atlas: string | undefined;
+}
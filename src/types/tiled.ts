@@ -0,0 +1,98 @@
+import type { SpriteLookup } from '../types';
+import type { TilemapOptions } from './tilemap';
+
+/**
+ * Custom property on a Tiled map, layer or tile
+ */
+export interface TiledProperty {
+	name: string;
+	type?: string;
+	value: unknown;
+}
+
+/**
+ * Layer of a Tiled JSON map. Object and image layers are ignored, group layers are flattened.
+ */
+export interface TiledLayer {
+	name: string;
+	type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group';
+	/** Global tile ids, or a base64 string when encoding is 'base64' */
+	data?: number[] | string;
+	encoding?: 'csv' | 'base64';
+	compression?: string;
+	width?: number;
+	height?: number;
+	visible?: boolean;
+	opacity?: number;
+	/** Present on infinite maps */
+	chunks?: unknown[];
+	/** Children of group layers */
+	layers?: TiledLayer[];
+	properties?: TiledProperty[];
+}
+
+/**
+ * Tile with extra data in a Tiled tileset
+ */
+export interface TiledTile {
+	/** Local id within the tileset */
+	id: number;
+	animation?: Array<{ tileid: number; duration: number }>;
+}
+
+/**
+ * Tileset embedded in a Tiled map
+ */
+export interface TiledTileset {
+	firstgid: number;
+	name?: string;
+	/** Set for external tilesets (.tsx / .tsj), which are not supported */
+	source?: string;
+	image?: string;
+	imagewidth?: number;
+	imageheight?: number;
+	tilewidth?: number;
+	tileheight?: number;
+	tilecount?: number;
+	columns?: number;
+	margin?: number;
+	spacing?: number;
+	tiles?: TiledTile[];
+}
+
+/**
+ * Tiled JSON map (.tmj / .json)
+ */
+export interface TiledMap {
+	width: number;
+	height: number;
+	tilewidth: number;
+	tileheight: number;
+	orientation?: string;
+	infinite?: boolean;
+	layers: TiledLayer[];
+	tilesets: TiledTileset[];
+}
+
+/**
+ * Options for the Tiled loaders
+ */
+export interface TiledParseOptions {
+	/** Atlas for every tileset, or atlas names keyed by tileset name. Defaults to the main sprite sheet. */
+	atlas?: string | Record<string, string>;
+	/** Prefix for the sprite lookup keys. Without it the keys are the global tile ids. */
+	keyPrefix?: string;
+	/** Passed on to the tilemap */
+	id?: string;
+	chunkSize?: number;
+}
+
+/**
+ * Parsed Tiled map
+ */
+export interface TiledMapResult {
+	/** Options for `new Tilemap()` */
+	map: TilemapOptions;
+	/** One sprite per tile in the map's tilesets */
+	sprites: SpriteLookup;
+}
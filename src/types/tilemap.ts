@@ -0,0 +1,47 @@
+import type { AnimationLookup } from './animation';
+
+/**
+ * One grid of tiles in a tilemap
+ */
+export interface TilemapLayer {
+	name: string;
+	/** Sprite lookup keys in row-major order, null for empty cells */
+	tiles: Array<string | number | null>;
+	/** Per-tile bits: 1 flips X, 2 flips Y, 4 turns a quarter clockwise after flipping */
+	flags?: Uint8Array;
+	/** Defaults to true */
+	visible?: boolean;
+	/** Opacity from 0 to 1. Defaults to 1. */
+	opacity?: number;
+	/** Bake the layer into cached chunks when caching is enabled. Defaults to true. */
+	static?: boolean;
+}
+
+/**
+ * Options for creating a tilemap
+ */
+export interface TilemapOptions {
+	/** Prefix of the cache ids used for baked chunks. Defaults to a unique id. */
+	id?: string;
+	/** Size in tiles */
+	width: number;
+	height: number;
+	/** Grid cell size in pixels */
+	tileWidth: number;
+	tileHeight: number;
+	/** Chunk size in tiles for baking. Defaults to 16. */
+	chunkSize?: number;
+	layers?: TilemapLayer[];
+	/** Animated tiles, keyed by the tile's sprite lookup key */
+	animations?: AnimationLookup;
+}
+
+/**
+ * Range of tiles, inclusive start and exclusive end
+ */
+export interface TileRange {
+	startColumn: number;
+	startRow: number;
+	endColumn: number;
+	endRow: number;
+}
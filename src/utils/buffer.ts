@@ -41,6 +41,72 @@ export function fillBufferWithRectangleVertices(
 	buffer[offset + 11] = y2;
 }
 
+/**
+ * Fills a vertex buffer with vertices of the specified rectangle transformed by an affine matrix.
+ * Each corner (px, py) is mapped to (a * px + c * py + e, b * px + d * py + f).
+ * @param buffer
+ * @param offset
+ * @param x
+ * @param y
+ * @param width
+ * @param height
+ * @param a
+ * @param b
+ * @param c
+ * @param d
+ * @param e
+ * @param f
+ */
+export function fillBufferWithTransformedRectangleVertices(
+	buffer: Float32Array,
+	offset: number,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	a: number,
+	b: number,
+	c: number,
+	d: number,
+	e: number,
+	f: number
+): void {
+	const x1: number = x;
+	const x2: number = x + width;
+	const y1: number = y;
+	const y2: number = y + height;
+
+	// Transformed corners: top left, top right, bottom left, bottom right
+	const tlX = a * x1 + c * y1 + e;
+	const tlY = b * x1 + d * y1 + f;
+	const trX = a * x2 + c * y1 + e;
+	const trY = b * x2 + d * y1 + f;
+	const blX = a * x1 + c * y2 + e;
+	const blY = b * x1 + d * y2 + f;
+	const brX = a * x2 + c * y2 + e;
+	const brY = b * x2 + d * y2 + f;
+
+	// Triangle 1 vertex 1
+	buffer[offset] = tlX;
+	buffer[offset + 1] = tlY;
+	// vertex 2
+	buffer[offset + 2] = trX;
+	buffer[offset + 3] = trY;
+	// vertex 3
+	buffer[offset + 4] = blX;
+	buffer[offset + 5] = blY;
+
+	// Triangle 2 vertex 1
+	buffer[offset + 6] = blX;
+	buffer[offset + 7] = blY;
+	// vertex 2
+	buffer[offset + 8] = trX;
+	buffer[offset + 9] = trY;
+	// vertex 3
+	buffer[offset + 10] = brX;
+	buffer[offset + 11] = brY;
+}
+
 /**
  * Fills a texture coordinate buffer with the specified sprite coordinates.
  * @param buffer
@@ -51,6 +117,9 @@ export function fillBufferWithRectangleVertices(
  * @param spriteHeight
  * @param spriteSheetWidth
  * @param spriteSheetHeight
+ * @param flipX - Mirror the sprite horizontally
+ * @param flipY - Mirror the sprite vertically
+ * @param quarterTurns - Number of 90 degree clockwise rotations, applied after flipping
  */
 export function fillBufferWithSpriteCoordinates(
 	buffer: Float32Array,
@@ -60,12 +129,64 @@ export function fillBufferWithSpriteCoordinates(
 	spriteWidth: number,
 	spriteHeight: number,
 	spriteSheetWidth: number,
-	spriteSheetHeight: number
+	spriteSheetHeight: number,
+	flipX = false,
+	flipY = false,
+	quarterTurns = 0
 ): void {
-	const u1: number = spriteX / spriteSheetWidth;
-	const v2: number = (spriteY + spriteHeight) / spriteSheetHeight;
-	const u2: number = (spriteX + spriteWidth) / spriteSheetWidth;
-	const v1: number = spriteY / spriteSheetHeight;
+	let u1: number = spriteX / spriteSheetWidth;
+	let v2: number = (spriteY + spriteHeight) / spriteSheetHeight;
+	let u2: number = (spriteX + spriteWidth) / spriteSheetWidth;
+	let v1: number = spriteY / spriteSheetHeight;
+
+	if (flipX) {
+		const u = u1;
+		u1 = u2;
+		u2 = u;
+	}
+
+	if (flipY) {
+		const v = v1;
+		v1 = v2;
+		v2 = v;
+	}
+
+	const turns = ((quarterTurns % 4) + 4) % 4;
+	if (turns !== 0) {
+		/*
+		 * Corners are numbered clockwise: 0 = top left, 1 = top right,
+		 * 2 = bottom right, 3 = bottom left. Rotating the image clockwise
+		 * makes each on-screen corner show the source corner one step
+		 * counter-clockwise from it, per turn.
+		 */
+		const tl = (4 - turns) % 4;
+		const tr = (5 - turns) % 4;
+		const br = (6 - turns) % 4;
+		const bl = (7 - turns) % 4;
+
+		const tlU = tl === 1 || tl === 2 ? u2 : u1;
+		const tlV = tl >= 2 ? v2 : v1;
+		const trU = tr === 1 || tr === 2 ? u2 : u1;
+		const trV = tr >= 2 ? v2 : v1;
+		const brU = br === 1 || br === 2 ? u2 : u1;
+		const brV = br >= 2 ? v2 : v1;
+		const blU = bl === 1 || bl === 2 ? u2 : u1;
+		const blV = bl >= 2 ? v2 : v1;
+
+		buffer[offset + 0] = tlU;
+		buffer[offset + 1] = tlV;
+		buffer[offset + 2] = trU;
+		buffer[offset + 3] = trV;
+		buffer[offset + 4] = blU;
+		buffer[offset + 5] = blV;
+		buffer[offset + 6] = blU;
+		buffer[offset + 7] = blV;
+		buffer[offset + 8] = trU;
+		buffer[offset + 9] = trV;
+		buffer[offset + 10] = brU;
+		buffer[offset + 11] = brV;
+		return;
+	}
 
 	buffer[offset + 0] = u1;
 	buffer[offset + 1] = v1;
@@ -81,6 +202,31 @@ export function fillBufferWithSpriteCoordinates(
 	buffer[offset + 11] = v2;
 }
 
+/**
+ * Fills a color buffer with the same RGBA color for all 6 vertices of a quad.
+ * @param buffer
+ * @param offset
+ * @param r
+ * @param g
+ * @param b
+ * @param a
+ */
+export function fillBufferWithColor(
+	buffer: Float32Array,
+	offset: number,
+	r: number,
+	g: number,
+	b: number,
+	a: number
+): void {
+	for (let i = offset; i < offset + 24; i += 4) {
+		buffer[i] = r;
+		buffer[i + 1] = g;
+		buffer[i + 2] = b;
+		buffer[i + 3] = a;
+	}
+}
+
 export function fillBufferWithLineVertices(
 	buffer: Float32Array,
 	offset: number,
@@ -90,45 +236,25 @@ export function fillBufferWithLineVertices(
 	y2: number,
 	thickness = 1
 ): void {
-	/*      o (x1, y1)
-	 *      |\  Alpha
-	 *      | \
-	 *      |  \  <-- The hypotenuse here
-	 * legA |   \     is the line we want to render.
-	 *      |    \
-	 *      |     \ Beta
-	 *      '----- o (x2, y2)
-	 *        legB
+	/*
+	 * Offset the line sideways along its normal to make it thicker. The normal comes from
+	 * the unit direction rather than an angle, so vertical lines work, and thin lines are
+	 * always drawn on the same side relative to their direction.
 	 *
-	 *  We need to calculate one of it's angles to be able
-	 *  to copy and translate the original line to make it look thicker.
-	 */
-	const legA = y1 - y2;
-	const legB = x1 - x2;
-	const alpha = Math.atan(legA / legB);
-
-	/*               |
-	 *               |--- o (xA, yA)
-	 *               |   /|\ Alpha
-	 *               |  / | \
-	 *         Beta  | /  |  \
-	 *      (x1, y1) |/   |   \
-	 * --------------*-)--+----\---->
-	 *              /|\         \
-	 *             / | \         \
-	 *            /  |  \         \
-	 *           /   |   \         '
-	 * (xD, xD) o-)--+    \          .
-	 *           \   |     \
-	 *            \  |      '    <-- This is the central line
-	 *             \          .      for which we have the cooridnates
-	 *              '
-	 *                .  <-- This is a slightly translated line
+	 *     D o------------------o C
+	 *       |                  |
+	 *       * (x1, y1) ------> * (x2, y2)
+	 *       |                  |
+	 *     A o------------------o B
 	 */
+	const length = Math.hypot(x2 - x1, y2 - y1);
+	// A line without length has no direction; treat it as horizontal
+	const directionX = length > 0 ? (x2 - x1) / length : 1;
+	const directionY = length > 0 ? (y2 - y1) / length : 0;
 
 	thickness = thickness / 2;
-	const translateX = Math.max(1, thickness) * Math.sin(alpha);
-	const translateY = Math.max(1, thickness) * Math.cos(alpha);
+	const translateX = Math.max(1, thickness) * directionY;
+	const translateY = Math.max(1, thickness) * directionX;
 
 	let xA = x1;
 	let yA = y1;
@@ -167,3 +293,45 @@ export function fillBufferWithLineVertices(
 	buffer[offset + 10] = xC;
 	buffer[offset + 11] = yC;
 }
+
+/**
+ * Fills texture coordinates for a quad from fillBufferWithLineVertices, so the sprite's width
+ * runs from the start of the line to its end and its height across the line.
+ * @param buffer
+ * @param offset
+ * @param spriteX
+ * @param spriteY
+ * @param spriteWidth
+ * @param spriteHeight
+ * @param spriteSheetWidth
+ * @param spriteSheetHeight
+ */
+export function fillBufferWithLineSpriteCoordinates(
+	buffer: Float32Array,
+	offset: number,
+	spriteX: number,
+	spriteY: number,
+	spriteWidth: number,
+	spriteHeight: number,
+	spriteSheetWidth: number,
+	spriteSheetHeight: number
+): void {
+	const u1 = spriteX / spriteSheetWidth;
+	const v1 = spriteY / spriteSheetHeight;
+	const u2 = (spriteX + spriteWidth) / spriteSheetWidth;
+	const v2 = (spriteY + spriteHeight) / spriteSheetHeight;
+
+	// A, B, C, then D, A, C: the top of the sprite is on the D-C side
+	buffer[offset] = u1;
+	buffer[offset + 1] = v2;
+	buffer[offset + 2] = u2;
+	buffer[offset + 3] = v2;
+	buffer[offset + 4] = u2;
+	buffer[offset + 5] = v1;
+	buffer[offset + 6] = u1;
+	buffer[offset + 7] = v1;
+	buffer[offset + 8] = u1;
+	buffer[offset + 9] = v2;
+	buffer[offset + 10] = u2;
+	buffer[offset + 11] = v1;
+}
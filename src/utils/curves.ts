@@ -0,0 +1,130 @@
+/**
+ * Segment count for a curve whose control points span this distance
+ */
+function getCurveSegments(length: number): number {
+	return Math.min(64, Math.max(4, Math.ceil(length / 8)));
+}
+
+/**
+ * Points along a quadratic Bezier curve, including both end points
+ *
+ * @param x1 - Start X
+ * @param y1 - Start Y
+ * @param cx - Control point X
+ * @param cy - Control point Y
+ * @param x2 - End X
+ * @param y2 - End Y
+ * @param segments - Straight segments. Defaults to a count based on the curve's length.
+ * @param out - Array to append x, y pairs to
+ */
+export function getQuadraticBezierPoints(
+	x1: number,
+	y1: number,
+	cx: number,
+	cy: number,
+	x2: number,
+	y2: number,
+	segments?: number,
+	out: number[] = []
+): number[] {
+	const steps = segments ?? getCurveSegments(Math.hypot(cx - x1, cy - y1) + Math.hypot(x2 - cx, y2 - cy));
+	for (let i = 0; i <= steps; i++) {
+		const t = i / steps;
+		const u = 1 - t;
+		out.push(u * u * x1 + 2 * u * t * cx + t * t * x2, u * u * y1 + 2 * u * t * cy + t * t * y2);
+	}
+	return out;
+}
+
+/**
+ * Points along a cubic Bezier curve, including both end points
+ *
+ * @param x1 - Start X
+ * @param y1 - Start Y
+ * @param cx1 - First control point X
+ * @param cy1 - First control point Y
+ * @param cx2 - Second control point X
+ * @param cy2 - Second control point Y
+ * @param x2 - End X
+ * @param y2 - End Y
+ * @param segments - Straight segments. Defaults to a count based on the curve's length.
+ * @param out - Array to append x, y pairs to
+ */
+export function getCubicBezierPoints(
+	x1: number,
+	y1: number,
+	cx1: number,
+	cy1: number,
+	cx2: number,
+	cy2: number,
+	x2: number,
+	y2: number,
+	segments?: number,
+	out: number[] = []
+): number[] {
+	const steps =
+		segments ??
+		getCurveSegments(Math.hypot(cx1 - x1, cy1 - y1) + Math.hypot(cx2 - cx1, cy2 - cy1) + Math.hypot(x2 - cx2, y2 - cy2));
+	for (let i = 0; i <= steps; i++) {
+		const t = i / steps;
+		const u = 1 - t;
+		const a = u * u * u;
+		const b = 3 * u * u * t;
+		const c = 3 * u * t * t;
+		const d = t * t * t;
+		out.push(a * x1 + b * cx1 + c * cx2 + d * x2, a * y1 + b * cy1 + c * cy2 + d * y2);
+	}
+	return out;
+}
+
+/**
+ * Points along a Catmull-Rom spline, a smooth curve through every given point
+ *
+ * @param points - x, y pairs to pass through
+ * @param segments - Straight segments per span between two points. Defaults to a count based on each span's length.
+ * @param closed - Continue from the last point back to the first. The first point is not repeated at the end.
+ * @param out - Array to append x, y pairs to
+ */
+export function getCatmullRomPoints(
+	points: ArrayLike<number>,
+	segments?: number,
+	closed: boolean = false,
+	out: number[] = []
+): number[] {
+	const count = Math.floor(points.length / 2);
+	if (count < 3) {
+		// Nothing to smooth
+		for (let i = 0; i < count * 2; i++) {
+			out.push(points[i]);
+		}
+		return out;
+	}
+
+	// Open splines repeat their end points so the curve reaches them
+	const index = (i: number): number => (closed ? (i + count) % count : Math.max(0, Math.min(count - 1, i))) * 2;
+	const spans = closed ? count : count - 1;
+	out.push(points[0], points[1]);
+
+	for (let span = 0; span < spans; span++) {
+		const p0 = index(span - 1);
+		const p1 = index(span);
+		const p2 = index(span + 1);
+		const p3 = index(span + 2);
+		const steps = segments ?? getCurveSegments(Math.hypot(points[p2] - points[p1], points[p2 + 1] - points[p1 + 1]));
+		const last = closed && span === spans - 1 ? steps - 1 : steps;
+		for (let i = 1; i <= last; i++) {
+			const t = i / steps;
+			const t2 = t * t;
+			const t3 = t2 * t;
+			out.push(
+				catmullRom(points[p0], points[p1], points[p2], points[p3], t, t2, t3),
+				catmullRom(points[p0 + 1], points[p1 + 1], points[p2 + 1], points[p3 + 1], t, t2, t3)
+			);
+		}
+	}
+	return out;
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number, t2: number, t3: number): number {
+	return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+}
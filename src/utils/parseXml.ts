@@ -0,0 +1,59 @@
+/**
+ * Element read by parseXml()
+ */
+export interface XmlElement {
+	name: string;
+	attributes: Record<string, string>;
+	children: XmlElement[];
+	text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(value: string): string {
+	return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
+}
+
+/**
+ * Minimal XML reader for asset files (TMX maps, BMFont descriptors): elements, attributes
+ * and text. Skips declarations, comments and CDATA markers. No DOM is needed, so it also
+ * works in workers and tests.
+ *
+ * @param xml - XML document
+ * @param kind - File kind used in error messages, e.g. 'TMX file'
+ * @returns The root element
+ * @throws Error if tags are not properly nested
+ */
+export function parseXml(xml: string, kind: string): XmlElement {
+	const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+	const stack: XmlElement[] = [root];
+	const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+	const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+	for (const match of xml.matchAll(tagPattern)) {
+		const [, cdata, closing, name, attributeText, selfClosing, text] = match;
+		const current = stack[stack.length - 1];
+		if (cdata !== undefined || text !== undefined) {
+			current.text += cdata ?? decodeXmlEntities(text);
+		} else if (closing) {
+			if (current.name !== name) {
+				throw new Error(`Malformed ${kind}: </${name}> does not close <${current.name}>.`);
+			}
+			stack.pop();
+		} else if (name !== undefined) {
+			const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+			for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(attributePattern)) {
+				element.attributes[key] = decodeXmlEntities(doubleQuoted ?? singleQuoted);
+			}
+			current.children.push(element);
+			if (!selfClosing) {
+				stack.push(element);
+			}
+		}
+	}
+
+	if (stack.length !== 1 || root.children.length !== 1) {
+		throw new Error(`Malformed ${kind}: expected a single, closed root element.`);
+	}
+	return root.children[0];
+}
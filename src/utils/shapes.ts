@@ -0,0 +1,168 @@
+import type { PolylineOptions } from '../types';
+
+/**
+ * Segment count for a full circle that looks round at this radius
+ */
+export function getDefaultSegments(radius: number): number {
+	return Math.min(96, Math.max(12, Math.ceil(Math.abs(radius) / 2)));
+}
+
+/**
+ * Turn a polyline into triangles, with joins between segments and caps at open ends.
+ * Mitered corners share their edge points, so segments meet without gaps or overlaps.
+ *
+ * @param points - x, y pairs; repeated points are skipped
+ * @param thickness - Line width
+ * @param options - Join, cap, miter limit, round segment count and whether the line is closed
+ * @param out - Receives x, y pairs, three per triangle (cleared first)
+ * @returns Number of triangles written
+ */
+export function tessellatePolyline(
+	points: ArrayLike<number>,
+	thickness: number,
+	options: PolylineOptions | undefined,
+	out: number[]
+): number {
+	out.length = 0;
+
+	// Points without repeats, which have no direction
+	const xs: number[] = [];
+	const ys: number[] = [];
+	for (let i = 0; i + 1 < points.length; i += 2) {
+		const last = xs.length - 1;
+		if (last < 0 || points[i] !== xs[last] || points[i + 1] !== ys[last]) {
+			xs.push(points[i]);
+			ys.push(points[i + 1]);
+		}
+	}
+	const closed = options?.closed === true && xs.length > 2;
+	if (closed && xs[0] === xs[xs.length - 1] && ys[0] === ys[ys.length - 1]) {
+		xs.pop();
+		ys.pop();
+	}
+	const count = xs.length;
+	if (count < 2 || !(thickness > 0)) {
+		return 0;
+	}
+
+	const half = thickness / 2;
+	const join = options?.join ?? 'miter';
+	const cap = options?.cap ?? 'butt';
+	const miterLimit = options?.miterLimit ?? 4;
+	const circleSegments = options?.segments ?? getDefaultSegments(half);
+
+	// Unit direction of each segment; its normal is (-dy, dx)
+	const segmentCount = closed ? count : count - 1;
+	const dx: number[] = [];
+	const dy: number[] = [];
+	for (let s = 0; s < segmentCount; s++) {
+		const next = (s + 1) % count;
+		const length = Math.hypot(xs[next] - xs[s], ys[next] - ys[s]);
+		dx.push((xs[next] - xs[s]) / length);
+		dy.push((ys[next] - ys[s]) / length);
+	}
+
+	// Left (+normal) and right edge points at the start and end of each segment
+	const edges = new Array<number>(segmentCount * 8);
+	const setEdge = (segment: number, end: number, x: number, y: number, offsetX: number, offsetY: number): void => {
+		const i = segment * 8 + end * 4;
+		edges[i] = x + offsetX;
+		edges[i + 1] = y + offsetY;
+		edges[i + 2] = x - offsetX;
+		edges[i + 3] = y - offsetY;
+	};
+
+	for (let k = 0; k < count; k++) {
+		const x = xs[k];
+		const y = ys[k];
+		const incoming = closed ? (k + segmentCount - 1) % segmentCount : k - 1;
+		const outgoing = closed || k < count - 1 ? k : -1;
+
+		if (incoming < 0 || outgoing < 0) {
+			// Open end: cap it
+			const s = incoming < 0 ? outgoing : incoming;
+			const direction = incoming < 0 ? -1 : 1;
+			const extend = cap === 'square' ? half * direction : 0;
+			setEdge(s, incoming < 0 ? 0 : 1, x + dx[s] * extend, y + dy[s] * extend, -dy[s] * half, dx[s] * half);
+			if (cap === 'round') {
+				// Half circle from the left edge at the start (right edge at the end) around the outside
+				addFan(out, x, y, -dy[s] * half * -direction, dx[s] * half * -direction, Math.PI, Math.ceil(circleSegments / 2));
+			}
+			continue;
+		}
+
+		const inX = -dy[incoming];
+		const inY = dx[incoming];
+		const outX = -dy[outgoing];
+		const outY = dx[outgoing];
+		const cross = dx[incoming] * dy[outgoing] - dy[incoming] * dx[outgoing];
+		const dot = inX * outX + inY * outY;
+
+		// The miter runs along the average of the two normals
+		let miterX = inX + outX;
+		let miterY = inY + outY;
+		const miterLength = Math.hypot(miterX, miterY);
+		const ratio = miterLength > 1e-9 ? 2 / miterLength : Infinity;
+		if (Math.abs(cross) < 1e-9 && dot > 0) {
+			// Straight through
+			setEdge(incoming, 1, x, y, outX * half, outY * half);
+			setEdge(outgoing, 0, x, y, outX * half, outY * half);
+			continue;
+		}
+		if (join === 'miter' && ratio <= miterLimit) {
+			miterX = (miterX / miterLength) * half * ratio;
+			miterY = (miterY / miterLength) * half * ratio;
+			setEdge(incoming, 1, x, y, miterX, miterY);
+			setEdge(outgoing, 0, x, y, miterX, miterY);
+			continue;
+		}
+
+		// Bevel and round joins: each segment keeps its own square end, and the gap on the outside is filled
+		setEdge(incoming, 1, x, y, inX * half, inY * half);
+		setEdge(outgoing, 0, x, y, outX * half, outY * half);
+		// The outside of the corner is opposite the way the line turns
+		const turn = cross < 0 ? -1 : 1;
+		const side = -turn;
+		if (join === 'round') {
+			const angle = Math.acos(Math.max(-1, Math.min(1, dot))) * turn;
+			addFan(
+				out,
+				x,
+				y,
+				inX * half * side,
+				inY * half * side,
+				angle,
+				Math.max(1, Math.ceil((Math.abs(angle) / (Math.PI * 2)) * circleSegments))
+			);
+		} else {
+			out.push(x, y, x + inX * half * side, y + inY * half * side, x + outX * half * side, y + outY * half * side);
+		}
+	}
+
+	for (let s = 0; s < segmentCount; s++) {
+		const i = s * 8;
+		// (start left, end left, end right) and (start left, end right, start right)
+		out.push(edges[i], edges[i + 1], edges[i + 4], edges[i + 5], edges[i + 6], edges[i + 7]);
+		out.push(edges[i], edges[i + 1], edges[i + 6], edges[i + 7], edges[i + 2], edges[i + 3]);
+	}
+
+	return out.length / 6;
+}
+
+/**
+ * Add a triangle fan around (x, y), starting at the offset (startX, startY) and rotating by
+ * angle radians (positive is clockwise on screen)
+ */
+function addFan(out: number[], x: number, y: number, startX: number, startY: number, angle: number, steps: number): void {
+	let previousX = startX;
+	let previousY = startY;
+	for (let i = 1; i <= steps; i++) {
+		const cos = Math.cos((angle * i) / steps);
+		const sin = Math.sin((angle * i) / steps);
+		const nextX = startX * cos - startY * sin;
+		const nextY = startX * sin + startY * cos;
+		out.push(x, y, x + previousX, y + previousY, x + nextX, y + nextY);
+		previousX = nextX;
+		previousY = nextY;
+	}
+}
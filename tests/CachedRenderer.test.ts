@@ -28,9 +28,24 @@ const mockGL = {
 	ARRAY_BUFFER: 34962,
 	FLOAT: 5126,
 	STATIC_DRAW: 35044,
+	DYNAMIC_DRAW: 35048,
+	STREAM_DRAW: 35040,
 	TRIANGLES: 4,
+	SCISSOR_TEST: 3089,
+	STENCIL_TEST: 2960,
+	STENCIL_BUFFER_BIT: 1024,
+	EQUAL: 514,
+	KEEP: 7680,
+	REPLACE: 7681,
+	RENDERBUFFER: 36161,
+	DEPTH24_STENCIL8: 35056,
+	DEPTH_STENCIL_ATTACHMENT: 33306,
 	SRC_ALPHA: 770,
 	ONE_MINUS_SRC_ALPHA: 771,
+	ZERO: 0,
+	ONE: 1,
+	DST_COLOR: 774,
+	ONE_MINUS_SRC_COLOR: 769,
 	BLEND: 3042,
 	FRAGMENT_SHADER: 35632,
 	VERTEX_SHADER: 35633,
@@ -70,6 +85,7 @@ const mockGL = {
 	enableVertexAttribArray: jest.fn(),
 	bindBuffer: jest.fn(),
 	bufferData: jest.fn(),
+	bufferSubData: jest.fn(),
 	drawArrays: jest.fn(),
 	finish: jest.fn(),
 	flush: jest.fn(),
@@ -79,6 +95,17 @@ const mockGL = {
 	uniform2f: jest.fn(),
 	uniform3f: jest.fn(),
 	uniform4f: jest.fn(),
+	uniformMatrix3fv: jest.fn(),
+	scissor: jest.fn(),
+	stencilFunc: jest.fn(),
+	stencilOp: jest.fn(),
+	stencilMask: jest.fn(),
+	colorMask: jest.fn(),
+	createRenderbuffer: jest.fn(() => ({}) as WebGLRenderbuffer),
+	bindRenderbuffer: jest.fn(),
+	renderbufferStorage: jest.fn(),
+	framebufferRenderbuffer: jest.fn(),
+	deleteRenderbuffer: jest.fn(),
 	deleteShader: jest.fn(),
 	deleteProgram: jest.fn(),
 	deleteBuffer: jest.fn(),
@@ -247,6 +274,15 @@ describe('CachedRenderer', () => {
 			expect(spy).toHaveBeenCalledWith(10, 20, 30, 40, 50, 60, 70, 80);
 		});
 
+		test('should forward sprite transform options to parent drawSpriteFromCoordinates', () => {
+			const spy = jest.spyOn(Object.getPrototypeOf(Object.getPrototypeOf(renderer)), 'drawSpriteFromCoordinates');
+			const options = { rotation: Math.PI / 2, scaleX: 2 };
+
+			renderer.drawSpriteFromCoordinates(10, 20, 30, 40, 50, 60, 70, 80, options);
+
+			expect(spy).toHaveBeenCalledWith(10, 20, 30, 40, 50, 60, 70, 80, options);
+		});
+
 		test('should call parent drawLineFromCoordinates when not in cache mode', () => {
 			const spy = jest.spyOn(Object.getPrototypeOf(Object.getPrototypeOf(renderer)), 'drawLineFromCoordinates');
 
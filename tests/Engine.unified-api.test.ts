@@ -1,5 +1,7 @@
 import { Engine } from '../src/engine';
 import { Renderer } from '../src/renderer';
+import { Tilemap } from '../src/tilemap/Tilemap';
+import type { BitmapFont } from '../src/types/font';
 
 // Mock canvas and WebGL context
 const mockCanvas = {
@@ -29,10 +31,26 @@ const mockGL = {
 	TEXTURE0: 33984,
 	ARRAY_BUFFER: 34962,
 	FLOAT: 5126,
+	UNSIGNED_SHORT: 5123,
 	STATIC_DRAW: 35044,
+	DYNAMIC_DRAW: 35048,
+	STREAM_DRAW: 35040,
 	TRIANGLES: 4,
+	SCISSOR_TEST: 3089,
+	STENCIL_TEST: 2960,
+	STENCIL_BUFFER_BIT: 1024,
+	EQUAL: 514,
+	KEEP: 7680,
+	REPLACE: 7681,
+	RENDERBUFFER: 36161,
+	DEPTH24_STENCIL8: 35056,
+	DEPTH_STENCIL_ATTACHMENT: 33306,
 	SRC_ALPHA: 770,
 	ONE_MINUS_SRC_ALPHA: 771,
+	ZERO: 0,
+	ONE: 1,
+	DST_COLOR: 774,
+	ONE_MINUS_SRC_COLOR: 769,
 	BLEND: 3042,
 	FRAGMENT_SHADER: 35632,
 	VERTEX_SHADER: 35633,
@@ -42,6 +60,7 @@ const mockGL = {
 	bindTexture: jest.fn(),
 	texImage2D: jest.fn(),
 	texParameteri: jest.fn(),
+	pixelStorei: jest.fn(),
 	createFramebuffer: jest.fn(() => mockFramebuffer),
 	bindFramebuffer: jest.fn(),
 	framebufferTexture2D: jest.fn(),
@@ -71,9 +90,14 @@ const mockGL = {
 	blendFunc: jest.fn(),
 	enable: jest.fn(),
 	enableVertexAttribArray: jest.fn(),
+	disableVertexAttribArray: jest.fn(),
+	vertexAttribDivisor: jest.fn(),
+	vertexAttrib4f: jest.fn(),
 	bindBuffer: jest.fn(),
 	bufferData: jest.fn(),
+	bufferSubData: jest.fn(),
 	drawArrays: jest.fn(),
+	drawArraysInstanced: jest.fn(),
 	finish: jest.fn(),
 	flush: jest.fn(),
 	disable: jest.fn(),
@@ -82,6 +106,17 @@ const mockGL = {
 	uniform2f: jest.fn(),
 	uniform3f: jest.fn(),
 	uniform4f: jest.fn(),
+	uniformMatrix3fv: jest.fn(),
+	scissor: jest.fn(),
+	stencilFunc: jest.fn(),
+	stencilOp: jest.fn(),
+	stencilMask: jest.fn(),
+	colorMask: jest.fn(),
+	createRenderbuffer: jest.fn(() => ({}) as WebGLRenderbuffer),
+	bindRenderbuffer: jest.fn(),
+	renderbufferStorage: jest.fn(),
+	framebufferRenderbuffer: jest.fn(),
+	deleteRenderbuffer: jest.fn(),
 	deleteProgram: jest.fn(),
 	deleteBuffer: jest.fn(),
 	deleteShader: jest.fn(),
@@ -382,6 +417,1661 @@ describe('Engine - Unified API', () => {
 		});
 	});
 
+	describe('Sprite Transforms', () => {
+		test('should rotate sprites around their center and apply group offsets', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.setSpriteLookup({ needle: { x: 0, y: 0, spriteWidth: 20, spriteHeight: 10 } });
+
+			engine.startGroup(100, 50);
+			engine.drawSprite(0, 0, 'needle', undefined, undefined, { rotation: Math.PI / 2 });
+			engine.endGroup();
+
+			// Pivot is the center (110, 55); the top left corner (100, 50) rotates to (115, 45)
+			expect(renderer.vertexBuffer[0]).toBeCloseTo(115, 4);
+			expect(renderer.vertexBuffer[1]).toBeCloseTo(45, 4);
+			// Bottom right corner (120, 60) rotates to (105, 65)
+			expect(renderer.vertexBuffer[10]).toBeCloseTo(105, 4);
+			expect(renderer.vertexBuffer[11]).toBeCloseTo(65, 4);
+		});
+
+		test('should scale sprites around a custom pivot', () => {
+			const engine = new Engine(mockCanvas, { caching: true });
+			const renderer = (engine as any).renderer as Renderer;
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.setSpriteLookup({ box: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } });
+
+			engine.drawSprite(10, 10, 'box', undefined, undefined, { scaleX: 2, scaleY: 3, pivotX: 0, pivotY: 0 });
+
+			expect(renderer.vertexBuffer[0]).toBeCloseTo(10, 4);
+			expect(renderer.vertexBuffer[1]).toBeCloseTo(10, 4);
+			expect(renderer.vertexBuffer[10]).toBeCloseTo(30, 4);
+			expect(renderer.vertexBuffer[11]).toBeCloseTo(40, 4);
+		});
+	});
+
+	describe('Transform Stack', () => {
+		const lookup = { box: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } };
+
+		test('should rotate and scale draws around the pushed origin', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.pushTransform();
+			engine.translate(100, 100);
+			engine.rotate(Math.PI / 2);
+			engine.scale(2);
+			engine.drawSprite(0, 0, 'box');
+			engine.popTransform();
+
+			// (10, 0) -> scaled (20, 0) -> rotated (0, 20) -> translated (100, 120)
+			expect(renderer.vertexBuffer[2]).toBeCloseTo(100, 4);
+			expect(renderer.vertexBuffer[3]).toBeCloseTo(120, 4);
+			// (10, 10) -> (20, 20) -> (-20, 20) -> (80, 120)
+			expect(renderer.vertexBuffer[10]).toBeCloseTo(80, 4);
+			expect(renderer.vertexBuffer[11]).toBeCloseTo(120, 4);
+			expect(renderer.transform).toEqual([1, 0, 0, 1, 0, 0]);
+		});
+
+		test('should compose per-sprite rotation with the current transform', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.pushTransform();
+			engine.scale(2, 1);
+			engine.drawSprite(0, 0, 'box', undefined, undefined, { rotation: Math.PI });
+			engine.popTransform();
+
+			// The top left corner turns into the bottom right (10, 10), then x is doubled
+			expect(renderer.vertexBuffer[0]).toBeCloseTo(20, 4);
+			expect(renderer.vertexBuffer[1]).toBeCloseTo(10, 4);
+		});
+
+		test('should skew lines and cached content', () => {
+			const engine = new Engine(mockCanvas, { caching: true });
+			const renderer = (engine as any).renderer as Renderer;
+			engine.setSpriteLookup(lookup);
+			engine.cacheGroup('panel', 10, 10, () => {});
+			renderer.resetBuffers();
+
+			engine.pushTransform();
+			engine.skew(Math.PI / 4);
+			engine.drawLine(0, 0, 0, 10, 'box', 1);
+			engine.drawCachedContent('panel', 0, 0);
+			engine.popTransform();
+
+			// Line end (0, 10) shifts right by 10
+			expect(renderer.vertexBuffer[2]).toBeCloseTo(10, 4);
+			expect(renderer.vertexBuffer[3]).toBeCloseTo(10, 4);
+			// Cached quad bottom right (10, 10) -> (20, 10)
+			expect(renderer.vertexBuffer[12 + 10]).toBeCloseTo(20, 4);
+			expect(renderer.vertexBuffer[12 + 11]).toBeCloseTo(10, 4);
+		});
+
+		test('should keep startGroup as a translation wrapper', () => {
+			const engine = new Engine(mockCanvas);
+			engine.startGroup(5, 5);
+			engine.rotate(Math.PI / 2);
+			engine.startGroup(10, 0);
+
+			expect(engine.offsetX).toBeCloseTo(5);
+			expect(engine.offsetY).toBeCloseTo(15);
+
+			engine.endGroup();
+			engine.endGroup();
+			expect((engine as any).renderer.transform).toEqual([1, 0, 0, 1, 0, 0]);
+			expect(() => engine.endGroup()).toThrow('No group to end');
+			expect(() => engine.popTransform()).toThrow('No transform to pop');
+		});
+	});
+
+	describe('Clip Rects', () => {
+		const lookup = { box: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } };
+
+		test('should intersect nested clip rects and apply group offsets', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+
+			engine.startGroup(100, 50);
+			engine.pushClipRect(0, 0, 200, 100);
+			expect(renderer.getClipRect()).toEqual({ x: 100, y: 50, width: 200, height: 100 });
+
+			engine.pushClipRect(150, 20, 100, 100);
+			expect(renderer.getClipRect()).toEqual({ x: 250, y: 70, width: 50, height: 80 });
+
+			engine.popClipRect();
+			expect(renderer.getClipRect()).toEqual({ x: 100, y: 50, width: 200, height: 100 });
+			engine.popClipRect();
+			engine.endGroup();
+			expect(renderer.getClipRect()).toBeNull();
+			expect(() => engine.popClipRect()).toThrow('No clip rect to pop');
+		});
+
+		test('should clip to the bounding box of a rotated rect', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+
+			engine.pushTransform();
+			engine.translate(100, 100);
+			engine.rotate(Math.PI / 2);
+			engine.pushClipRect(0, 0, 40, 20);
+
+			expect(renderer.getClipRect()).toEqual({ x: 80, y: 100, width: 20, height: 40 });
+		});
+
+		test('should split batches on clip changes and set the scissor from the bottom left', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.pushClipRect(10, 20, 30, 40);
+			engine.drawSprite(0, 0, 'box');
+			engine.pushClipRect(0, 0, 100, 100); // same effective rect, keeps the batch
+			engine.drawSprite(10, 0, 'box');
+			engine.popClipRect();
+			engine.popClipRect();
+			engine.drawSprite(20, 0, 'box');
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			const triangleDraws = (mockGL.drawArrays as jest.Mock).mock.calls.filter(call => call[0] === mockGL.TRIANGLES);
+			expect(triangleDraws).toEqual([
+				[mockGL.TRIANGLES, 0, 12],
+				[mockGL.TRIANGLES, 12, 6],
+			]);
+			expect(mockGL.scissor).toHaveBeenCalledTimes(1);
+			expect(mockGL.scissor).toHaveBeenCalledWith(10, 600 - 20 - 40, 30, 40);
+			expect(mockGL.disable).toHaveBeenCalledWith(mockGL.SCISSOR_TEST);
+		});
+
+		test('should clip cached content captures in cache space', () => {
+			const engine = new Engine(mockCanvas, { caching: true });
+			engine.setSpriteLookup(lookup);
+
+			engine.pushClipRect(0, 0, 400, 300);
+			engine.cacheGroup('panel', 100, 50, () => {
+				engine.pushClipRect(0, 0, 20, 10);
+				engine.drawSprite(0, 0, 'box');
+				engine.popClipRect();
+			});
+
+			expect(mockGL.scissor).toHaveBeenCalledWith(0, 50 - 10, 20, 10);
+			expect((engine as any).renderer.getClipRect()).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+		});
+	});
+
+	describe('Masks', () => {
+		const lookup = { orb: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } };
+
+		test('should attach a stencil buffer to the render texture', () => {
+			new Engine(mockCanvas);
+
+			expect(mockGL.renderbufferStorage).toHaveBeenCalledWith(mockGL.RENDERBUFFER, mockGL.DEPTH24_STENCIL8, 800, 600);
+			expect(mockGL.framebufferRenderbuffer).toHaveBeenCalledWith(
+				mockGL.FRAMEBUFFER,
+				mockGL.DEPTH_STENCIL_ATTACHMENT,
+				mockGL.RENDERBUFFER,
+				expect.anything()
+			);
+		});
+
+		test('should draw the mask shape into the stencil, then content through it', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.startMask();
+			engine.drawSprite(0, 0, 'orb');
+			engine.startMaskedContent();
+			engine.drawSprite(0, 0, 'orb');
+			engine.drawSprite(5, 0, 'orb');
+			engine.endMask();
+			engine.drawSprite(20, 0, 'orb');
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			const triangleDraws = (mockGL.drawArrays as jest.Mock).mock.calls.filter(call => call[0] === mockGL.TRIANGLES);
+			expect(triangleDraws).toEqual([
+				[mockGL.TRIANGLES, 0, 6],
+				[mockGL.TRIANGLES, 6, 12],
+				[mockGL.TRIANGLES, 18, 6],
+			]);
+			expect(mockGL.clear).toHaveBeenCalledWith(mockGL.STENCIL_BUFFER_BIT);
+			expect((mockGL.stencilFunc as jest.Mock).mock.calls).toEqual([
+				[mockGL.EQUAL, 1, 0], // shape: write bit 1 anywhere
+				[mockGL.EQUAL, 1, 1], // content: inside bit 1
+			]);
+			expect((mockGL.colorMask as jest.Mock).mock.calls).toEqual([
+				[false, false, false, false],
+				[true, true, true, true],
+				[true, true, true, true],
+			]);
+			expect(mockGL.disable).toHaveBeenCalledWith(mockGL.STENCIL_TEST);
+		});
+
+		test('should nest masks inside their parent and support inverted content', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.startMask();
+			engine.drawSprite(0, 0, 'orb');
+			engine.startMaskedContent();
+			engine.startMask(0.9);
+			engine.drawSprite(0, 0, 'orb');
+			engine.startMaskedContent(true);
+			engine.drawSprite(0, 0, 'orb');
+			engine.endMask();
+			engine.endMask();
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			expect((mockGL.stencilFunc as jest.Mock).mock.calls).toEqual([
+				[mockGL.EQUAL, 1, 0],
+				[mockGL.EQUAL, 3, 1], // inner shape: write bit 2 inside bit 1
+				[mockGL.EQUAL, 1, 3], // inverted content: inside bit 1, outside bit 2
+			]);
+			expect(mockGL.uniform1f).toHaveBeenCalledWith(expect.anything(), 0.9);
+			expect(renderer.getMask()).toBeNull();
+		});
+
+		test('should reject unbalanced or too deeply nested masks', () => {
+			const engine = new Engine(mockCanvas);
+
+			expect(() => engine.endMask()).toThrow('No mask to end');
+			expect(() => engine.startMaskedContent()).toThrow('No mask to draw content into');
+			for (let i = 0; i < 8; i++) {
+				engine.startMask();
+			}
+			expect(() => engine.startMask()).toThrow('Masks can be nested at most 8 deep');
+		});
+	});
+
+	describe('Blend Modes', () => {
+		const lookup = { glow: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } };
+
+		test('should split batches only where the blend mode changes', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(0, 0, 'glow');
+			engine.setBlendMode('additive');
+			engine.drawSprite(0, 0, 'glow');
+			engine.drawSprite(0, 0, 'glow', undefined, undefined, { blendMode: 'additive' });
+			engine.setBlendMode('normal');
+			engine.drawSprite(0, 0, 'glow');
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			const triangleDraws = (mockGL.drawArrays as jest.Mock).mock.calls.filter(call => call[0] === mockGL.TRIANGLES);
+			expect(triangleDraws).toEqual([
+				[mockGL.TRIANGLES, 0, 6],
+				[mockGL.TRIANGLES, 6, 12],
+				[mockGL.TRIANGLES, 18, 6],
+			]);
+			expect((mockGL.blendFunc as jest.Mock).mock.calls[0]).toEqual([mockGL.ONE, mockGL.ONE]);
+			expect((mockGL.blendFunc as jest.Mock).mock.calls[1]).toEqual([mockGL.ONE, mockGL.ONE_MINUS_SRC_ALPHA]);
+		});
+
+		test('should reuse one state for consecutive per-draw blend modes', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(0, 0, 'glow', undefined, undefined, { blendMode: 'multiply' });
+			engine.drawSprite(0, 0, 'glow', undefined, undefined, { blendMode: 'multiply' });
+			engine.drawSprite(0, 0, 'glow', undefined, undefined, { blendMode: 'screen' });
+			engine.drawSprite(0, 0, 'glow', undefined, undefined, { blendMode: 'replace' });
+
+			expect(renderer.batchStates.map((state: { blendMode: string }) => state.blendMode)).toEqual([
+				'normal',
+				'multiply',
+				'screen',
+				'replace',
+			]);
+			expect(Array.from(renderer.quadStates.subarray(0, 4))).toEqual([1, 1, 2, 3]);
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			expect((mockGL.blendFunc as jest.Mock).mock.calls.slice(0, 3)).toEqual([
+				[mockGL.DST_COLOR, mockGL.ONE_MINUS_SRC_ALPHA],
+				[mockGL.ONE, mockGL.ONE_MINUS_SRC_COLOR],
+				[mockGL.ONE, mockGL.ZERO],
+			]);
+		});
+	});
+
+	describe('Atlases', () => {
+		const lookup = {
+			hero: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 },
+			tree: { x: 32, y: 0, spriteWidth: 32, spriteHeight: 32, atlas: 'world' },
+		};
+
+		test('should draw sprites from their atlas and split batches on atlas changes', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			const mainTexture = {} as WebGLTexture;
+			const worldTexture = {} as WebGLTexture;
+			(mockGL.createTexture as jest.Mock).mockReturnValueOnce(mainTexture).mockReturnValueOnce(worldTexture);
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.loadSpriteSheet('world', { width: 128, height: 256 } as HTMLCanvasElement);
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(0, 0, 'hero');
+			engine.drawSprite(0, 0, 'tree');
+			engine.drawSprite(0, 0, 'tree');
+			engine.drawSprite(0, 0, 'hero');
+
+			// UVs use the size of the sprite's own atlas
+			expect(renderer.textureCoordinateBuffer[12]).toBeCloseTo(32 / 128);
+			expect(renderer.textureCoordinateBuffer[12 + 11]).toBeCloseTo(32 / 256);
+			expect(renderer.textureCoordinateBuffer[11]).toBeCloseTo(16 / 64);
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			const triangleDraws = (mockGL.drawArrays as jest.Mock).mock.calls.filter(call => call[0] === mockGL.TRIANGLES);
+			expect(triangleDraws).toEqual([
+				[mockGL.TRIANGLES, 0, 6],
+				[mockGL.TRIANGLES, 6, 12],
+				[mockGL.TRIANGLES, 18, 6],
+			]);
+			const boundTextures = (mockGL.bindTexture as jest.Mock).mock.calls.map(call => call[1]);
+			expect(boundTextures.slice(0, 3)).toEqual([mainTexture, worldTexture, mainTexture]);
+		});
+
+		test('should return to the sprite atlas after cached content', () => {
+			const engine = new Engine(mockCanvas, { caching: true });
+			const renderer = (engine as any).renderer;
+			(mockGL.createTexture as jest.Mock).mockReturnValueOnce({} as WebGLTexture);
+			engine.loadSpriteSheet('world', { width: 128, height: 256 } as HTMLCanvasElement);
+			engine.setSpriteLookup(lookup);
+			engine.cacheGroup('panel', 10, 10, () => {});
+			renderer.resetBuffers();
+
+			engine.drawSprite(0, 0, 'tree');
+			engine.drawCachedContent('panel', 0, 0);
+			engine.drawSprite(0, 0, 'tree');
+
+			const states = Array.from(renderer.quadStates.subarray(0, 3)).map((i: number) => renderer.batchStates[i]);
+			expect(states[0].texture).toBe(renderer.atlases.get('world').texture);
+			expect(states[2].texture).toBe(states[0].texture);
+			expect(states[1]).not.toBe(states[0]);
+		});
+
+		test('should reject unknown atlases', () => {
+			const engine = new Engine(mockCanvas);
+			engine.setSpriteLookup(lookup);
+
+			expect(() => engine.drawSprite(0, 0, 'tree')).toThrow('Unknown atlas: world');
+			expect(() => engine.setAtlas('missing')).toThrow('Unknown atlas: missing');
+		});
+	});
+
+	describe('Trimmed and Rotated Sprites', () => {
+		const lookup = {
+			hero: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 12, offsetX: 2, offsetY: 2, sourceWidth: 16, sourceHeight: 16 },
+			tree: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 20, rotated: true },
+		};
+
+		test('should place trimmed sprites inside their untrimmed box', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(100, 50, 'hero');
+			engine.drawSprite(100, 50, 'hero', 32, 32);
+			engine.drawSprite(100, 50, 'hero', 32, 32, { flipX: true });
+
+			expect(spy).toHaveBeenNthCalledWith(1, 102, 52, 10, 12, 0, 0, 10, 12, undefined);
+			expect(spy).toHaveBeenNthCalledWith(2, 104, 54, 20, 24, 0, 0, 10, 12, undefined);
+			expect(spy).toHaveBeenNthCalledWith(3, 108, 54, 20, 24, 0, 0, 10, 12, { flipX: true });
+		});
+
+		test('should rotate around the untrimmed center', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(100, 50, 'hero', undefined, undefined, { rotation: Math.PI });
+
+			expect(spy).toHaveBeenCalledWith(102, 52, 10, 12, 0, 0, 10, 12, { rotation: Math.PI, pivotX: 6, pivotY: 6 });
+		});
+
+		test('should draw rotated frames upright', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(0, 0, 'tree');
+
+			// The stored region is 20x10; its top right corner is the sprite's top left
+			expect(spy).toHaveBeenCalledWith(0, 0, 10, 20, 0, 0, 20, 10, { quarterTurns: 3 });
+			expect(renderer.textureCoordinateBuffer[0]).toBeCloseTo(20 / 64);
+			expect(renderer.textureCoordinateBuffer[1]).toBeCloseTo(0);
+			expect(renderer.textureCoordinateBuffer[10]).toBeCloseTo(0);
+			expect(renderer.textureCoordinateBuffer[11]).toBeCloseTo(10 / 64);
+		});
+	});
+
+	describe('Filled Shapes', () => {
+		test('should fill a rectangle with the white texture and the tint as its color', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.fillRectangle(10, 20, 30, 40, { tint: 0xff0000, alpha: 0.5 });
+
+			expect(renderer.bufferCounter).toBe(12);
+			expect(Array.from(renderer.vertexBuffer.subarray(0, 12))).toEqual([10, 20, 40, 20, 40, 60, 10, 60, 40, 60, 10, 20]);
+			expect(Array.from(renderer.textureCoordinateBuffer.subarray(0, 12))).toEqual(new Array(12).fill(0.5));
+			expect(Array.from(renderer.colorBuffer.subarray(0, 4))).toEqual([1, 0, 0, 0.5]);
+			const state = renderer.batchStates[renderer.quadStates[0]];
+			expect(state.texture).toBe(renderer.whiteTexture);
+			expect(mockGL.texImage2D).toHaveBeenCalledWith(3553, 0, 33506, 1, 1, 0, 6408, 5121, new Uint8Array([255, 255, 255, 255]));
+		});
+
+		test('should share one batch state between shapes and return to the sprite sheet for sprites', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup({ box: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } });
+
+			engine.fillRectangle(0, 0, 10, 10);
+			engine.fillCircle(50, 50, 10);
+			engine.drawSprite(0, 0, 'box');
+
+			const quadCount = renderer.bufferCounter / 12;
+			const textures = Array.from(renderer.quadStates.subarray(0, quadCount)).map(
+				(i: number) => renderer.batchStates[i].texture
+			);
+			expect(new Set(textures.slice(0, -1))).toEqual(new Set([renderer.whiteTexture]));
+			expect(textures[quadCount - 1]).toBeNull();
+		});
+
+		test('should fan circles from the center, two triangles per quad', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.fillCircle(100, 100, 10, { segments: 5 });
+
+			// 5 triangles fill 3 quads; the last one pairs with a zero-area triangle
+			expect(renderer.bufferCounter).toBe(36);
+			const vertices = Array.from(renderer.vertexBuffer.subarray(0, 36)) as number[];
+			expect(vertices.slice(0, 4)).toEqual([100, 100, 110, 100]);
+			expect(vertices[4]).toBeCloseTo(100 + 10 * Math.cos((Math.PI * 2) / 5));
+			expect(vertices[5]).toBeCloseTo(100 + 10 * Math.sin((Math.PI * 2) / 5));
+			expect(vertices[28]).toBeCloseTo(110);
+			expect(vertices[29]).toBeCloseTo(100);
+			expect(vertices.slice(30)).toEqual([100, 100, 100, 100, 100, 100]);
+		});
+
+		test('should pick more segments for larger circles', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.fillCircle(0, 0, 4);
+			const small = renderer.bufferCounter;
+			renderer.resetBuffers();
+			engine.fillEllipse(0, 0, 100, 40);
+
+			expect(small).toBe(6 * 12);
+			expect(renderer.bufferCounter).toBe(25 * 12);
+		});
+
+		test('should fill arcs as pie slices or ring segments', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.fillArc(0, 0, 20, 0, Math.PI / 2, { segments: 8 });
+			expect(renderer.bufferCounter).toBe(12);
+			const slice = Array.from(renderer.vertexBuffer.subarray(0, 12)) as number[];
+			expect(slice.slice(0, 4)).toEqual([0, 0, 20, 0]);
+			expect(slice[10]).toBeCloseTo(0);
+			expect(slice[11]).toBeCloseTo(20);
+
+			renderer.resetBuffers();
+			engine.fillArc(0, 0, 20, 0, Math.PI, { segments: 4, innerRadius: 10 });
+			// Two segments, each a band of two triangles
+			expect(renderer.bufferCounter).toBe(24);
+			const ring = Array.from(renderer.vertexBuffer.subarray(0, 12)) as number[];
+			expect(ring.slice(0, 4)).toEqual([10, 0, 20, 0]);
+			expect(ring[10]).toBeCloseTo(0);
+			expect(ring[11]).toBeCloseTo(10);
+		});
+
+		test('should fan convex polygons from the first corner', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.fillPolygon([0, 0, 10, 0, 15, 10, 5, 15, -5, 10]);
+
+			expect(renderer.bufferCounter).toBe(24);
+			expect(Array.from(renderer.vertexBuffer.subarray(0, 18))).toEqual([
+				0, 0, 10, 0, 15, 10, 0, 0, 15, 10, 5, 15, 0, 0, 5, 15, -5, 10,
+			]);
+			expect(() => engine.fillPolygon([0, 0, 10])).toThrow('Polygon points must be x, y pairs (got 3 numbers).');
+			engine.fillPolygon([0, 0, 10, 10]);
+			expect(renderer.bufferCounter).toBe(24);
+		});
+
+		test('should draw triangle lists through the current transform', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.pushTransform();
+			engine.translate(100, 50);
+			engine.scale(2);
+			engine.fillTriangles(new Float32Array([0, 0, 10, 0, 0, 10, 10, 0, 10, 10, 0, 10]), { layer: 3 });
+			engine.popTransform();
+
+			expect(Array.from(renderer.vertexBuffer.subarray(0, 12))).toEqual([100, 50, 120, 50, 100, 70, 120, 50, 120, 70, 100, 70]);
+			expect(renderer.quadLayers[0]).toBe(3);
+			expect(() => engine.fillTriangles([0, 0, 1, 1])).toThrow(
+				'Triangle vertices must be x, y pairs, three per triangle (got 4 numbers).'
+			);
+		});
+	});
+
+	describe('Line Patterns', () => {
+		const lookup = { rail: { x: 100, y: 50, spriteWidth: 8, spriteHeight: 4 } };
+
+		function drawLinePieces(draw: (engine: Engine) => void): number[][] {
+			const engine = new Engine(mockCanvas);
+			engine.setSpriteLookup(lookup);
+			const spy = jest.spyOn((engine as any).renderer, 'drawLineFromCoordinates');
+			draw(engine);
+			return spy.mock.calls.map(call => (call as number[]).slice(0, 8).map(v => Math.round(v * 1000) / 1000));
+		}
+
+		test('should stretch the sprite over the line in one quad by default', () => {
+			expect(drawLinePieces(engine => engine.drawLine(0, 0, 20, 0, 'rail', 2))).toEqual([[0, 0, 20, 0, 100, 50, 8, 4]]);
+		});
+
+		test('should tile the sprite at its own width, cropping the last tile', () => {
+			expect(drawLinePieces(engine => engine.drawLine(0, 0, 0, 20, 'rail', 2, { fill: 'tile' }))).toEqual([
+				[0, 0, 0, 8, 100, 50, 8, 4],
+				[0, 8, 0, 16, 100, 50, 8, 4],
+				[0, 16, 0, 20, 100, 50, 4, 4],
+			]);
+		});
+
+		test('should draw dashes and skip gaps, with the offset moving the pattern', () => {
+			expect(drawLinePieces(engine => engine.drawLine(0, 0, 20, 0, 'rail', 1, { dash: [6, 4] }))).toEqual([
+				[0, 0, 6, 0, 100, 50, 2.4, 4],
+				[10, 0, 16, 0, 104, 50, 2.4, 4],
+			]);
+			expect(drawLinePieces(engine => engine.drawLine(0, 0, 20, 0, 'rail', 1, { dash: [6, 4], dashOffset: 3 }))).toEqual([
+				[0, 0, 3, 0, 100, 50, 1.2, 4],
+				[7, 0, 13, 0, 102.8, 50, 2.4, 4],
+				[17, 0, 20, 0, 106.8, 50, 1.2, 4],
+			]);
+		});
+
+		test('should swap dashes and gaps on every other repeat of an odd pattern', () => {
+			expect(drawLinePieces(engine => engine.drawLine(0, 0, 12, 0, 'rail', 1, { dash: [2, 3, 1] }))).toEqual([
+				[0, 0, 2, 0, 100, 50, 1.333, 4],
+				[5, 0, 6, 0, 103.333, 50, 0.667, 4],
+				[8, 0, 11, 0, 105.333, 50, 2, 4],
+			]);
+		});
+
+		test('should tile dashes from where the sprite left off', () => {
+			expect(
+				drawLinePieces(engine => engine.drawLine(0, 0, 20, 0, 'rail', 1, { fill: 'tile', dash: [10, 2], dashOffset: 4 }))
+			).toEqual([
+				[0, 0, 4, 0, 104, 50, 4, 4],
+				[4, 0, 6, 0, 100, 50, 2, 4],
+				[8, 0, 12, 0, 104, 50, 4, 4],
+				[12, 0, 18, 0, 100, 50, 6, 4],
+			]);
+		});
+
+		test('should continue patterns around rectangle corners', () => {
+			const pieces = drawLinePieces(engine => engine.drawRectangle(0, 0, 10, 10, 'rail', 1, { dash: [4, 4] }));
+
+			// 40 pixels of outline make five dashes, one of them split across the top right corner
+			expect(pieces.map(piece => piece.slice(0, 4))).toEqual([
+				[0, 0, 4, 0],
+				[8, 0, 10, 0],
+				[10, 0, 10, 2],
+				[10, 6, 10, 10],
+				[6, 10, 2, 10],
+				[0, 8, 0, 4],
+			]);
+		});
+
+		test('should reject dash patterns without length', () => {
+			const engine = new Engine(mockCanvas);
+			engine.setSpriteLookup(lookup);
+
+			expect(() => engine.drawLine(0, 0, 10, 0, 'rail', 1, { dash: [0, 0] })).toThrow(
+				'Dash lengths must not be negative and must add up to more than 0 (got [0, 0]).'
+			);
+			expect(() => engine.drawLine(0, 0, 10, 0, 'rail', 1, { dash: [4, -1] })).toThrow('got [4, -1]');
+		});
+	});
+
+	describe('Polylines and Curves', () => {
+		test('should draw polylines as solid triangles in the tint color', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+
+			engine.drawPolyline([0, 0, 10, 0], 2, { tint: 0x00ff00 });
+
+			expect(renderer.bufferCounter).toBe(12);
+			expect(Array.from(renderer.vertexBuffer.subarray(0, 12))).toEqual([0, 1, 10, 1, 10, -1, 0, 1, 10, -1, 0, -1]);
+			expect(Array.from(renderer.colorBuffer.subarray(0, 4))).toEqual([0, 1, 0, 1]);
+			expect(renderer.batchStates[renderer.quadStates[0]].texture).toBe(renderer.whiteTexture);
+		});
+
+		test('should draw curves through their end points', () => {
+			const engine = new Engine(mockCanvas);
+			// The points array is reused, so copy it on each call
+			const calls: Array<[number[], number, unknown]> = [];
+			jest.spyOn(engine, 'drawPolyline').mockImplementation((points, thickness, options) => {
+				calls.push([Array.from(points), thickness!, options]);
+			});
+
+			engine.drawQuadraticCurve(0, 0, 10, 10, 20, 0, 2, { curveSegments: 2 });
+			engine.drawBezierCurve(0, 0, 0, 30, 30, 30, 30, 0, 1, { curveSegments: 1 });
+			engine.drawSpline([0, 0, 10, 10, 20, 0], 1, { curveSegments: 4, closed: true });
+
+			expect(calls[0][0]).toEqual([0, 0, 10, 5, 20, 0]);
+			expect(calls[0][1]).toBe(2);
+			expect(calls[1][0]).toEqual([0, 0, 30, 0]);
+			expect(calls[2][0].length).toBe(12 * 2);
+			expect(calls[2][2]).toMatchObject({ closed: true });
+		});
+	});
+
+	describe('Nine-Slice', () => {
+		const lookup = {
+			panel: { x: 0, y: 0, spriteWidth: 12, spriteHeight: 12 },
+			packed: { x: 0, y: 0, spriteWidth: 12, spriteHeight: 12, rotated: true },
+		};
+
+		test('should keep corners and stretch edges and center', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+
+			engine.drawNineSlice(10, 20, 40, 30, 'panel', 4, { tint: 0xff0000 });
+
+			expect(spy).toHaveBeenCalledTimes(9);
+			expect(spy).toHaveBeenNthCalledWith(1, 10, 20, 4, 4, 0, 0, 4, 4, { tint: 0xff0000 });
+			expect(spy).toHaveBeenNthCalledWith(2, 14, 20, 32, 4, 4, 0, 4, 4, { tint: 0xff0000 });
+			expect(spy).toHaveBeenNthCalledWith(5, 14, 24, 32, 22, 4, 4, 4, 4, { tint: 0xff0000 });
+			expect(spy).toHaveBeenNthCalledWith(9, 46, 46, 4, 4, 8, 8, 4, 4, { tint: 0xff0000 });
+		});
+
+		test('should tile edges and center, cropping the last repeat', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+
+			engine.drawNineSlice(0, 0, 18, 18, 'panel', { left: 4, top: 4, right: 4, bottom: 4 }, { edges: 'tile', center: 'tile' });
+
+			// 10x10 middle area repeats a 4x4 region 3 times per axis
+			expect(spy).toHaveBeenCalledTimes(4 + 4 * 3 + 9);
+			const topEdge = spy.mock.calls.filter(call => call[1] === 0 && call[0] >= 4 && call[0] < 14);
+			expect(topEdge.map(call => call.slice(0, 8))).toEqual([
+				[4, 0, 4, 4, 4, 0, 4, 4],
+				[8, 0, 4, 4, 4, 0, 4, 4],
+				[12, 0, 2, 4, 4, 0, 2, 4],
+			]);
+			expect(spy).toHaveBeenCalledWith(12, 12, 2, 2, 4, 4, 2, 2, { edges: 'tile', center: 'tile' });
+		});
+
+		test('should skip the center and shrink corners that do not fit', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+
+			engine.drawNineSlice(0, 0, 40, 40, 'panel', 4, { center: 'none' });
+			expect(spy).toHaveBeenCalledTimes(8);
+
+			spy.mockClear();
+			engine.drawNineSlice(0, 0, 6, 40, 'panel', 4);
+			expect(spy).toHaveBeenCalledTimes(6);
+			expect(spy).toHaveBeenNthCalledWith(1, 0, 0, 3, 4, 0, 0, 4, 4, undefined);
+			expect(spy).toHaveBeenNthCalledWith(2, 3, 0, 3, 4, 8, 0, 4, 4, undefined);
+		});
+
+		test('should reject sprites rotated in their atlas', () => {
+			const engine = new Engine(mockCanvas);
+			engine.setSpriteLookup(lookup);
+
+			expect(() => engine.drawNineSlice(0, 0, 40, 40, 'packed', 4)).toThrow(
+				'Nine-slice sprite "packed" must not be rotated or trimmed in its atlas.'
+			);
+		});
+	});
+
+	describe('Text', () => {
+		test('should advance by each character width and break lines', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup({
+				i: { x: 0, y: 0, spriteWidth: 4, spriteHeight: 10 },
+				m: { x: 4, y: 0, spriteWidth: 12, spriteHeight: 10 },
+				'😀': { x: 16, y: 0, spriteWidth: 12, spriteHeight: 12 },
+			});
+
+			engine.drawText(0, 0, 'im😀\ni');
+
+			expect(spy.mock.calls.map(call => call.slice(0, 2))).toEqual([
+				[0, 0],
+				[4, 0],
+				[16, 0],
+				[0, 12],
+			]);
+		});
+
+		test('should apply per-character lookup overrides without replacing the sprite lookup', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			const lookup = { a: { x: 0, y: 0, spriteWidth: 8, spriteHeight: 8 } };
+			const bold = { a: { x: 8, y: 0, spriteWidth: 8, spriteHeight: 8 } };
+			engine.setSpriteLookup(lookup);
+
+			engine.drawText(0, 0, 'aaa', [undefined, bold]);
+
+			expect(spy.mock.calls.map(call => call[4])).toEqual([0, 8, 0]);
+			expect(engine.spriteLookup).toBe(lookup);
+		});
+	});
+
+	describe('Rich Text', () => {
+		const font: BitmapFont = {
+			lineHeight: 20,
+			base: 16,
+			glyphs: {
+				65: { x: 0, y: 0, width: 10, height: 12, xOffset: 0, yOffset: 4, xAdvance: 11 },
+				66: { x: 10, y: 0, width: 10, height: 12, xOffset: 0, yOffset: 4, xAdvance: 11 },
+			},
+			kerning: {},
+			pages: [],
+		};
+
+		test('should tint colored runs and draw icons from the sprite lookup', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup({ heart: { x: 32, y: 0, spriteWidth: 16, spriteHeight: 16 } });
+
+			engine.drawRichText(100, 50, 'A[color=#f00]B[/color][icon=heart]', font, { alpha: 0.5 });
+
+			expect(spy).toHaveBeenCalledTimes(3);
+			expect(spy).toHaveBeenNthCalledWith(1, 100, 54, 10, 12, 0, 0, 10, 12, { alpha: 0.5 });
+			expect(spy).toHaveBeenNthCalledWith(2, 111, 54, 10, 12, 10, 0, 10, 12, { alpha: 0.5, tint: 0xff0000 });
+			// The icon stands on the baseline and keeps its own colors
+			expect(spy.mock.calls[2].slice(0, 8)).toEqual([122, 50, 16, 16, 32, 0, 16, 16]);
+			expect(spy.mock.calls[2][8]).toMatchObject({ alpha: 0.5 });
+			expect(spy.mock.calls[2][8]?.tint).toBeUndefined();
+		});
+
+		test('should switch to fonts added by name', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			const small: BitmapFont = { ...font, lineHeight: 10, base: 8, glyphs: { 65: { ...font.glyphs[65], yOffset: 2 } } };
+			engine.addFonts({ body: font, small });
+
+			engine.drawRichText(0, 0, 'A[font=small]A[/font]', 'body', { baseline: 'alphabetic' });
+
+			expect(spy.mock.calls.map(call => call.slice(0, 2))).toEqual([
+				[0, -12],
+				[11, -6],
+			]);
+			expect(() => engine.drawRichText(0, 0, '[font=big]A[/font]', font)).toThrow('Unknown font: big');
+		});
+
+		test('should move waving glyphs with the effect time', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			engine.drawRichText(0, 0, '[wave=3]A[/wave]', font, { time: 0.25 });
+
+			expect(spy.mock.calls[0][1]).toBeCloseTo(4 - 3);
+		});
+	});
+
+	describe('Bitmap Fonts', () => {
+		const font: BitmapFont = {
+			lineHeight: 20,
+			base: 16,
+			glyphs: {
+				65: { x: 0, y: 0, width: 10, height: 12, xOffset: 1, yOffset: 4, xAdvance: 11 },
+				86: { x: 10, y: 0, width: 10, height: 12, xOffset: 0, yOffset: 4, xAdvance: 11 },
+				32: { x: 0, y: 0, width: 0, height: 0, xOffset: 0, yOffset: 0, xAdvance: 5 },
+				128512: { x: 20, y: 0, width: 16, height: 16, xOffset: 0, yOffset: 0, xAdvance: 17, atlas: 'emoji' },
+			},
+			kerning: { 65: { 86: -3 } },
+			pages: ['font.png'],
+		};
+
+		test('should place glyphs by offset, advance and kerning', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			engine.drawBitmapText(100, 50, 'AV A', font, { tint: 0xff0000 });
+
+			// Spaces advance without drawing a quad
+			expect(spy).toHaveBeenCalledTimes(3);
+			expect(spy).toHaveBeenNthCalledWith(1, 101, 54, 10, 12, 0, 0, 10, 12, { tint: 0xff0000 });
+			expect(spy).toHaveBeenNthCalledWith(2, 108, 54, 10, 12, 10, 0, 10, 12, { tint: 0xff0000 });
+			expect(spy.mock.calls[2][0]).toBe(100 + 11 - 3 + 11 + 5 + 1);
+		});
+
+		test('should break lines, scale and align to the baseline', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			engine.drawBitmapText(0, 100, 'A\nA', font, { scale: 2, baseline: 'alphabetic', letterSpacing: 1 });
+
+			expect(spy).toHaveBeenNthCalledWith(1, 2, 100 - 32 + 8, 20, 24, 0, 0, 10, 12, expect.anything());
+			expect(spy).toHaveBeenNthCalledWith(2, 2, 100 - 32 + 40 + 8, 20, 24, 0, 0, 10, 12, expect.anything());
+		});
+
+		test('should read astral characters as one glyph from their atlas', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			(mockGL.createTexture as jest.Mock).mockReturnValueOnce({} as WebGLTexture);
+			engine.loadSpriteSheet('emoji', { width: 64, height: 64 } as HTMLCanvasElement);
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			engine.drawBitmapText(0, 0, '😀A', font);
+
+			expect(spy).toHaveBeenCalledTimes(2);
+			expect(spy.mock.calls[1][0]).toBe(17 + 1);
+			const states = Array.from(renderer.quadStates.subarray(0, 2)).map((i: number) => renderer.batchStates[i]);
+			expect(states[0].texture).toBe(renderer.atlases.get('emoji').texture);
+			expect(states[1].texture).toBeNull();
+		});
+
+		test('should measure text as drawBitmapText draws it', () => {
+			const engine = new Engine(mockCanvas);
+
+			const metrics = engine.measureText('AV A\nA', font, { scale: 2 });
+
+			expect(metrics.width).toBe((11 - 3 + 11 + 5 + 11) * 2);
+			expect(metrics.height).toBe(80);
+		});
+
+		test('should wrap and align text inside a box', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			const layout = engine.drawTextBox(10, 20, 30, 100, 'AA A', font, {
+				align: 'right',
+				verticalAlign: 'bottom',
+				tint: 0x00ff00,
+			});
+
+			expect(layout.lines.map(line => line.text)).toEqual(['AA', 'A']);
+			expect(spy).toHaveBeenCalledTimes(3);
+			// "AA" is 22 wide, so it starts 8 from the left; two 20 pixel lines end at the bottom
+			expect(spy).toHaveBeenNthCalledWith(1, 10 + 8 + 1, 20 + 60 + 4, 10, 12, 0, 0, 10, 12, expect.anything());
+			expect(spy.mock.calls[2][0]).toBe(10 + 19 + 1);
+			expect(spy.mock.calls[2][1]).toBe(20 + 80 + 4);
+			expect(spy.mock.calls[0][8]).toMatchObject({ tint: 0x00ff00 });
+		});
+
+		test('should drop lines that do not fit in the box height', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			const layout = engine.drawTextBox(0, 0, 100, 30, 'A\nA\nA', font);
+
+			expect(layout.lines).toHaveLength(1);
+			expect(spy).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('Tinting', () => {
+		test('should write white vertex colors when no tint is given', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			engine.setSpriteLookup({ box: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } });
+
+			engine.drawSprite(0, 0, 'box');
+
+			expect(Array.from(renderer.colorBuffer.subarray(0, 24))).toEqual(new Array(24).fill(1));
+		});
+
+		test('should write tint and alpha into the color buffer of each draw', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			engine.setSpriteLookup({
+				box: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 },
+				A: { x: 10, y: 0, spriteWidth: 8, spriteHeight: 8 },
+			});
+
+			engine.drawSprite(0, 0, 'box', undefined, undefined, { tint: 0xff0000, alpha: 0.5 });
+			engine.drawLine(0, 0, 10, 10, 'box', 1, { alpha: 0.25 });
+			engine.drawText(0, 0, 'A', undefined, { tint: 0x00ff00 });
+
+			// Sprite: red at half opacity, on all 6 vertices
+			expect(Array.from(renderer.colorBuffer.subarray(0, 4))).toEqual([1, 0, 0, 0.5]);
+			expect(Array.from(renderer.colorBuffer.subarray(20, 24))).toEqual([1, 0, 0, 0.5]);
+			// Line: white at quarter opacity
+			expect(Array.from(renderer.colorBuffer.subarray(24, 28))).toEqual([1, 1, 1, 0.25]);
+			// Text glyph: green
+			expect(Array.from(renderer.colorBuffer.subarray(48, 52))).toEqual([0, 1, 0, 1]);
+		});
+
+		test('should not split cached batches when only replay alpha changes', () => {
+			const engine = new Engine(mockCanvas, { caching: true });
+			const renderer = (engine as any).renderer;
+			engine.cacheGroup('panel', 100, 100, () => {});
+
+			engine.drawCachedContent('panel', 0, 0, 0.5);
+			engine.drawCachedContent('panel', 10, 0, 0.25);
+
+			// One state for the sprite sheet, one for the cached texture
+			expect(renderer.batchStates).toHaveLength(2);
+			// Replay alpha ends up in the vertex colors of each cached quad
+			expect(renderer.colorBuffer[3]).toBe(1);
+			expect(renderer.colorBuffer[24 + 3]).toBe(0.5);
+			expect(renderer.colorBuffer[48 + 3]).toBe(0.25);
+		});
+	});
+
+	describe('Draw Layers', () => {
+		const lookup = {
+			a: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 },
+			b: { x: 10, y: 0, spriteWidth: 10, spriteHeight: 10 },
+		};
+
+		test('should draw lower layers first regardless of call order', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(1, 0, 'a', undefined, undefined, { layer: 2 });
+			engine.drawSprite(2, 0, 'b', undefined, undefined, { layer: 1 });
+			engine.setLayer(1);
+			engine.drawSprite(3, 0, 'a');
+			engine.setLayer(0);
+			engine.drawSprite(4, 0, 'b', undefined, undefined, { tint: 0xff0000 });
+
+			const order = renderer.sortQuads();
+
+			expect(Array.from(order)).toEqual([3, 1, 2, 0]);
+			expect([0, 1, 2, 3].map(i => renderer.vertexBuffer[i * 12])).toEqual([4, 2, 3, 1]);
+			// Colors travel with their quads
+			expect(Array.from(renderer.colorBuffer.subarray(0, 4))).toEqual([1, 0, 0, 1]);
+		});
+
+		test('should skip sorting when every quad is on the same layer', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(0, 0, 'a', undefined, undefined, { layer: 3 });
+			engine.drawSprite(0, 0, 'b', undefined, undefined, { layer: 3 });
+
+			expect(renderer.sortQuads()).toBeNull();
+		});
+
+		test('should sort by bottom edge within a layer when sortByY is enabled', () => {
+			const engine = new Engine(mockCanvas, { sortByY: true });
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+
+			engine.drawSprite(0, 50, 'a');
+			engine.drawSprite(0, 10, 'b', undefined, 30); // bottom edge at 40
+			engine.drawSprite(0, 0, 'a', undefined, undefined, { layer: -1 });
+
+			expect(engine.sortByY).toBe(true);
+			expect(Array.from(renderer.sortQuads())).toEqual([2, 1, 0]);
+		});
+
+		test('should keep cached quads in layer order with sprite sheet draws', () => {
+			const engine = new Engine(mockCanvas, { caching: true });
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			// Create the cache without drawing it this frame
+			renderer.cacheGroup('panel', 100, 100, () => {});
+
+			engine.setLayer(1);
+			engine.drawCachedContent('panel', 0, 0);
+			engine.setLayer(0);
+			engine.drawSprite(0, 0, 'a');
+			engine.drawSprite(0, 0, 'b');
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			const triangleDraws = (mockGL.drawArrays as jest.Mock).mock.calls.filter(call => call[0] === mockGL.TRIANGLES);
+			expect(triangleDraws).toEqual([
+				[mockGL.TRIANGLES, 0, 12], // both sprite sheet quads
+				[mockGL.TRIANGLES, 12, 6], // cached quad on top
+			]);
+		});
+	});
+
+	describe('Sprite Flipping', () => {
+		test('should swap the default size for odd quarter turns', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup({ rail: { x: 0, y: 0, spriteWidth: 32, spriteHeight: 8 } });
+
+			engine.drawSprite(0, 0, 'rail', undefined, undefined, { quarterTurns: 1 });
+			engine.drawSprite(0, 0, 'rail', undefined, undefined, { quarterTurns: 2, flipX: true });
+
+			expect(spy).toHaveBeenNthCalledWith(1, 0, 0, 8, 32, 0, 0, 32, 8, { quarterTurns: 1 });
+			expect(spy).toHaveBeenNthCalledWith(2, 0, 0, 32, 8, 0, 0, 32, 8, { quarterTurns: 2, flipX: true });
+		});
+	});
+
+	describe('Camera', () => {
+		const lookup = { a: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 10 } };
+
+		test('should apply the view matrix only to draws between startCamera and endCamera', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			engine.camera.zoom = 2;
+
+			engine.startCamera();
+			engine.drawSprite(0, 0, 'a');
+			engine.drawSprite(10, 0, 'a');
+			engine.endCamera();
+			engine.drawSprite(0, 0, 'a'); // HUD
+
+			jest.clearAllMocks();
+			renderer.renderWithPostProcessing(0);
+
+			const triangleDraws = (mockGL.drawArrays as jest.Mock).mock.calls.filter(call => call[0] === mockGL.TRIANGLES);
+			expect(triangleDraws).toEqual([
+				[mockGL.TRIANGLES, 0, 12],
+				[mockGL.TRIANGLES, 12, 6],
+			]);
+			const views = (mockGL.uniformMatrix3fv as jest.Mock).mock.calls.map(call => Array.from(call[2]));
+			expect(views[0]).toEqual(Array.from(engine.camera.getViewMatrix()));
+			expect(views[1]).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+		});
+
+		test('should convert between screen and world coordinates through the camera', () => {
+			const engine = new Engine(mockCanvas);
+			engine.camera.lookAt(1000, 500);
+
+			expect(engine.worldToScreen(1000, 500)).toEqual({ x: 400, y: 300 });
+			expect(engine.screenToWorld(0, 0)).toEqual({ x: 600, y: 200 });
+		});
+
+		test('should keep the view centered after resize', () => {
+			const engine = new Engine(mockCanvas);
+			engine.resize(400, 200);
+
+			expect(engine.worldToScreen(400, 300)).toEqual({ x: 200, y: 100 });
+		});
+	});
+
+	describe('Animations', () => {
+		const lookup = {
+			run0: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 },
+			run1: { x: 16, y: 0, spriteWidth: 16, spriteHeight: 16 },
+		};
+
+		test('should draw the current frame of an animator', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+			engine.addAnimations({ run: { frames: ['run0', 'run1'], durations: 100 } });
+
+			const animator = engine.createAnimator('run');
+			engine.drawAnimation(10, 20, animator);
+			animator.update(0.1);
+			engine.drawAnimation(10, 20, animator, 32, 32, { flipX: true });
+
+			expect(spy).toHaveBeenNthCalledWith(1, 10, 20, 16, 16, 0, 0, 16, 16, undefined);
+			expect(spy).toHaveBeenNthCalledWith(2, 10, 20, 32, 32, 16, 0, 16, 16, { flipX: true });
+		});
+
+		test('should advance created animators from the render loop until removed', () => {
+			const engine = new Engine(mockCanvas);
+			engine.setSpriteLookup(lookup);
+			engine.addAnimations({ run: { frames: ['run0', 'run1'], durations: 100 } });
+			const animator = engine.createAnimator('run');
+			const update = jest.spyOn(animator, 'update');
+			(global as any).window = { requestAnimationFrame: jest.fn() };
+
+			try {
+				engine.lastRenderStartTime = performance.now() - 100;
+				engine.render(() => {});
+				expect(update).toHaveBeenCalledTimes(1);
+				expect(update.mock.calls[0][0]).toBeGreaterThanOrEqual(0.1);
+
+				engine.removeAnimator(animator);
+				engine.render(() => {});
+				expect(update).toHaveBeenCalledTimes(1);
+			} finally {
+				delete (global as any).window;
+			}
+		});
+
+		test('should see animations added after the animator was created', () => {
+			const engine = new Engine(mockCanvas);
+			engine.addAnimations({ run: { frames: ['run0', 'run1'], durations: 100 } });
+			const animator = engine.createAnimator('run');
+			engine.addAnimations({ jump: { frames: ['run1'], durations: 100 } });
+
+			animator.play('jump');
+			expect(animator.frame).toBe('run1');
+			expect(() => engine.createAnimator('fly')).toThrow('Unknown animation: fly');
+		});
+	});
+
+	describe('Bulk Drawing', () => {
+		const lookup = {
+			grass: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 },
+			coin: { x: 16, y: 0, spriteWidth: 8, spriteHeight: 8, offsetX: 4, offsetY: 2, sourceWidth: 16, sourceHeight: 16 },
+			tree: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 32, atlas: 'world' },
+		};
+
+		function createEngine() {
+			const engine = new Engine(mockCanvas);
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.setSpriteLookup(lookup);
+			return { engine, renderer: (engine as any).renderer };
+		}
+
+		function getBuffers(renderer: any): number[][] {
+			const floats = renderer.bufferCounter;
+			return [
+				Array.from(renderer.vertexBuffer.subarray(0, floats)),
+				Array.from(renderer.textureCoordinateBuffer.subarray(0, floats)),
+				Array.from(renderer.colorBuffer.subarray(0, floats * 2)),
+			];
+		}
+
+		test('should fill the same quads as drawSprite', () => {
+			const bulk = createEngine();
+			const single = createEngine();
+			const table = bulk.engine.createSpriteTable(['grass', 'coin']);
+
+			bulk.engine.drawSprites(new Float32Array([10, 20, 0, 30, 40, 1, 50, 60, 0]), 3, table, { tint: 0x00ff00 });
+			single.engine.drawSprite(10, 20, 'grass', undefined, undefined, { tint: 0x00ff00 });
+			single.engine.drawSprite(30, 40, 'coin', undefined, undefined, { tint: 0x00ff00 });
+			single.engine.drawSprite(50, 60, 'grass', undefined, undefined, { tint: 0x00ff00 });
+
+			expect(bulk.renderer.bufferCounter).toBe(36);
+			expect(getBuffers(bulk.renderer)).toEqual(getBuffers(single.renderer));
+		});
+
+		test('should follow the current transform', () => {
+			const bulk = createEngine();
+			const single = createEngine();
+			for (const { engine } of [bulk, single]) {
+				engine.pushTransform();
+				engine.rotate(Math.PI / 6);
+				engine.translate(5, 5);
+			}
+
+			bulk.engine.drawSprites(new Int32Array([10, 20, 1]), 1, bulk.engine.createSpriteTable(['grass', 'coin']));
+			single.engine.drawSprite(10, 20, 'coin');
+
+			expect(getBuffers(bulk.renderer)[0].map(v => Math.round(v * 1e4))).toEqual(
+				getBuffers(single.renderer)[0].map(v => Math.round(v * 1e4))
+			);
+		});
+
+		test('should read a tint or alpha from each record and skip the rest of the stride', () => {
+			const { engine, renderer } = createEngine();
+			const table = engine.createSpriteTable(['grass']);
+
+			engine.drawSprites(new Int32Array([0, 0, 0, 0xff0000, 99, 5, 5, 0, 0x0000ff, 99]), 2, table, {
+				stride: 5,
+				extra: 'tint',
+				alpha: 0.5,
+			});
+			engine.drawSprites(new Float32Array([0, 0, 0, 0.25]), 1, table, { extra: 'alpha', tint: 0xffff00 });
+
+			expect(renderer.vertexBuffer[12]).toBe(5);
+			expect(Array.from(renderer.colorBuffer.subarray(0, 4))).toEqual([1, 0, 0, 0.5]);
+			expect(Array.from(renderer.colorBuffer.subarray(24, 28))).toEqual([0, 0, 1, 0.5]);
+			expect(Array.from(renderer.colorBuffer.subarray(48, 52))).toEqual([1, 1, 0, 0.25]);
+		});
+
+		test('should flush when the buffer fills up and keep the layer on every quad', () => {
+			const { engine, renderer } = createEngine();
+			renderer.growBuffer(4);
+			const flush = jest.spyOn(renderer, 'renderVertexBuffer').mockImplementation(() => {});
+			const records = new Float32Array(30);
+
+			engine.drawSprite(0, 0, 'grass');
+			engine.drawSprites(records, 10, engine.createSpriteTable(['grass']), { layer: 3 });
+
+			expect(flush).toHaveBeenCalledTimes(2);
+			expect(renderer.bufferCounter).toBe(3 * 12);
+			expect(Array.from(renderer.quadLayers.subarray(0, 3))).toEqual([3, 3, 3]);
+		});
+
+		test('should select the table atlas and reject tables that cannot be drawn in one loop', () => {
+			const { engine, renderer } = createEngine();
+			engine.loadSpriteSheet('world', { width: 128, height: 256 } as HTMLCanvasElement);
+
+			engine.drawSprites(new Float32Array([0, 0, 0]), 1, engine.createSpriteTable(['tree']));
+
+			expect(renderer.textureCoordinateBuffer[10]).toBeCloseTo(16 / 128);
+			expect(renderer.textureCoordinateBuffer[11]).toBeCloseTo(32 / 256);
+			expect(() => engine.createSpriteTable(['grass', 'ghost'])).toThrow('Unknown sprite: ghost');
+			expect(() => engine.createSpriteTable(['grass', 'tree'])).toThrow(
+				'Sprite table sprites must share one atlas ("tree" is not in the same atlas as "grass").'
+			);
+		});
+	});
+
+	describe('Particles', () => {
+		const lookup = {
+			spark: { x: 16, y: 0, spriteWidth: 8, spriteHeight: 4 },
+			smoke: { x: 0, y: 8, spriteWidth: 8, spriteHeight: 8 },
+			leaf: { x: 0, y: 0, spriteWidth: 8, spriteHeight: 8, atlas: 'world' },
+		};
+
+		test('should write centered particle quads with their sprite and color', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.setSpriteLookup(lookup);
+			const emitter = engine.createParticleEmitter({ sprites: ['spark'], lifetime: 1, scale: 2, color: 0xff0000, seed: 1 });
+			emitter.burst(1, 100, 50);
+
+			engine.drawParticles(emitter, { alpha: 0.5 });
+
+			expect(renderer.bufferCounter).toBe(12);
+			expect(Array.from(renderer.vertexBuffer.subarray(0, 12))).toEqual([92, 46, 108, 46, 92, 54, 92, 54, 108, 46, 108, 54]);
+			expect(Array.from(renderer.textureCoordinateBuffer.subarray(0, 4))).toEqual([0.25, 0, 0.375, 0]);
+			expect(Array.from(renderer.colorBuffer.subarray(0, 4))).toEqual([1, 0, 0, 0.5]);
+		});
+
+		test('should rotate particle quads around their center', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			const emitter = engine.createParticleEmitter({ sprites: ['spark'], lifetime: 1, rotation: Math.PI / 2, seed: 1 });
+			emitter.burst(1, 100, 50);
+
+			engine.drawParticles(emitter);
+
+			// Top left of the 8x4 sprite turns to the top right
+			expect(renderer.vertexBuffer[0]).toBeCloseTo(102);
+			expect(renderer.vertexBuffer[1]).toBeCloseTo(46);
+			expect(renderer.vertexBuffer[10]).toBeCloseTo(98);
+			expect(renderer.vertexBuffer[11]).toBeCloseTo(54);
+		});
+
+		test('should advance created emitters from the render loop until removed', () => {
+			const engine = new Engine(mockCanvas);
+			const emitter = engine.createParticleEmitter({ sprites: ['spark'], lifetime: 1, rate: 100 });
+			(global as any).window = { requestAnimationFrame: jest.fn() };
+
+			try {
+				engine.lastRenderStartTime = performance.now() - 100;
+				engine.render(() => {});
+				expect(emitter.count).toBeGreaterThanOrEqual(10);
+
+				engine.removeParticleEmitter(emitter);
+				const count = emitter.count;
+				engine.lastRenderStartTime = performance.now() - 100;
+				engine.render(() => {});
+				expect(emitter.count).toBe(count);
+			} finally {
+				delete (global as any).window;
+			}
+		});
+
+		test('should skip unknown sprites and require one atlas', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			const unknown = engine.createParticleEmitter({ sprites: ['spark', 'ember'], lifetime: 1 });
+			const mixed = engine.createParticleEmitter({ sprites: ['smoke', 'leaf'], lifetime: 1 });
+			unknown.burst(5);
+
+			engine.drawParticles(unknown);
+
+			expect(renderer.bufferCounter).toBe(0);
+			expect(() => engine.drawParticles(mixed)).toThrow(
+				'Particle sprites must share one atlas ("leaf" is not in the same atlas as "smoke").'
+			);
+		});
+	});
+
+	describe('Instanced Rendering', () => {
+		const lookup = {
+			grass: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 },
+			coin: { x: 16, y: 0, spriteWidth: 8, spriteHeight: 8 },
+		};
+
+		function createEngine(instancing: boolean) {
+			const engine = new Engine(mockCanvas, { instancing });
+			const renderer = (engine as any).renderer;
+			engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+			engine.setSpriteLookup(lookup);
+			// Flush once so the unit quad is uploaded before the tests count uploads
+			renderer.renderVertexBuffer();
+			return { engine, renderer };
+		}
+
+		function getUploads(): Float32Array[] {
+			return (mockGL.bufferSubData as jest.Mock).mock.calls.map(call => call[2].subarray(0, call[4]));
+		}
+
+		test('should be off by default', () => {
+			expect((new Engine(mockCanvas) as any).renderer.instancing).toBe(false);
+			expect(createEngine(true).renderer.instancing).toBe(true);
+		});
+
+		test('should rebuild the same vertices from the uploaded instances', () => {
+			const classic = createEngine(false);
+			const instanced = createEngine(true);
+			for (const { engine } of [classic, instanced]) {
+				engine.drawSprite(10, 20, 'grass');
+				engine.drawSprite(30, 40, 'coin', 24, 12, { tint: 0x336699, alpha: 0.4, flipX: true });
+				engine.drawSprite(50, 60, 'grass', undefined, undefined, { flipY: true });
+			}
+			const positions = Array.from(classic.renderer.vertexBuffer.subarray(0, 36));
+			const uvs = Array.from(classic.renderer.textureCoordinateBuffer.subarray(0, 36));
+			const colors = Array.from(classic.renderer.colorBuffer.subarray(0, 72));
+
+			jest.clearAllMocks();
+			instanced.renderer.renderVertexBuffer();
+
+			expect(mockGL.drawArraysInstanced).toHaveBeenCalledWith(mockGL.TRIANGLES, 0, 6, 3);
+			expect(mockGL.drawArrays).not.toHaveBeenCalledWith(mockGL.TRIANGLES, expect.anything(), expect.anything());
+			const uploads = getUploads();
+			expect(uploads).toHaveLength(1);
+			const floats = uploads[0];
+			const shorts = new Uint16Array(floats.buffer, floats.byteOffset, floats.length * 2);
+
+			// Expand each instance over the unit quad like the vertex shader does
+			const corners = [0, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1, 1];
+			const rebuilt: number[][] = [[], [], []];
+			for (let i = 0; i < 3; i++) {
+				const f = i * 10;
+				for (let v = 0; v < 6; v++) {
+					const cx = corners[v * 2];
+					const cy = corners[v * 2 + 1];
+					rebuilt[0].push(floats[f] + cx * floats[f + 2], floats[f + 1] + cy * floats[f + 3]);
+					rebuilt[1].push(floats[f + 4] + cx * floats[f + 6], floats[f + 5] + cy * floats[f + 7]);
+					for (let c = 0; c < 4; c++) {
+						rebuilt[2].push(shorts[f * 2 + 16 + c] / 65535);
+					}
+				}
+			}
+
+			const round = (values: number[]) => values.map(value => Math.round(value * 1e4));
+			expect(round(rebuilt[0])).toEqual(round(positions));
+			expect(round(rebuilt[1])).toEqual(round(uvs));
+			expect(round(rebuilt[2])).toEqual(round(colors));
+		});
+
+		test('should draw rotated quads from per-vertex data in their place', () => {
+			const { engine, renderer } = createEngine(true);
+			engine.drawSprite(0, 0, 'grass');
+			engine.drawSprite(0, 0, 'coin', undefined, undefined, { rotation: Math.PI / 4 });
+			engine.drawSprite(20, 0, 'grass');
+			const rotated = Array.from(renderer.vertexBuffer.subarray(12, 24));
+
+			jest.clearAllMocks();
+			renderer.renderVertexBuffer();
+
+			// The instance buffer, then texture coordinates, positions and colors of the one rotated quad
+			expect(getUploads().map(upload => upload.length)).toEqual([20, 12, 12, 24]);
+			expect(Array.from(getUploads()[2])).toEqual(rotated);
+
+			// Instance, rotated quad, instance
+			const [first, third] = (mockGL.drawArraysInstanced as jest.Mock).mock.invocationCallOrder;
+			const [second] = (mockGL.drawArrays as jest.Mock).mock.invocationCallOrder;
+			expect(first < second && second < third).toBe(true);
+			expect(mockGL.drawArrays).toHaveBeenCalledWith(mockGL.TRIANGLES, 0, 6);
+			// The second instanced run starts at the second instance
+			expect(mockGL.vertexAttribPointer).toHaveBeenCalledWith(0, 4, mockGL.FLOAT, false, 40, 40);
+		});
+
+		test('should leave the attributes reading per-vertex data after the flush', () => {
+			const { engine, renderer } = createEngine(true);
+			engine.drawSprite(0, 0, 'grass');
+
+			jest.clearAllMocks();
+			renderer.renderVertexBuffer();
+
+			const divisors = (mockGL.vertexAttribDivisor as jest.Mock).mock.calls;
+			expect(divisors.slice(-3)).toEqual([
+				[0, 0],
+				[0, 0],
+				[0, 0],
+			]);
+			expect(mockGL.vertexAttribPointer).toHaveBeenLastCalledWith(0, 4, mockGL.FLOAT, false, 0, 0);
+			expect(renderer.instanceAttributesBound).toBe(false);
+		});
+
+		test('should upload a fifth of the bytes for plain sprites', () => {
+			const classic = createEngine(false);
+			const instanced = createEngine(true);
+			const uploadedBytes = (renderer: any) => {
+				jest.clearAllMocks();
+				renderer.renderVertexBuffer();
+				return getUploads().reduce((bytes, upload) => bytes + upload.byteLength, 0);
+			};
+			for (const { engine } of [classic, instanced]) {
+				for (let i = 0; i < 100; i++) {
+					engine.drawSprite(i, i, i % 2 === 0 ? 'grass' : 'coin');
+				}
+			}
+
+			expect(uploadedBytes(classic.renderer)).toBe(100 * 192);
+			expect(uploadedBytes(instanced.renderer)).toBe(100 * 40);
+		});
+	});
+
+	describe('Buffer Uploads', () => {
+		const lookup = { grass: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 } };
+
+		function getUploadedFloats(): number[] {
+			return (mockGL.bufferSubData as jest.Mock).mock.calls.map(call => call[4]);
+		}
+
+		test('should allocate the GPU buffers once and upload only the drawn quads', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			jest.clearAllMocks();
+
+			engine.drawSprite(0, 0, 'grass');
+			engine.drawSprite(16, 0, 'grass');
+			renderer.renderVertexBuffer();
+			renderer.resetBuffers();
+
+			// Texture coordinates, positions and colors
+			expect((mockGL.bufferData as jest.Mock).mock.calls).toEqual([
+				[mockGL.ARRAY_BUFFER, renderer.textureCoordinateBuffer.byteLength, mockGL.DYNAMIC_DRAW],
+				[mockGL.ARRAY_BUFFER, renderer.vertexBuffer.byteLength, mockGL.DYNAMIC_DRAW],
+				[mockGL.ARRAY_BUFFER, renderer.colorBuffer.byteLength, mockGL.DYNAMIC_DRAW],
+			]);
+			expect(getUploadedFloats()).toEqual([24, 24, 48]);
+
+			jest.clearAllMocks();
+			engine.drawSprite(0, 0, 'grass');
+			renderer.renderVertexBuffer();
+
+			expect(mockGL.bufferData).not.toHaveBeenCalled();
+			expect(getUploadedFloats()).toEqual([12, 12, 24]);
+			expect(mockGL.bufferSubData).toHaveBeenCalledWith(mockGL.ARRAY_BUFFER, 0, renderer.vertexBuffer, 0, 12);
+		});
+
+		test('should orphan the GPU buffers before every upload when enabled', () => {
+			const engine = new Engine(mockCanvas, { orphanBuffers: true });
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			jest.clearAllMocks();
+
+			for (let frame = 0; frame < 2; frame++) {
+				engine.drawSprite(0, 0, 'grass');
+				renderer.renderVertexBuffer();
+				renderer.resetBuffers();
+			}
+
+			const usages = (mockGL.bufferData as jest.Mock).mock.calls.map(call => call[2]);
+			expect(usages).toEqual(new Array(6).fill(mockGL.STREAM_DRAW));
+			expect(getUploadedFloats()).toEqual([12, 12, 24, 12, 12, 24]);
+		});
+
+		test('should skip the copy but keep the draw call for an empty flush', () => {
+			const renderer = (new Engine(mockCanvas) as any).renderer;
+
+			renderer.renderVertexBuffer();
+
+			expect(mockGL.bufferSubData).not.toHaveBeenCalled();
+			expect(mockGL.drawArrays).toHaveBeenCalledWith(mockGL.TRIANGLES, 0, 0);
+		});
+	});
+
+	describe('Tilemaps', () => {
+		const lookup = {
+			grass: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 },
+			tree: { x: 16, y: 0, spriteWidth: 16, spriteHeight: 32 },
+			water0: { x: 0, y: 16, spriteWidth: 16, spriteHeight: 16 },
+			water1: { x: 16, y: 16, spriteWidth: 16, spriteHeight: 16 },
+		};
+
+		function createTilemap(width: number, height: number): Tilemap {
+			return new Tilemap({
+				id: 'level',
+				width,
+				height,
+				tileWidth: 16,
+				tileHeight: 16,
+				layers: [{ name: 'ground', tiles: new Array(width * height).fill('grass') }],
+				animations: { water: { frames: ['water0', 'water1'], durations: 100 } },
+			});
+		}
+
+		test('should only draw tiles inside the viewport', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+			const tilemap = createTilemap(200, 200);
+
+			engine.drawTilemap(tilemap);
+			// 800x600 canvas: 50 columns, 38 rows plus one row of margin for tall tiles
+			expect(spy).toHaveBeenCalledTimes(50 * 39);
+
+			spy.mockClear();
+			engine.camera.lookAt(1600, 1600);
+			engine.camera.zoom = 2;
+			engine.startCamera();
+			engine.drawTilemap(tilemap);
+			engine.endCamera();
+			// World (1400, 1450) to (1800, 1750) is visible: columns 87-112 and rows 90-109, plus margins
+			expect(spy).toHaveBeenCalledTimes(27 * 21);
+			expect(spy.mock.calls[0].slice(0, 2)).toEqual([86 * 16, 90 * 16]);
+		});
+
+		test('should anchor tiles at the bottom of their cell and apply flags', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+			const tilemap = new Tilemap({
+				width: 2,
+				height: 1,
+				tileWidth: 16,
+				tileHeight: 16,
+				layers: [{ name: 'trees', tiles: ['tree', 'grass'], flags: new Uint8Array([1, 6]), opacity: 0.5 }],
+			});
+
+			engine.drawTilemap(tilemap, 100, 50);
+
+			expect(spy).toHaveBeenNthCalledWith(1, 100, 34, 16, 32, 16, 0, 16, 32, {
+				flipX: true,
+				flipY: false,
+				quarterTurns: 0,
+				alpha: 0.5,
+			});
+			expect(spy).toHaveBeenNthCalledWith(2, 116, 50, 16, 16, 0, 0, 16, 16, {
+				flipX: false,
+				flipY: true,
+				quarterTurns: 1,
+				alpha: 0.5,
+			});
+		});
+
+		test('should advance tile animations once per frame', () => {
+			const engine = new Engine(mockCanvas);
+			const renderer = (engine as any).renderer as Renderer;
+			const spy = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+			engine.setSpriteLookup(lookup);
+			const tilemap = createTilemap(1, 1);
+			tilemap.setTile('ground', 0, 0, 'water');
+			const update = jest.spyOn(tilemap, 'update');
+
+			engine.drawTilemap(tilemap);
+			engine.drawTilemap(tilemap);
+
+			expect(update).toHaveBeenCalledTimes(1);
+			expect(spy.mock.calls[0][4]).toBe(0); // water0
+			expect(spy.mock.calls[0][5]).toBe(16);
+		});
+
+		test('should bake visible chunks and draw animated tiles live when caching', () => {
+			const engine = new Engine(mockCanvas, { caching: true, maxCacheItems: 100 });
+			const renderer = (engine as any).renderer;
+			engine.setSpriteLookup(lookup);
+			const tilemap = createTilemap(100, 100);
+			tilemap.setTile('ground', 1, 1, 'water');
+			const cacheGroup = jest.spyOn(renderer, 'cacheGroup');
+			const drawSprite = jest.spyOn(renderer, 'drawSpriteFromCoordinates');
+
+			engine.drawTilemap(tilemap);
+
+			// 50x39 visible tiles touch 4x3 chunks of 16x16 tiles
+			expect(cacheGroup).toHaveBeenCalledTimes(12);
+			expect(cacheGroup.mock.calls[0].slice(0, 3)).toEqual(['level:0:0,0', 256, 256]);
+			expect(cacheGroup.mock.calls[11].slice(0, 3)).toEqual(['level:0:3,2', 256, 256]);
+			// The animated tile is drawn after the baked chunks
+			expect(drawSprite.mock.calls[drawSprite.mock.calls.length - 1].slice(0, 2)).toEqual([16, 16]);
+
+			cacheGroup.mockClear();
+			engine.drawTilemap(tilemap);
+			expect(cacheGroup).not.toHaveBeenCalled();
+
+			const clearCache = jest.spyOn(renderer, 'clearCache');
+			tilemap.setTile('ground', 20, 20, 'tree');
+			engine.drawTilemap(tilemap);
+			expect(clearCache).toHaveBeenCalledWith('level:0:1,1');
+			expect(cacheGroup).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe('Background Effect Methods', () => {
 		let engine: Engine;
 
@@ -495,13 +2185,13 @@ describe('Engine - Unified API', () => {
 			const vertexAttribPointerCalls = (mockGL.vertexAttribPointer as jest.Mock).mock.calls;
 			const enableVertexAttribArrayCalls = (mockGL.enableVertexAttribArray as jest.Mock).mock.calls;
 
-			// We expect exactly 6 vertexAttribPointer calls when a background effect is set:
+			// We expect exactly 8 vertexAttribPointer calls when a background effect is set:
 			// 1 from backgroundEffectManager.render() for a_position
-			// 2 from restoreSpriteState() after background for a_position + a_texcoord
+			// 3 from restoreSpriteState() after background for a_position + a_texcoord + a_color
 			// 1 from postProcessManager.render() for a_position
-			// 2 from restoreSpriteState() after post-process for a_position + a_texcoord
-			expect(vertexAttribPointerCalls.length).toBe(6);
-			expect(enableVertexAttribArrayCalls.length).toBe(6);
+			// 3 from restoreSpriteState() after post-process for a_position + a_texcoord + a_color
+			expect(vertexAttribPointerCalls.length).toBe(8);
+			expect(enableVertexAttribArrayCalls.length).toBe(8);
 		});
 
 		test('should not restore sprite state when no background effect is set', () => {
@@ -511,14 +2201,14 @@ describe('Engine - Unified API', () => {
 			// Render with post-processing
 			renderer.renderWithPostProcessing(0);
 
-			// When no background effect is set, we should see 3 vertexAttribPointer calls:
+			// When no background effect is set, we should see 4 vertexAttribPointer calls:
 			// 1 from postProcessManager.render() for a_position
-			// 2 from restoreSpriteState() after post-process for a_position + a_texcoord
+			// 3 from restoreSpriteState() after post-process for a_position + a_texcoord + a_color
 			const vertexAttribPointerCalls = (mockGL.vertexAttribPointer as jest.Mock).mock.calls;
 
-			// Expected: 3 (1 from postProcess + 2 from final restoreSpriteState),
-			// not 4+ (which would include restoreSpriteState after background)
-			expect(vertexAttribPointerCalls.length).toBe(3);
+			// Expected: 4 (1 from postProcess + 3 from final restoreSpriteState),
+			// not 5+ (which would include restoreSpriteState after background)
+			expect(vertexAttribPointerCalls.length).toBe(4);
 		});
 
 		test('should handle attribute location -1 gracefully', () => {
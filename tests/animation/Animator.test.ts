@@ -0,0 +1,121 @@
+import { Animator } from '../../src/animation/Animator';
+import type { AnimationLookup } from '../../src/types/animation';
+
+const animations: AnimationLookup = {
+	walk: { frames: ['w0', 'w1', 'w2'], durations: 100 },
+	swing: { frames: ['s0', 's1', 's2'], durations: 100, mode: 'pingpong' },
+	attack: { frames: ['a0', 'a1', 'a2'], durations: [50, 100, 200], mode: 'once', events: { 1: 'hit' } },
+	spin: { frames: ['r0', 'r1', 'r2'], durations: 100, reverse: true, repeat: 2 },
+};
+
+describe('Animator', () => {
+	it('should loop through frames by duration', () => {
+		const animator = new Animator(animations, 'walk');
+		const frames = [];
+		for (let i = 0; i < 5; i++) {
+			frames.push(animator.frame);
+			animator.update(0.1);
+		}
+
+		expect(frames).toEqual(['w0', 'w1', 'w2', 'w0', 'w1']);
+	});
+
+	it('should ping-pong without repeating the end frames', () => {
+		const animator = new Animator(animations, 'swing');
+		const frames = [];
+		for (let i = 0; i < 6; i++) {
+			frames.push(animator.frame);
+			animator.update(0.1);
+		}
+
+		expect(frames).toEqual(['s0', 's1', 's2', 's1', 's0', 's1']);
+	});
+
+	it('should use per-frame durations and stop on the last frame in once mode', () => {
+		const animator = new Animator(animations, 'attack');
+		const onComplete = jest.fn();
+		animator.onComplete = onComplete;
+
+		animator.update(0.05);
+		expect(animator.frame).toBe('a1');
+		animator.update(0.299);
+		expect(animator.frame).toBe('a2');
+		expect(animator.finished).toBe(false);
+
+		animator.update(0.01);
+		expect(animator.frame).toBe('a2');
+		expect(animator.finished).toBe(true);
+		expect(animator.playing).toBe(false);
+		expect(onComplete).toHaveBeenCalledWith('attack');
+	});
+
+	it('should fire frame events for every frame passed in one update', () => {
+		const animator = new Animator(animations, 'attack');
+		const onEvent = jest.fn();
+		const onFrame = jest.fn();
+		animator.onEvent = onEvent;
+		animator.onFrame = onFrame;
+
+		animator.update(0.2);
+
+		expect(onFrame.mock.calls).toEqual([
+			['a0', 0],
+			['a1', 1],
+			['a2', 2],
+		]);
+		expect(onEvent).toHaveBeenCalledTimes(1);
+		expect(onEvent).toHaveBeenCalledWith('hit', 1);
+	});
+
+	it('should play in reverse and stop after the repeat count', () => {
+		const animator = new Animator(animations, 'spin');
+		const frames = [];
+		for (let i = 0; i < 8; i++) {
+			frames.push(animator.frame);
+			animator.update(0.1);
+		}
+
+		expect(frames).toEqual(['r2', 'r1', 'r0', 'r2', 'r1', 'r0', 'r0', 'r0']);
+		expect(animator.finished).toBe(true);
+	});
+
+	it('should keep progress when playing the current animation and restart on request', () => {
+		const animator = new Animator(animations, 'walk');
+		animator.update(0.1);
+
+		animator.play('walk');
+		expect(animator.frame).toBe('w1');
+
+		animator.play('walk', true);
+		expect(animator.frame).toBe('w0');
+
+		animator.play('swing');
+		expect(animator.animationId).toBe('swing');
+		expect(animator.frame).toBe('s0');
+	});
+
+	it('should not advance while paused and should respect speed', () => {
+		const animator = new Animator(animations, 'walk');
+		animator.pause();
+		animator.update(1);
+		expect(animator.frame).toBe('w0');
+
+		animator.resume();
+		animator.speed = 2;
+		animator.update(0.05);
+		expect(animator.frame).toBe('w1');
+	});
+
+	it('should reject unknown and invalid animations', () => {
+		const invalid: AnimationLookup = {
+			empty: { frames: [], durations: 100 },
+			short: { frames: ['a', 'b'], durations: [100] },
+			zero: { frames: ['a'], durations: 0 },
+		};
+
+		expect(() => new Animator(animations, 'fly')).toThrow('Unknown animation: fly');
+		expect(() => new Animator(invalid, 'empty')).toThrow('Animation "empty" has no frames.');
+		expect(() => new Animator(invalid, 'short')).toThrow('Animation "short" needs one duration, or one per frame (2).');
+		expect(() => new Animator(invalid, 'zero')).toThrow('Animation "zero" has a duration that is not a positive');
+	});
+});
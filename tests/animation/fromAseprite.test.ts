@@ -0,0 +1,19 @@
+import { animationsFromAseprite } from '../../src/animation/fromAseprite';
+
+describe('animationsFromAseprite', () => {
+	it('should map tag directions to modes and keep repeat counts', () => {
+		const lookup = animationsFromAseprite({
+			idle: { frames: ['i0', 'i1'], durations: [100, 200], direction: 'forward' },
+			back: { frames: ['b0', 'b1'], durations: [100, 100], direction: 'reverse' },
+			bob: { frames: ['p0', 'p1'], durations: [100, 100], direction: 'pingpong', repeat: 3 },
+			flap: { frames: ['f0', 'f1'], durations: [100, 100], direction: 'pingpong_reverse' },
+		});
+
+		expect(lookup).toEqual({
+			idle: { frames: ['i0', 'i1'], durations: [100, 200], mode: 'loop' },
+			back: { frames: ['b0', 'b1'], durations: [100, 100], mode: 'loop', reverse: true },
+			bob: { frames: ['p0', 'p1'], durations: [100, 100], mode: 'pingpong', repeat: 3 },
+			flap: { frames: ['f0', 'f1'], durations: [100, 100], mode: 'pingpong', reverse: true },
+		});
+	});
+});
@@ -0,0 +1,242 @@
+import { Engine } from '../../src/engine';
+import type { EngineOptions } from '../../src/types';
+
+/**
+ * Bytes the renderer sends to the GPU per frame, measured against a mock GL context.
+ * Run with UPLOAD_BENCHMARK=1 to print the table:
+ *
+ *   UPLOAD_BENCHMARK=1 npx jest tests/benchmarks
+ */
+
+// Bytes copied into GPU buffers, and bytes allocated without copying (bufferData with a size)
+const stats = { uploadedBytes: 0, allocatedBytes: 0 };
+
+const mockCanvas = {
+	width: 800,
+	height: 600,
+	getContext: jest.fn(),
+} as unknown as HTMLCanvasElement;
+
+const mockTexture = {} as WebGLTexture;
+const mockFramebuffer = {} as WebGLFramebuffer;
+
+const mockGL = {
+	// Constants
+	RGBA: 6408,
+	UNSIGNED_BYTE: 5121,
+	TEXTURE_2D: 3553,
+	LINEAR: 9729,
+	CLAMP_TO_EDGE: 33071,
+	TEXTURE_MIN_FILTER: 10241,
+	TEXTURE_MAG_FILTER: 10240,
+	TEXTURE_WRAP_S: 10242,
+	TEXTURE_WRAP_T: 10243,
+	FRAMEBUFFER: 36160,
+	COLOR_ATTACHMENT0: 36064,
+	FRAMEBUFFER_COMPLETE: 36053,
+	COLOR_BUFFER_BIT: 16384,
+	TEXTURE0: 33984,
+	ARRAY_BUFFER: 34962,
+	FLOAT: 5126,
+	UNSIGNED_SHORT: 5123,
+	STATIC_DRAW: 35044,
+	DYNAMIC_DRAW: 35048,
+	STREAM_DRAW: 35040,
+	TRIANGLES: 4,
+	SCISSOR_TEST: 3089,
+	STENCIL_TEST: 2960,
+	STENCIL_BUFFER_BIT: 1024,
+	EQUAL: 514,
+	KEEP: 7680,
+	REPLACE: 7681,
+	RENDERBUFFER: 36161,
+	DEPTH24_STENCIL8: 35056,
+	DEPTH_STENCIL_ATTACHMENT: 33306,
+	SRC_ALPHA: 770,
+	ONE_MINUS_SRC_ALPHA: 771,
+	ZERO: 0,
+	ONE: 1,
+	DST_COLOR: 774,
+	ONE_MINUS_SRC_COLOR: 769,
+	BLEND: 3042,
+	FRAGMENT_SHADER: 35632,
+	VERTEX_SHADER: 35633,
+
+	// Methods
+	createTexture: jest.fn(() => mockTexture),
+	bindTexture: jest.fn(),
+	texImage2D: jest.fn(),
+	texParameteri: jest.fn(),
+	pixelStorei: jest.fn(),
+	createFramebuffer: jest.fn(() => mockFramebuffer),
+	bindFramebuffer: jest.fn(),
+	framebufferTexture2D: jest.fn(),
+	checkFramebufferStatus: jest.fn(() => 36053),
+	deleteTexture: jest.fn(),
+	deleteFramebuffer: jest.fn(),
+	viewport: jest.fn(),
+	clear: jest.fn(),
+	activeTexture: jest.fn(),
+
+	// Base engine/renderer mocks
+	canvas: mockCanvas,
+	createShader: jest.fn(() => ({}) as WebGLShader),
+	createProgram: jest.fn(() => ({}) as WebGLProgram),
+	shaderSource: jest.fn(),
+	compileShader: jest.fn(),
+	getShaderParameter: jest.fn(() => true),
+	attachShader: jest.fn(),
+	linkProgram: jest.fn(),
+	getProgramParameter: jest.fn(() => true),
+	useProgram: jest.fn(),
+	getAttribLocation: jest.fn(() => 0),
+	getUniformLocation: jest.fn(() => ({}) as WebGLUniformLocation),
+	createBuffer: jest.fn(() => ({}) as WebGLBuffer),
+	clearColor: jest.fn(),
+	vertexAttribPointer: jest.fn(),
+	blendFunc: jest.fn(),
+	enable: jest.fn(),
+	enableVertexAttribArray: jest.fn(),
+	disableVertexAttribArray: jest.fn(),
+	vertexAttribDivisor: jest.fn(),
+	vertexAttrib4f: jest.fn(),
+	bindBuffer: jest.fn(),
+	bufferData: jest.fn((target: number, data: number | ArrayBufferView) => {
+		if (typeof data === 'number') {
+			stats.allocatedBytes += data;
+		} else {
+			stats.uploadedBytes += data.byteLength;
+		}
+	}),
+	bufferSubData: jest.fn((target: number, offset: number, data: Float32Array, srcOffset = 0, length?: number) => {
+		stats.uploadedBytes += (length ?? data.length - srcOffset) * data.BYTES_PER_ELEMENT;
+	}),
+	drawArrays: jest.fn(),
+	drawArraysInstanced: jest.fn(),
+	finish: jest.fn(),
+	flush: jest.fn(),
+	disable: jest.fn(),
+	uniform1i: jest.fn(),
+	uniform1f: jest.fn(),
+	uniform2f: jest.fn(),
+	uniform3f: jest.fn(),
+	uniform4f: jest.fn(),
+	uniformMatrix3fv: jest.fn(),
+	scissor: jest.fn(),
+	stencilFunc: jest.fn(),
+	stencilOp: jest.fn(),
+	stencilMask: jest.fn(),
+	colorMask: jest.fn(),
+	createRenderbuffer: jest.fn(() => ({}) as WebGLRenderbuffer),
+	bindRenderbuffer: jest.fn(),
+	renderbufferStorage: jest.fn(),
+	framebufferRenderbuffer: jest.fn(),
+	deleteRenderbuffer: jest.fn(),
+	deleteProgram: jest.fn(),
+	deleteBuffer: jest.fn(),
+	deleteShader: jest.fn(),
+	isEnabled: jest.fn(() => true),
+	TRIANGLE_STRIP: 5,
+	RGBA8: 33506,
+} as unknown as WebGL2RenderingContext;
+
+(mockCanvas.getContext as jest.Mock).mockReturnValue(mockGL);
+
+const lookup = {
+	grass: { x: 0, y: 0, spriteWidth: 16, spriteHeight: 16 },
+	coin: { x: 16, y: 0, spriteWidth: 8, spriteHeight: 8 },
+};
+
+type Scene = { name: string; sprites: number; draw: (engine: Engine, sprites: number) => void };
+
+const scenes: Scene[] = [
+	{ name: 'plain sprites', sprites: 500, draw: drawPlainSprites },
+	{ name: 'plain sprites', sprites: 5000, draw: drawPlainSprites },
+	{ name: 'plain sprites', sprites: 20000, draw: drawPlainSprites },
+	{ name: '1 in 10 rotated', sprites: 5000, draw: drawMixedSprites },
+];
+
+const modes: Array<{ name: string; options: EngineOptions }> = [
+	{ name: 'per-vertex', options: {} },
+	{ name: 'per-vertex, orphaned', options: { orphanBuffers: true } },
+	{ name: 'instanced', options: { instancing: true } },
+];
+
+function drawPlainSprites(engine: Engine, sprites: number): void {
+	for (let i = 0; i < sprites; i++) {
+		engine.drawSprite((i * 16) % 800, Math.floor(i / 50) % 600, i % 2 === 0 ? 'grass' : 'coin');
+	}
+}
+
+function drawMixedSprites(engine: Engine, sprites: number): void {
+	for (let i = 0; i < sprites; i++) {
+		const rotation = i % 10 === 0 ? 0.5 : 0;
+		engine.drawSprite((i * 16) % 800, Math.floor(i / 50) % 600, 'grass', undefined, undefined, { rotation });
+	}
+}
+
+/**
+ * Render two frames and return the upload stats of the second, after the GPU buffers exist
+ */
+function measureFrame(options: EngineOptions, scene: Scene): typeof stats {
+	const engine = new Engine(mockCanvas, options);
+	engine.loadSpriteSheet({ width: 64, height: 64 } as HTMLCanvasElement);
+	engine.setSpriteLookup(lookup);
+	const frames: Array<() => void> = [];
+	(global as any).window = { requestAnimationFrame: jest.fn((next: () => void) => frames.push(next)) };
+
+	try {
+		engine.render(() => scene.draw(engine, scene.sprites));
+		stats.uploadedBytes = 0;
+		stats.allocatedBytes = 0;
+		frames.shift()!();
+		return { ...stats };
+	} finally {
+		delete (global as any).window;
+	}
+}
+
+describe('Buffer upload benchmark', () => {
+	const results = scenes.flatMap(scene =>
+		modes.map(mode => ({ scene: `${scene.sprites} ${scene.name}`, mode: mode.name, ...measureFrame(mode.options, scene) }))
+	);
+	const bytesFor = (scene: string, mode: string) => results.find(row => row.scene === scene && row.mode === mode)!;
+
+	afterAll(() => {
+		if (process.env.UPLOAD_BENCHMARK) {
+			// Full buffer uploads, as before uploads were limited to the used range: 20,000 quads of 192 bytes
+			const fullBufferBytes = 20000 * 192;
+			console.table(
+				results.map(row => ({
+					scene: row.scene,
+					mode: row.mode,
+					'KiB uploaded': +(row.uploadedBytes / 1024).toFixed(1),
+					'KiB allocated': +(row.allocatedBytes / 1024).toFixed(1),
+					'vs full buffers': `${((row.uploadedBytes / fullBufferBytes) * 100).toFixed(1)}%`,
+				}))
+			);
+		}
+	});
+
+	test('should upload only the drawn quads, 192 bytes each', () => {
+		for (const sprites of [500, 5000, 20000]) {
+			const row = bytesFor(`${sprites} plain sprites`, 'per-vertex');
+			// The fullscreen post-process quad is uploaded once at startup, not per frame
+			expect(row.uploadedBytes).toBe(sprites * 192);
+			expect(row.allocatedBytes).toBe(0);
+		}
+	});
+
+	test('should reallocate every buffer it uploads to when orphaning', () => {
+		const row = bytesFor('500 plain sprites', 'per-vertex, orphaned');
+		expect(row.uploadedBytes).toBe(500 * 192);
+		// Positions, texture coordinates and colors for 20,000 quads
+		expect(row.allocatedBytes).toBe(20000 * 192);
+	});
+
+	test('should upload 40 bytes per sprite when instancing', () => {
+		expect(bytesFor('5000 plain sprites', 'instanced').uploadedBytes).toBe(5000 * 40);
+		// Rotated sprites still take 192 bytes
+		expect(bytesFor('5000 1 in 10 rotated', 'instanced').uploadedBytes).toBe(4500 * 40 + 500 * 192);
+	});
+});
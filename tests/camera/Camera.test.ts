@@ -0,0 +1,121 @@
+import { Camera } from '../../src/camera/Camera';
+
+/**
+ * Apply a column-major mat3 to a point, as the vertex shader does
+ */
+function applyMatrix(m: Float32Array, x: number, y: number): { x: number; y: number } {
+	return { x: m[0] * x + m[3] * y + m[6], y: m[1] * x + m[4] * y + m[7] };
+}
+
+describe('Camera', () => {
+	it('should start with an identity view', () => {
+		const camera = new Camera(800, 600);
+		const view = camera.getViewMatrix();
+
+		expect(applyMatrix(view, 0, 0)).toEqual({ x: 0, y: 0 });
+		expect(applyMatrix(view, 123, 45)).toEqual({ x: 123, y: 45 });
+	});
+
+	it('should put the camera position at the viewport center', () => {
+		const camera = new Camera(800, 600);
+		camera.lookAt(100, 50);
+
+		expect(camera.worldToScreen(100, 50)).toEqual({ x: 400, y: 300 });
+		expect(applyMatrix(camera.getViewMatrix(), 110, 50)).toEqual({ x: 410, y: 300 });
+	});
+
+	it('should zoom around the viewport center', () => {
+		const camera = new Camera(800, 600);
+		camera.zoom = 2;
+
+		expect(camera.worldToScreen(410, 300)).toEqual({ x: 420, y: 300 });
+	});
+
+	it('should rotate clockwise on screen for positive rotation', () => {
+		const camera = new Camera(800, 600);
+		camera.rotation = Math.PI / 2;
+
+		const point = applyMatrix(camera.getViewMatrix(), 410, 300);
+		expect(point.x).toBeCloseTo(400);
+		expect(point.y).toBeCloseTo(310);
+	});
+
+	it('should match the view matrix and invert with screenToWorld', () => {
+		const camera = new Camera(800, 600);
+		camera.lookAt(-120, 75);
+		camera.zoom = 1.5;
+		camera.rotation = 0.7;
+
+		const screen = camera.worldToScreen(33, -12);
+		const fromMatrix = applyMatrix(camera.getViewMatrix(), 33, -12);
+		expect(fromMatrix.x).toBeCloseTo(screen.x, 3);
+		expect(fromMatrix.y).toBeCloseTo(screen.y, 3);
+
+		const world = camera.screenToWorld(screen.x, screen.y);
+		expect(world.x).toBeCloseTo(33);
+		expect(world.y).toBeCloseTo(-12);
+	});
+
+	describe('follow', () => {
+		it('should snap to the target without smoothing', () => {
+			const camera = new Camera(800, 600);
+			camera.follow(1000, 2000);
+			camera.update(0.016);
+
+			expect(camera.x).toBe(1000);
+			expect(camera.y).toBe(2000);
+		});
+
+		it('should ease towards the target independent of frame rate', () => {
+			const a = new Camera(800, 600);
+			const b = new Camera(800, 600);
+			a.lookAt(0, 0);
+			b.lookAt(0, 0);
+			a.follow(100, 0, 0.5);
+			b.follow(100, 0, 0.5);
+
+			a.update(0.5);
+			for (let i = 0; i < 10; i++) {
+				b.update(0.05);
+			}
+
+			expect(a.x).toBeCloseTo(100 * (1 - Math.exp(-1)));
+			expect(b.x).toBeCloseTo(a.x);
+		});
+
+		it('should stay in place after stopFollowing', () => {
+			const camera = new Camera(800, 600);
+			camera.follow(1000, 1000, 1);
+			camera.stopFollowing();
+			camera.update(1);
+
+			expect(camera.x).toBe(400);
+			expect(camera.y).toBe(300);
+		});
+	});
+
+	describe('bounds', () => {
+		it('should keep the visible area inside the bounds', () => {
+			const camera = new Camera(800, 600);
+			camera.bounds = { x: 0, y: 0, width: 2000, height: 1000 };
+
+			camera.lookAt(-500, 5000);
+			expect(camera.x).toBe(400);
+			expect(camera.y).toBe(700);
+
+			camera.zoom = 2;
+			camera.lookAt(1900, 0);
+			expect(camera.x).toBe(1800);
+			expect(camera.y).toBe(150);
+		});
+
+		it('should center bounds smaller than the view', () => {
+			const camera = new Camera(800, 600);
+			camera.bounds = { x: 100, y: 100, width: 200, height: 200 };
+			camera.update(0);
+
+			expect(camera.x).toBe(200);
+			expect(camera.y).toBe(200);
+		});
+	});
+});
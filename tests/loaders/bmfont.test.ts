@@ -0,0 +1,79 @@
+import { parseBMFont } from '../../src/loaders/bmfont';
+import type { BMFontJson } from '../../src/types/font';
+
+const textFont = `info face="Pixel Sans" size=-16 bold=0 italic=0 charset="" unicode=1 padding=0,0,0,0 spacing=1,1
+common lineHeight=18 base=14 scaleW=128 scaleH=128 pages=1 packed=0
+page id=0 file="pixel_0.png"
+chars count=3
+char id=65   x=0   y=0   width=9   height=12  xoffset=0   yoffset=2   xadvance=10  page=0  chnl=15
+char id=86   x=10  y=0   width=9   height=12  xoffset=0   yoffset=2   xadvance=10  page=0  chnl=15
+char id=128512 x=20 y=0  width=14  height=14  xoffset=1   yoffset=1   xadvance=16  page=0  chnl=15
+kernings count=1
+kerning first=65 second=86 amount=-2
+`;
+
+const xmlFont = `<?xml version="1.0"?>
+<font>
+  <info face="Pixel &amp; Co" size="16"/>
+  <common lineHeight="18" base="14" scaleW="128" scaleH="128" pages="2" packed="0"/>
+  <pages>
+    <page id="0" file="pixel_0.png"/>
+    <page id="1" file="pixel_1.png"/>
+  </pages>
+  <chars count="2">
+    <char id="65" x="0" y="0" width="9" height="12" xoffset="0" yoffset="2" xadvance="10" page="0" chnl="15"/>
+    <char id="66" x="0" y="0" width="9" height="12" xoffset="0" yoffset="2" xadvance="10" page="1" chnl="15"/>
+  </chars>
+</font>`;
+
+describe('parseBMFont', () => {
+	it('should parse the text format', () => {
+		const font = parseBMFont(textFont, { atlas: 'ui' });
+
+		expect(font.face).toBe('Pixel Sans');
+		expect(font.size).toBe(16);
+		expect(font.lineHeight).toBe(18);
+		expect(font.base).toBe(14);
+		expect(font.pages).toEqual(['pixel_0.png']);
+		expect(font.glyphs[65]).toEqual({ x: 0, y: 0, width: 9, height: 12, xOffset: 0, yOffset: 2, xAdvance: 10, atlas: 'ui' });
+		expect(font.glyphs[128512].xAdvance).toBe(16);
+		expect(font.kerning).toEqual({ 65: { 86: -2 } });
+	});
+
+	it('should parse the XML format with one atlas per page', () => {
+		const font = parseBMFont(xmlFont, { atlas: ['pixel0', 'pixel1'] });
+
+		expect(font.face).toBe('Pixel & Co');
+		expect(font.pages).toEqual(['pixel_0.png', 'pixel_1.png']);
+		expect(font.glyphs[65].atlas).toBe('pixel0');
+		expect(font.glyphs[66].atlas).toBe('pixel1');
+		expect(font.kerning).toEqual({});
+	});
+
+	it('should parse the JSON layout', () => {
+		const json: BMFontJson = {
+			common: { lineHeight: 10, base: 8 },
+			pages: ['font.png'],
+			chars: [{ id: 97, x: 1, y: 2, width: 5, height: 6, xoffset: 0, yoffset: 2, xadvance: 6, page: 0 }],
+			kernings: [{ first: 97, second: 97, amount: 1 }],
+		};
+
+		const font = parseBMFont(json);
+		expect(font.glyphs[97]).toEqual({ x: 1, y: 2, width: 5, height: 6, xOffset: 0, yOffset: 2, xAdvance: 6 });
+		expect(font.kerning[97][97]).toBe(1);
+	});
+
+	it('should name what is wrong with invalid fonts', () => {
+		expect(() => parseBMFont('hello')).toThrow('BMFont data has no "common" block or "chars"');
+		expect(() => parseBMFont(xmlFont)).toThrow('BMFont has 2 pages. Load each page as an atlas');
+		expect(() => parseBMFont(textFont, { atlas: ['a', 'b'] })).toThrow('BMFont has 1 page(s), but 2 atlas name(s) were given.');
+		expect(() => parseBMFont(textFont.replace('xadvance=10 ', 'xadvance=x '))).toThrow(
+			'BMFont char 65 has an invalid "xadvance".'
+		);
+		expect(() => parseBMFont(textFont.replace('id=86', 'id=65'))).toThrow('BMFont char 65 appears more than once.');
+		expect(() => parseBMFont(textFont.replace(/(id=86 .*)page=0/, '$1page=3'))).toThrow(
+			'BMFont char 86 is on page 3, but the font has 1 page(s).'
+		);
+		expect(() => parseBMFont('<font><info></font>')).toThrow('Malformed BMFont file: </font> does not close <info>.');
+	});
+});
@@ -0,0 +1,169 @@
+import {
+	parseTexturePackerAtlas,
+	parseFreeTexturePackerAtlas,
+	parseAsepriteAtlas,
+} from '../../src/loaders/textureAtlas';
+import type { AtlasData } from '../../src/types/atlas';
+
+describe('Texture atlas loaders', () => {
+	describe('parseTexturePackerAtlas', () => {
+		it('should parse the hash format', () => {
+			const data: AtlasData = {
+				frames: {
+					'hero.png': {
+						frame: { x: 2, y: 4, w: 16, h: 24 },
+						rotated: false,
+						trimmed: false,
+						spriteSourceSize: { x: 0, y: 0, w: 16, h: 24 },
+						sourceSize: { w: 16, h: 24 },
+					},
+				},
+				meta: { size: { w: 64, h: 64 } },
+			};
+
+			expect(parseTexturePackerAtlas(data)).toEqual({
+				'hero.png': { x: 2, y: 4, spriteWidth: 16, spriteHeight: 24 },
+			});
+		});
+
+		it('should parse the array format and set the atlas name', () => {
+			const data: AtlasData = {
+				frames: [
+					{ filename: 'a', frame: { x: 0, y: 0, w: 8, h: 8 } },
+					{ filename: 'b', frame: { x: 8, y: 0, w: 8, h: 8 } },
+				],
+			};
+
+			expect(parseTexturePackerAtlas(data, { atlas: 'ui' })).toEqual({
+				a: { x: 0, y: 0, spriteWidth: 8, spriteHeight: 8, atlas: 'ui' },
+				b: { x: 8, y: 0, spriteWidth: 8, spriteHeight: 8, atlas: 'ui' },
+			});
+		});
+
+		it('should keep trim offsets, rotation and pivots', () => {
+			const data: AtlasData = {
+				frames: {
+					tree: {
+						frame: { x: 10, y: 0, w: 20, h: 30 },
+						rotated: true,
+						trimmed: true,
+						spriteSourceSize: { x: 6, y: 2, w: 20, h: 30 },
+						sourceSize: { w: 32, h: 40 },
+						pivot: { x: 0.5, y: 1 },
+					},
+				},
+				meta: { size: { w: 40, h: 20 } },
+			};
+
+			expect(parseTexturePackerAtlas(data).tree).toEqual({
+				x: 10,
+				y: 0,
+				spriteWidth: 20,
+				spriteHeight: 30,
+				rotated: true,
+				offsetX: 6,
+				offsetY: 2,
+				sourceWidth: 32,
+				sourceHeight: 40,
+				pivotX: 16,
+				pivotY: 40,
+			});
+		});
+
+		it('should name the offending frame in validation errors', () => {
+			expect(() => parseTexturePackerAtlas({ frames: { bad: { frame: { x: 0, y: 0, w: 'x' } } } } as never)).toThrow(
+				'Atlas frame "bad" has an invalid "frame"'
+			);
+			expect(() => parseTexturePackerAtlas({ frames: { empty: { frame: { x: 0, y: 0, w: 0, h: 4 } } } })).toThrow(
+				'Atlas frame "empty" has an empty frame (0x4)'
+			);
+			expect(() =>
+				parseTexturePackerAtlas({
+					frames: { wide: { frame: { x: 60, y: 0, w: 8, h: 8 } } },
+					meta: { size: { w: 64, h: 64 } },
+				})
+			).toThrow('Atlas frame "wide" lies outside the 64x64 atlas image');
+			expect(() =>
+				parseTexturePackerAtlas({
+					frames: {
+						trim: {
+							frame: { x: 0, y: 0, w: 8, h: 8 },
+							spriteSourceSize: { x: 4, y: 0, w: 8, h: 8 },
+							sourceSize: { w: 10, h: 8 },
+						},
+					},
+				})
+			).toThrow('Atlas frame "trim" does not fit its source size');
+			expect(() =>
+				parseTexturePackerAtlas({ frames: [{ filename: 'twice', frame: { x: 0, y: 0, w: 1, h: 1 } }, { filename: 'twice', frame: { x: 0, y: 0, w: 1, h: 1 } }] })
+			).toThrow('Atlas frame "twice" appears more than once');
+			expect(() => parseTexturePackerAtlas({} as AtlasData)).toThrow('Atlas data has no "frames"');
+		});
+	});
+
+	describe('parseFreeTexturePackerAtlas', () => {
+		it('should parse the TexturePacker-compatible layout', () => {
+			const data: AtlasData = {
+				frames: {
+					coin: {
+						frame: { x: 0, y: 0, w: 6, h: 6 },
+						rotated: false,
+						trimmed: true,
+						spriteSourceSize: { x: 1, y: 1, w: 6, h: 6 },
+						sourceSize: { w: 8, h: 8 },
+					},
+				},
+				meta: { image: 'sheet.png', size: { w: 32, h: 32 } },
+			};
+
+			expect(parseFreeTexturePackerAtlas(data).coin).toEqual({
+				x: 0,
+				y: 0,
+				spriteWidth: 6,
+				spriteHeight: 6,
+				offsetX: 1,
+				offsetY: 1,
+				sourceWidth: 8,
+				sourceHeight: 8,
+			});
+		});
+	});
+
+	describe('parseAsepriteAtlas', () => {
+		const data: AtlasData = {
+			frames: [
+				{ filename: 'hero 0.aseprite', frame: { x: 0, y: 0, w: 16, h: 16 }, duration: 100 },
+				{ filename: 'hero 1.aseprite', frame: { x: 16, y: 0, w: 16, h: 16 }, duration: 150 },
+				{ filename: 'hero 2.aseprite', frame: { x: 32, y: 0, w: 16, h: 16 }, duration: 100 },
+			],
+			meta: {
+				size: { w: 48, h: 16 },
+				frameTags: [
+					{ name: 'idle', from: 0, to: 0, direction: 'forward' },
+					{ name: 'walk', from: 1, to: 2, direction: 'pingpong', repeat: '2' },
+				],
+			},
+		};
+
+		it('should return sprites and one animation per frame tag', () => {
+			const { sprites, animations } = parseAsepriteAtlas(data);
+
+			expect(Object.keys(sprites)).toEqual(['hero 0.aseprite', 'hero 1.aseprite', 'hero 2.aseprite']);
+			expect(animations.idle).toEqual({ frames: ['hero 0.aseprite'], durations: [100], direction: 'forward' });
+			expect(animations.walk).toEqual({
+				frames: ['hero 1.aseprite', 'hero 2.aseprite'],
+				durations: [150, 100],
+				direction: 'pingpong',
+				repeat: 2,
+			});
+		});
+
+		it('should name the offending tag in validation errors', () => {
+			const outOfRange = { ...data, meta: { frameTags: [{ name: 'run', from: 1, to: 5 }] } };
+			expect(() => parseAsepriteAtlas(outOfRange)).toThrow('Frame tag "run" has an invalid frame range (1 to 5)');
+
+			const badDirection = { ...data, meta: { frameTags: [{ name: 'spin', from: 0, to: 1, direction: 'sideways' }] } };
+			expect(() => parseAsepriteAtlas(badDirection as AtlasData)).toThrow('Frame tag "spin" has an unknown direction');
+		});
+	});
+});
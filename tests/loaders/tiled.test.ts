@@ -0,0 +1,177 @@
+import { parseTiledMap, parseTiledTmx } from '../../src/loaders/tiled';
+import type { TiledMap } from '../../src/types/tiled';
+
+const FLIP_H = 0x80000000;
+const FLIP_V = 0x40000000;
+const FLIP_D = 0x20000000;
+
+function createMap(): TiledMap {
+	return {
+		width: 2,
+		height: 2,
+		tilewidth: 16,
+		tileheight: 16,
+		orientation: 'orthogonal',
+		infinite: false,
+		tilesets: [
+			{
+				firstgid: 1,
+				name: 'terrain',
+				image: 'terrain.png',
+				imagewidth: 38,
+				imageheight: 38,
+				tilewidth: 16,
+				tileheight: 16,
+				tilecount: 4,
+				columns: 2,
+				margin: 2,
+				spacing: 2,
+				tiles: [
+					{
+						id: 3,
+						animation: [
+							{ tileid: 3, duration: 100 },
+							{ tileid: 2, duration: 150 },
+						],
+					},
+				],
+			},
+		],
+		layers: [
+			{ name: 'ground', type: 'tilelayer', data: [1, 2, 3, 4] },
+			{
+				name: 'decor',
+				type: 'group',
+				opacity: 0.5,
+				layers: [
+					{ name: 'props', type: 'tilelayer', data: [0, (2 | FLIP_H) >>> 0, (3 | FLIP_D) >>> 0, (4 | FLIP_D | FLIP_H) >>> 0] },
+					{ name: 'markers', type: 'objectgroup' },
+				],
+			},
+		],
+	};
+}
+
+describe('Tiled loaders', () => {
+	describe('parseTiledMap', () => {
+		it('should create one sprite per tile, honouring margin and spacing', () => {
+			const { sprites } = parseTiledMap(createMap(), { atlas: { terrain: 'terrain' } });
+
+			expect(sprites[1]).toEqual({ x: 2, y: 2, spriteWidth: 16, spriteHeight: 16, atlas: 'terrain' });
+			expect(sprites[4]).toEqual({ x: 20, y: 20, spriteWidth: 16, spriteHeight: 16, atlas: 'terrain' });
+		});
+
+		it('should flatten group layers and convert flip bits', () => {
+			const { map } = parseTiledMap(createMap());
+
+			expect(map.width).toBe(2);
+			expect(map.tileWidth).toBe(16);
+			expect(map.layers?.map(layer => layer.name)).toEqual(['ground', 'props']);
+			const props = map.layers![1];
+			expect(props.tiles).toEqual([null, 2, 3, 4]);
+			expect(props.opacity).toBe(0.5);
+			// Diagonal flips become a vertical flip plus a quarter turn
+			expect(Array.from(props.flags!)).toEqual([0, 1, 2 | 4, 4]);
+		});
+
+		it('should turn tile animations into animations keyed by tile', () => {
+			const { map } = parseTiledMap(createMap(), { keyPrefix: 'terrain:' });
+
+			expect(map.layers![0].tiles).toEqual(['terrain:1', 'terrain:2', 'terrain:3', 'terrain:4']);
+			expect(map.animations).toEqual({ 'terrain:4': { frames: ['terrain:4', 'terrain:3'], durations: [100, 150] } });
+		});
+
+		it('should decode uncompressed base64 layers', () => {
+			const data = createMap();
+			const gids = new Uint32Array([1, (2 | FLIP_V) >>> 0, 0, 4]);
+			data.layers = [
+				{ name: 'ground', type: 'tilelayer', encoding: 'base64', data: Buffer.from(gids.buffer).toString('base64') },
+			];
+
+			const layer = parseTiledMap(data).map.layers![0];
+			expect(layer.tiles).toEqual([1, 2, null, 4]);
+			expect(Array.from(layer.flags!)).toEqual([0, 2, 0, 0]);
+		});
+
+		it('should read the static layer property', () => {
+			const data = createMap();
+			data.layers[0].properties = [{ name: 'static', type: 'bool', value: false }];
+
+			expect(parseTiledMap(data).map.layers![0].static).toBe(false);
+		});
+
+		it('should name what is not supported', () => {
+			expect(() => parseTiledMap({ ...createMap(), orientation: 'isometric' })).toThrow(
+				'Only orthogonal Tiled maps are supported (got "isometric").'
+			);
+			expect(() => parseTiledMap({ ...createMap(), infinite: true })).toThrow('Infinite Tiled maps are not supported');
+
+			const external = createMap();
+			external.tilesets = [{ firstgid: 1, source: 'terrain.tsx' }];
+			expect(() => parseTiledMap(external)).toThrow('Tileset "terrain.tsx" is external');
+
+			const compressed = createMap();
+			compressed.layers = [{ name: 'ground', type: 'tilelayer', encoding: 'base64', compression: 'zlib', data: '' }];
+			expect(() => parseTiledMap(compressed)).toThrow('Layer "ground" uses zlib compression');
+
+			const unknownTile = createMap();
+			unknownTile.layers = [{ name: 'ground', type: 'tilelayer', data: [1, 2, 3, 9] }];
+			expect(() => parseTiledMap(unknownTile)).toThrow('Layer "ground" uses tile 9, which is not in any tileset.');
+
+			const short = createMap();
+			short.layers = [{ name: 'ground', type: 'tilelayer', data: [1] }];
+			expect(() => parseTiledMap(short)).toThrow('Layer "ground" has 1 tiles, expected 4 (2x2).');
+		});
+	});
+
+	describe('parseTiledTmx', () => {
+		const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="2" height="2" tilewidth="8" tileheight="8" infinite="0">
+ <tileset firstgid="1" name="dungeon &amp; caves" tilewidth="8" tileheight="8" tilecount="4" columns="2">
+  <image source="dungeon.png" width="16" height="16"/>
+  <tile id="1">
+   <animation>
+    <frame tileid="1" duration="80"/>
+    <frame tileid="2" duration="80"/>
+   </animation>
+  </tile>
+ </tileset>
+ <!-- comment -->
+ <layer id="1" name="floor" width="2" height="2">
+  <properties>
+   <property name="static" type="bool" value="false"/>
+  </properties>
+  <data encoding="csv">
+1,2,
+0,2147483652
+</data>
+ </layer>
+ <group id="2" name="upper" visible="0">
+  <layer id="3" name="roof" width="2" height="2">
+   <data>
+    <tile gid="3"/>
+    <tile/>
+    <tile/>
+    <tile gid="3"/>
+   </data>
+  </layer>
+ </group>
+</map>`;
+
+		it('should parse tilesets, layers and animations', () => {
+			const { map, sprites } = parseTiledTmx(tmx, { atlas: { 'dungeon & caves': 'dungeon' } });
+
+			expect(sprites[2]).toEqual({ x: 8, y: 0, spriteWidth: 8, spriteHeight: 8, atlas: 'dungeon' });
+			expect(map.layers).toEqual([
+				{ name: 'floor', tiles: [1, 2, null, 4], flags: new Uint8Array([0, 0, 0, 1]), static: false },
+				{ name: 'roof', tiles: [3, null, null, 3], visible: false },
+			]);
+			expect(map.animations).toEqual({ 2: { frames: [2, 3], durations: [80, 80] } });
+		});
+
+		it('should reject files that are not maps', () => {
+			expect(() => parseTiledTmx('<tileset name="x"/>')).toThrow('Expected a <map> root element');
+			expect(() => parseTiledTmx('<map><layer></map>')).toThrow('</map> does not close <layer>');
+		});
+	});
+});
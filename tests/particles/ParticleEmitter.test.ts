@@ -0,0 +1,128 @@
+import { ParticleEmitter } from '../../src/particles/ParticleEmitter';
+
+describe('ParticleEmitter', () => {
+	test('should spawn particles at the rate, carrying fractions over between updates', () => {
+		const emitter = new ParticleEmitter({ sprites: ['spark'], rate: 10, lifetime: 5, seed: 1 });
+
+		emitter.update(0.25);
+		expect(emitter.count).toBe(2);
+		emitter.update(0.25);
+		expect(emitter.count).toBe(5);
+
+		emitter.emitting = false;
+		emitter.update(1);
+		expect(emitter.count).toBe(5);
+	});
+
+	test('should burst at a position and drop particles past the cap', () => {
+		const emitter = new ParticleEmitter({ sprites: ['spark'], lifetime: 1, maxParticles: 3, seed: 1 });
+		emitter.x = 5;
+
+		expect(emitter.burst(2, 10, 20)).toBe(2);
+		expect(emitter.burst(2)).toBe(1);
+
+		expect(emitter.count).toBe(3);
+		expect(Array.from(emitter.positionX.subarray(0, 3))).toEqual([10, 10, 5]);
+		expect(emitter.positionY[0]).toBe(20);
+	});
+
+	test('should move particles with velocity, gravity and drag', () => {
+		const emitter = new ParticleEmitter({
+			sprites: ['spark'],
+			lifetime: 10,
+			speed: 100,
+			angle: 0,
+			gravityY: 50,
+			spin: 2,
+			seed: 1,
+		});
+		emitter.burst(1, 0, 0);
+
+		emitter.update(0.5);
+
+		expect(emitter.positionX[0]).toBeCloseTo(50);
+		expect(emitter.positionY[0]).toBeCloseTo(12.5);
+		expect(emitter.rotation[0]).toBeCloseTo(1);
+
+		const dragged = new ParticleEmitter({ sprites: ['spark'], lifetime: 10, speed: 100, angle: 0, drag: 2, seed: 1 });
+		dragged.burst(1, 0, 0);
+		dragged.update(1);
+		expect(dragged.positionX[0]).toBeCloseTo(100 * Math.exp(-2));
+	});
+
+	test('should remove particles at the end of their life, keeping the others packed', () => {
+		const emitter = new ParticleEmitter({ sprites: ['spark'], lifetime: [1, 3], seed: 7 });
+		emitter.burst(20);
+
+		emitter.update(2);
+
+		expect(emitter.count).toBeGreaterThan(0);
+		expect(emitter.count).toBeLessThan(20);
+		emitter.update(1);
+		expect(emitter.count).toBe(0);
+	});
+
+	test('should interpolate scale, alpha and color over life', () => {
+		const emitter = new ParticleEmitter({
+			sprites: ['spark'],
+			lifetime: 2,
+			scale: [1, 3],
+			alpha: [1, 1, 0],
+			color: [0xff0000, 0x0000ff],
+			seed: 1,
+		});
+		emitter.burst(1, 0, 0);
+
+		expect(emitter.scale[0]).toBe(1);
+		emitter.update(1.5);
+
+		expect(emitter.scale[0]).toBeCloseTo(2.5);
+		expect(Array.from(emitter.color.subarray(0, 4)).map(v => Math.round(v * 100) / 100)).toEqual([0.25, 0, 0.75, 0.5]);
+	});
+
+	test('should pick random sprites or play them as frames', () => {
+		const sprites = ['a', 'b', 'c', 'd'];
+		const random = new ParticleEmitter({ sprites, lifetime: 1, seed: 3 });
+		random.burst(50);
+		expect(new Set(random.frame.subarray(0, 50))).toEqual(new Set([0, 1, 2, 3]));
+
+		const animated = new ParticleEmitter({ sprites, lifetime: 10, frameRate: 2, seed: 3 });
+		animated.burst(1);
+		animated.update(2.6);
+		expect(animated.frame[0]).toBe(1);
+
+		const overLife = new ParticleEmitter({ sprites, lifetime: 2, framesOverLife: true, seed: 3 });
+		overLife.burst(1);
+		overLife.update(1.1);
+		expect(overLife.frame[0]).toBe(2);
+	});
+
+	test('should repeat the same particles for the same seed', () => {
+		const options = { sprites: ['spark'], lifetime: [1, 2] as [number, number], speed: [10, 50] as [number, number], rate: 30 };
+		const first = new ParticleEmitter({ ...options, seed: 42 });
+		const second = new ParticleEmitter({ ...options, seed: 42 });
+		const other = new ParticleEmitter({ ...options, seed: 43 });
+
+		for (let i = 0; i < 10; i++) {
+			first.update(0.1);
+			second.update(0.1);
+			other.update(0.1);
+		}
+
+		expect(second.count).toBe(first.count);
+		expect(Array.from(second.positionX.subarray(0, second.count))).toEqual(Array.from(first.positionX.subarray(0, first.count)));
+		expect(Array.from(other.positionX.subarray(0, other.count))).not.toEqual(Array.from(first.positionX.subarray(0, first.count)));
+	});
+
+	test('should clear particles and reject invalid options', () => {
+		const emitter = new ParticleEmitter({ sprites: ['spark'], lifetime: 1 });
+		emitter.burst(5);
+		emitter.clear();
+		expect(emitter.count).toBe(0);
+
+		expect(() => new ParticleEmitter({ sprites: [], lifetime: 1 })).toThrow('Particle emitter needs at least one sprite.');
+		expect(() => new ParticleEmitter({ sprites: ['spark'], lifetime: 1, maxParticles: 0 })).toThrow(
+			'Particle emitter maxParticles must be a positive integer (got 0).'
+		);
+	});
+});
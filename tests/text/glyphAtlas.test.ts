@@ -0,0 +1,149 @@
+import { createGlyphAtlas } from '../../src/text/glyphAtlas';
+
+// Ink box and advance of each character, like TextMetrics from a real canvas
+const METRICS: Record<string, { left: number; right: number; ascent: number; descent: number; width: number }> = {
+	A: { left: 0, right: 5, ascent: 7, descent: 0, width: 6 },
+	V: { left: 0, right: 5, ascent: 7, descent: 0, width: 6 },
+	j: { left: 0.5, right: 3, ascent: 7, descent: 2, width: 4 },
+	' ': { left: 0, right: 0, ascent: 0, descent: 0, width: 3 },
+};
+
+function createFakeCanvas() {
+	const image = { data: new Uint8ClampedArray(0) };
+	const context = {
+		font: '',
+		fillStyle: '',
+		textAlign: '',
+		textBaseline: '',
+		filled: [] as Array<[string, number, number]>,
+		putImageData: jest.fn(),
+		clearRect: jest.fn(),
+		measureText(text: string) {
+			const characters = Array.from(text);
+			const width = characters.reduce((sum, character) => sum + METRICS[character].width, 0);
+			// "AV" is kerned one pixel closer
+			const kerning = text === 'AV' ? -1 : 0;
+			const metrics = METRICS[characters[0]];
+			return {
+				width: width + kerning,
+				actualBoundingBoxLeft: metrics.left,
+				actualBoundingBoxRight: metrics.right,
+				actualBoundingBoxAscent: metrics.ascent,
+				actualBoundingBoxDescent: metrics.descent,
+				fontBoundingBoxAscent: 7.5,
+				fontBoundingBoxDescent: 2.5,
+			};
+		},
+		fillText(text: string, x: number, y: number) {
+			context.filled.push([text, x, y]);
+		},
+		getImageData(x: number, y: number, width: number, height: number) {
+			image.data = new Uint8ClampedArray(width * height * 4);
+			image.data.set([255, 255, 255, 40, 255, 255, 255, 200, 255, 255, 255, 128]);
+			return image;
+		},
+	};
+	const canvas = { width: 0, height: 0, getContext: () => context };
+	return { canvas: canvas as unknown as OffscreenCanvas, context, image };
+}
+
+describe('createGlyphAtlas', () => {
+	test('should pack glyphs tallest first and draw them at their baseline', () => {
+		const { canvas, context } = createFakeCanvas();
+
+		const atlas = createGlyphAtlas({ font: '8px Pixel', characters: 'AjA', canvas, padding: 1 });
+
+		expect(context.filled).toEqual([
+			['j', 1 + 1, 1 + 7],
+			['A', 6, 1 + 7],
+		]);
+		expect(canvas.width).toBe(12);
+		expect(canvas.height).toBe(11);
+		expect(context.fillStyle).toBe('#ffffff');
+		expect(context.font).toBe('8px Pixel');
+		expect(atlas.canvas).toBe(canvas);
+	});
+
+	test('should describe glyphs as a bitmap font', () => {
+		const { canvas } = createFakeCanvas();
+
+		const { font } = createGlyphAtlas({ font: '8px Pixel', characters: 'Aj ', canvas, atlas: 'ui' });
+
+		expect(font.lineHeight).toBe(11);
+		expect(font.base).toBe(8);
+		expect(font.face).toBe('8px Pixel');
+		expect(font.glyphs[106]).toEqual({
+			x: 1,
+			y: 1,
+			width: 4,
+			height: 9,
+			xOffset: -1,
+			yOffset: 1,
+			xAdvance: 4,
+			atlas: 'ui',
+		});
+		expect(font.glyphs[65]).toMatchObject({ x: 6, y: 1, width: 5, height: 7, xOffset: 0, yOffset: 1, xAdvance: 6 });
+		// Spaces only advance
+		expect(font.glyphs[32]).toMatchObject({ width: 0, height: 0, xAdvance: 3 });
+		expect(font.kerning).toEqual({});
+	});
+
+	test('should describe glyphs as sprites in cells of advance by line height', () => {
+		const { canvas } = createFakeCanvas();
+
+		const { sprites } = createGlyphAtlas({ font: '8px Pixel', characters: 'A\n ', canvas });
+
+		expect(sprites.A).toEqual({
+			x: 1,
+			y: 1,
+			spriteWidth: 5,
+			spriteHeight: 7,
+			offsetX: 0,
+			offsetY: 1,
+			sourceWidth: 6,
+			sourceHeight: 11,
+		});
+		expect(sprites[' ']).toMatchObject({ spriteWidth: 0, sourceWidth: 3 });
+		expect(sprites['\n']).toBeUndefined();
+	});
+
+	test('should threshold alpha for hard-edged glyphs', () => {
+		const { canvas, context, image } = createFakeCanvas();
+
+		createGlyphAtlas({ font: '8px Pixel', characters: 'A', canvas, threshold: 128 });
+
+		expect(Array.from(image.data.subarray(0, 12))).toEqual([255, 255, 255, 0, 255, 255, 255, 255, 255, 255, 255, 255]);
+		expect(context.putImageData).toHaveBeenCalledWith(image, 0, 0);
+	});
+
+	test('should keep antialiasing without a threshold', () => {
+		const { canvas, context } = createFakeCanvas();
+
+		createGlyphAtlas({ font: '8px Pixel', characters: 'A', canvas });
+
+		expect(context.putImageData).not.toHaveBeenCalled();
+	});
+
+	test('should measure kerning between pairs when asked', () => {
+		const { canvas } = createFakeCanvas();
+
+		const { font } = createGlyphAtlas({ font: '8px Pixel', characters: 'AV', canvas, kerning: true });
+
+		expect(font.kerning).toEqual({ 65: { 86: -1 } });
+	});
+
+	test('should wrap rows at the atlas width and reject glyphs that cannot fit', () => {
+		const { canvas, context } = createFakeCanvas();
+
+		createGlyphAtlas({ font: '8px Pixel', characters: 'AV', canvas, maxWidth: 10 });
+
+		expect(context.filled).toEqual([
+			['A', 1, 8],
+			['V', 1, 16],
+		]);
+		expect(canvas.height).toBe(17);
+		expect(() => createGlyphAtlas({ font: '8px Pixel', characters: 'A', canvas, maxWidth: 6 })).toThrow(
+			'Glyph "A" is 5 pixels wide, too wide for a 6 pixel glyph atlas.'
+		);
+	});
+});
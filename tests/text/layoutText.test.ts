@@ -0,0 +1,140 @@
+import { layoutText, measureText } from '../../src/text/layoutText';
+import { createSpriteFont } from '../../src/text/spriteFont';
+import type { BitmapFont, BitmapGlyph } from '../../src/types/font';
+
+function glyph(xAdvance: number): BitmapGlyph {
+	return { x: 0, y: 0, width: xAdvance, height: 10, xOffset: 0, yOffset: 0, xAdvance };
+}
+
+// Letters advance 10, spaces 5 and dots 4
+const font: BitmapFont = {
+	lineHeight: 12,
+	base: 9,
+	glyphs: { 32: glyph(5), 46: glyph(4) },
+	kerning: { 65: { 86: -2 } },
+	pages: [],
+};
+for (const character of 'ABCDEFGHIJKLMNOPQRSTUVWXYZ') {
+	font.glyphs[character.codePointAt(0)!] = glyph(10);
+}
+
+describe('measureText', () => {
+	test('should measure each line with kerning and letter spacing', () => {
+		const metrics = measureText('AV\nABC', font, { letterSpacing: 1 });
+
+		expect(metrics.lines.map(line => line.width)).toEqual([10 - 2 + 1 + 10, 32]);
+		expect(metrics.width).toBe(32);
+		expect(metrics.height).toBe(24);
+		expect(metrics.lineHeight).toBe(12);
+		expect(metrics.baseline).toBe(9);
+	});
+
+	test('should scale sizes and skip characters the font does not have', () => {
+		const metrics = measureText('A?B', font, { scale: 2, lineHeight: 15 });
+
+		expect(metrics.width).toBe(40);
+		expect(metrics.height).toBe(30);
+		expect(metrics.baseline).toBe(18);
+	});
+
+	test('should measure empty text as one empty line', () => {
+		const metrics = measureText('', font);
+
+		expect(metrics.width).toBe(0);
+		expect(metrics.lines).toEqual([{ text: '', width: 0, x: 0, y: 0 }]);
+	});
+});
+
+describe('layoutText', () => {
+	test('should wrap at spaces without counting trailing spaces', () => {
+		// "AB CD" is 45 wide
+		const layout = layoutText('AB CD EF', font, { maxWidth: 45 });
+
+		expect(layout.lines.map(line => line.text)).toEqual(['AB CD', 'EF']);
+		expect(layout.lines[1].y).toBe(12);
+		expect(layout.width).toBe(45);
+	});
+
+	test('should keep explicit line breaks and empty lines', () => {
+		const layout = layoutText('AB\n\nCD', font, { maxWidth: 100 });
+
+		expect(layout.lines.map(line => line.text)).toEqual(['AB', '', 'CD']);
+	});
+
+	test('should break words that are wider than the line', () => {
+		const layout = layoutText('ABCDEFG HI', font, { maxWidth: 30 });
+
+		expect(layout.lines.map(line => line.text)).toEqual(['ABC', 'DEF', 'G', 'HI']);
+	});
+
+	test('should not wrap when wrapping is off', () => {
+		const layout = layoutText('AB CD EF', font, { maxWidth: 30, wrap: false });
+
+		expect(layout.lines.map(line => line.text)).toEqual(['AB CD EF']);
+	});
+
+	test('should align lines horizontally', () => {
+		const center = layoutText('AB\nABCD', font, { maxWidth: 100, align: 'center' });
+		const right = layoutText('AB\nABCD', font, { maxWidth: 100, align: 'right' });
+		const unbounded = layoutText('AB\nABCD', font, { align: 'right' });
+
+		expect(center.lines.map(line => line.x)).toEqual([40, 30]);
+		expect(right.lines.map(line => line.x)).toEqual([80, 60]);
+		expect(unbounded.lines.map(line => line.x)).toEqual([20, 0]);
+	});
+
+	test('should align the block vertically within the height', () => {
+		const middle = layoutText('AB\nCD', font, { height: 100, verticalAlign: 'middle' });
+		const bottom = layoutText('AB\nCD', font, { height: 100, verticalAlign: 'bottom' });
+
+		expect(middle.lines.map(line => line.y)).toEqual([38, 50]);
+		expect(bottom.lines.map(line => line.y)).toEqual([76, 88]);
+	});
+
+	test('should drop lines after maxLines and mark the cut with an ellipsis', () => {
+		const plain = layoutText('AB CD EF', font, { maxWidth: 25, maxLines: 2 });
+		const marked = layoutText('AB CD EF', font, { maxWidth: 25, maxLines: 2, ellipsis: true });
+
+		expect(plain.lines.map(line => line.text)).toEqual(['AB', 'CD']);
+		// The font has no "…", so three dots are used: "C..." is 22 wide
+		expect(marked.lines.map(line => line.text)).toEqual(['AB', 'C...']);
+		expect(marked.height).toBe(24);
+	});
+
+	test('should truncate unwrapped lines that are too wide', () => {
+		const layout = layoutText('ABCDEF\nAB', font, { maxWidth: 40, wrap: false, ellipsis: '.' });
+
+		expect(layout.lines.map(line => line.text)).toEqual(['ABC.', 'AB']);
+	});
+
+	test('should use the font\'s ellipsis glyph when it has one', () => {
+		const withEllipsis: BitmapFont = { ...font, glyphs: { ...font.glyphs, 0x2026: glyph(6) } };
+
+		const layout = layoutText('ABCDEF', withEllipsis, { maxWidth: 30, wrap: false, ellipsis: true });
+
+		expect(layout.lines[0].text).toBe('AB…');
+	});
+});
+
+describe('createSpriteFont', () => {
+	test('should turn single-character sprites into glyphs', () => {
+		const spriteFont = createSpriteFont({
+			A: { x: 0, y: 0, spriteWidth: 8, spriteHeight: 8 },
+			g: { x: 8, y: 0, spriteWidth: 6, spriteHeight: 9, offsetX: 1, offsetY: 2, sourceWidth: 8, sourceHeight: 12 },
+			'😀': { x: 16, y: 0, spriteWidth: 10, spriteHeight: 10, atlas: 'emoji' },
+			player: { x: 0, y: 16, spriteWidth: 32, spriteHeight: 32 },
+		});
+
+		expect(Object.keys(spriteFont.glyphs).map(Number).sort((a, b) => a - b)).toEqual([65, 103, 128512]);
+		expect(spriteFont.glyphs[103]).toEqual({ x: 8, y: 0, width: 6, height: 9, xOffset: 1, yOffset: 2, xAdvance: 8 });
+		expect(spriteFont.glyphs[128512].atlas).toBe('emoji');
+		expect(spriteFont.lineHeight).toBe(12);
+		expect(measureText('Ag😀', spriteFont).width).toBe(26);
+	});
+
+	test('should reject rotated characters', () => {
+		expect(() => createSpriteFont({ A: { x: 0, y: 0, spriteWidth: 8, spriteHeight: 8, rotated: true } })).toThrow(
+			'Sprite font character "A" must not be rotated in its atlas.'
+		);
+	});
+});
@@ -0,0 +1,149 @@
+import { getRichTextEffectOffset, layoutRichText, parseRichText } from '../../src/text/richText';
+import type { BitmapFont, BitmapGlyph } from '../../src/types/font';
+
+function glyph(xAdvance: number, yOffset = 0): BitmapGlyph {
+	return { x: 0, y: 0, width: xAdvance, height: 8, xOffset: 0, yOffset, xAdvance };
+}
+
+const body: BitmapFont = {
+	lineHeight: 12,
+	base: 10,
+	glyphs: { 32: { ...glyph(4), width: 0, height: 0 }, 65: glyph(8, 2), 66: glyph(8, 2) },
+	kerning: { 65: { 66: -1 } },
+	pages: [],
+};
+
+const title: BitmapFont = {
+	lineHeight: 24,
+	base: 20,
+	glyphs: { 65: glyph(16, 4), 66: glyph(16, 4) },
+	kerning: {},
+	pages: [],
+};
+
+const getFont = (name: string): BitmapFont => {
+	if (name !== 'title') {
+		throw new Error(`Unknown font: ${name}`);
+	}
+	return title;
+};
+
+describe('parseRichText', () => {
+	test('should return plain text as one run', () => {
+		expect(parseRichText('Hello')).toEqual([{ text: 'Hello' }]);
+	});
+
+	test('should split styled spans into runs', () => {
+		expect(parseRichText('HP: [color=#f00]12[/color]/[color=#00ff80]20[/color]')).toEqual([
+			{ text: 'HP: ' },
+			{ text: '12', color: 0xff0000 },
+			{ text: '/' },
+			{ text: '20', color: 0x00ff80 },
+		]);
+	});
+
+	test('should nest tags and restore the outer style when one closes', () => {
+		expect(parseRichText('[wave][color=#fff]A[shake=3]B[/shake][/color]C[/wave]')).toEqual([
+			{ text: 'A', wave: 2, color: 0xffffff },
+			{ text: 'B', wave: 2, color: 0xffffff, shake: 3 },
+			{ text: 'C', wave: 2 },
+		]);
+	});
+
+	test('should add icons and font switches', () => {
+		expect(parseRichText('[font=title]Get [icon=coin] x3[/font]')).toEqual([
+			{ text: 'Get ', font: 'title' },
+			{ text: '', icon: 'coin', font: 'title' },
+			{ text: ' x3', font: 'title' },
+		]);
+	});
+
+	test('should read "[[" as a literal bracket and leave other brackets alone', () => {
+		expect(parseRichText('[[color] [ok ]')).toEqual([{ text: '[color] [ok ]' }]);
+	});
+
+	test('should reject invalid markup', () => {
+		expect(() => parseRichText('[bold]A[/bold]')).toThrow('Unknown rich text tag [bold].');
+		expect(() => parseRichText('[color=red]A[/color]')).toThrow('Rich text color "red" is not a #rgb or #rrggbb color.');
+		expect(() => parseRichText('[wave]A[/color]')).toThrow('Rich text [/color] does not close [wave].');
+		expect(() => parseRichText('A[/wave]')).toThrow('Rich text [/wave] has no opening tag.');
+		expect(() => parseRichText('[shake]A')).toThrow('Rich text [shake] is not closed.');
+		expect(() => parseRichText('[wave=high]A[/wave]')).toThrow('Rich text [wave=high] needs a number of pixels.');
+		expect(() => parseRichText('[icon]')).toThrow('Rich text [icon] needs a sprite name');
+	});
+});
+
+describe('layoutRichText', () => {
+	test('should place glyphs with kerning like bitmap text', () => {
+		const layout = layoutRichText(parseRichText('AB A'), body, getFont, {});
+
+		expect(layout.glyphs.map(g => [g.x, g.y])).toEqual([
+			[0, 2],
+			[7, 2],
+			[19, 2],
+		]);
+		expect(layout.width).toBe(27);
+		expect(layout.height).toBe(12);
+		expect(layout.baseline).toBe(10);
+	});
+
+	test('should share a baseline between fonts on a line', () => {
+		const layout = layoutRichText(parseRichText('A[font=title]A[/font]\nA'), body, getFont, {});
+
+		// The title font raises the baseline to 20 and its descent of 4 sets the line height
+		expect(layout.glyphs.map(g => [g.x, g.y])).toEqual([
+			[0, 12],
+			[8, 4],
+			[0, 24 + 2],
+		]);
+		expect(layout.height).toBe(24 + 12);
+		expect(layout.width).toBe(24);
+	});
+
+	test('should stand icons on the baseline and skip unknown ones', () => {
+		const sprites = { coin: { x: 0, y: 0, spriteWidth: 10, spriteHeight: 14 } };
+
+		const layout = layoutRichText(parseRichText('A[icon=coin][icon=gem]B'), body, getFont, sprites, {
+			scale: 2,
+			letterSpacing: 1,
+		});
+
+		expect(layout.glyphs.map(g => [g.x, g.y, g.index])).toEqual([
+			[0, 28 - 16, 0],
+			[18, 0, 1],
+			[40, 28 - 16, 2],
+		]);
+		expect(layout.glyphs[1].sprite).toBe(sprites.coin);
+		expect(layout.baseline).toBe(28);
+	});
+
+	test('should throw for unknown fonts', () => {
+		expect(() => layoutRichText(parseRichText('[font=mono]A[/font]'), body, getFont, {})).toThrow(
+			'Unknown font: mono'
+		);
+	});
+});
+
+describe('getRichTextEffectOffset', () => {
+	test('should not move glyphs without effects', () => {
+		expect(getRichTextEffectOffset({ text: 'A' }, 3, 1.5, 1)).toEqual([0, 0]);
+	});
+
+	test('should wave glyphs vertically, trailing by index', () => {
+		const run = { text: 'AB', wave: 2 };
+
+		expect(getRichTextEffectOffset(run, 0, 0.25, 2)[1]).toBeCloseTo(-4);
+		expect(getRichTextEffectOffset(run, 1, 0.25, 1)[1]).toBeCloseTo(-2 * Math.cos(0.6));
+	});
+
+	test('should shake within the distance and repeat for the same time', () => {
+		const run = { text: 'A', shake: 3 };
+
+		const offset = getRichTextEffectOffset(run, 4, 2.01, 1);
+
+		expect(Math.abs(offset[0])).toBeLessThanOrEqual(3);
+		expect(Math.abs(offset[1])).toBeLessThanOrEqual(3);
+		expect(getRichTextEffectOffset(run, 4, 2.02, 1)).toEqual(offset);
+		expect(getRichTextEffectOffset(run, 4, 2.2, 1)).not.toEqual(offset);
+	});
+});
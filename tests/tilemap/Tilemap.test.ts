@@ -0,0 +1,70 @@
+import { Tilemap } from '../../src/tilemap/Tilemap';
+
+function createMap(): Tilemap {
+	return new Tilemap({
+		id: 'level',
+		width: 4,
+		height: 3,
+		tileWidth: 16,
+		tileHeight: 16,
+		chunkSize: 2,
+		layers: [{ name: 'ground', tiles: ['grass', 'grass', 'water', null, 'grass', 'dirt', 'water', null, null, null, null, 'rock'] }],
+		animations: { water: { frames: ['water0', 'water1'], durations: 200 } },
+	});
+}
+
+describe('Tilemap', () => {
+	it('should read and write tiles by layer and cell', () => {
+		const map = createMap();
+
+		expect(map.getTile('ground', 1, 1)).toBe('dirt');
+		expect(map.getTile('ground', 3, 0)).toBeNull();
+		expect(map.getTile('ground', 9, 9)).toBeNull();
+
+		map.setTile('ground', 3, 0, 'rock', 1);
+		expect(map.getTile('ground', 3, 0)).toBe('rock');
+		expect(map.getLayer('ground').flags?.[3]).toBe(1);
+	});
+
+	it('should report the chunks changed since the last draw', () => {
+		const map = createMap();
+		map.setTile('ground', 0, 0, 'dirt');
+		map.setTile('ground', 1, 1, 'dirt');
+		map.setTile('ground', 3, 2, null);
+
+		expect(map.takeDirtyChunks()).toEqual(['level:0:0,0', 'level:0:1,1']);
+		expect(map.takeDirtyChunks()).toEqual([]);
+	});
+
+	it('should animate tiles in sync', () => {
+		const map = createMap();
+
+		expect(map.isAnimated('water')).toBe(true);
+		expect(map.isAnimated('grass')).toBe(false);
+		expect(map.getTileFrame('water')).toBe('water0');
+		expect(map.getTileFrame('grass')).toBe('grass');
+
+		map.update(0.2);
+		expect(map.getTileFrame('water')).toBe('water1');
+	});
+
+	it('should clamp tile ranges to the map with a margin for oversized tiles', () => {
+		const map = createMap();
+
+		expect(map.getTileRange(20, 5, 40, 20)).toEqual({ startColumn: 0, startRow: 0, endColumn: 3, endRow: 3 });
+		expect(map.getTileRange(-100, -100, 1000, 1000)).toEqual({ startColumn: 0, startRow: 0, endColumn: 4, endRow: 3 });
+	});
+
+	it('should reject layers and cells that do not fit the map', () => {
+		const map = createMap();
+
+		expect(() => map.addLayer({ name: 'top', tiles: [null] })).toThrow(
+			'Tilemap layer "top" has 1 tiles, expected 12 (4x3).'
+		);
+		expect(() => map.addLayer({ name: 'ground', tiles: new Array(12).fill(null) })).toThrow(
+			'Tilemap layer "ground" already exists.'
+		);
+		expect(() => map.getLayer('sky')).toThrow('Unknown tilemap layer: sky');
+		expect(() => map.setTile('ground', 4, 0, 'rock')).toThrow('Tile (4, 0) is outside the 4x3 tilemap.');
+	});
+});
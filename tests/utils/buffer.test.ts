@@ -2,6 +2,9 @@ import {
 	fillBufferWithRectangleVertices,
 	fillBufferWithSpriteCoordinates,
 	fillBufferWithLineVertices,
+	fillBufferWithLineSpriteCoordinates,
+	fillBufferWithTransformedRectangleVertices,
+	fillBufferWithColor,
 } from '../../src/utils/buffer';
 
 describe('Buffer Utilities', () => {
@@ -87,6 +90,54 @@ describe('Buffer Utilities', () => {
 		});
 	});
 
+	describe('fillBufferWithTransformedRectangleVertices', () => {
+		it('should match fillBufferWithRectangleVertices for the identity matrix', () => {
+			const expected = new Float32Array(12);
+			const buffer = new Float32Array(12);
+			fillBufferWithRectangleVertices(expected, 0, 10, 20, 50, 30);
+			fillBufferWithTransformedRectangleVertices(buffer, 0, 10, 20, 50, 30, 1, 0, 0, 1, 0, 0);
+
+			expect(buffer).toEqual(expected);
+		});
+
+		it('should translate corners by the matrix offset', () => {
+			const buffer = new Float32Array(12);
+			fillBufferWithTransformedRectangleVertices(buffer, 0, 0, 0, 10, 10, 1, 0, 0, 1, 5, -5);
+
+			expect(buffer[0]).toBe(5); // top left x
+			expect(buffer[1]).toBe(-5); // top left y
+			expect(buffer[10]).toBe(15); // bottom right x
+			expect(buffer[11]).toBe(5); // bottom right y
+		});
+
+		it('should rotate corners by 90 degrees clockwise around the origin', () => {
+			const buffer = new Float32Array(12);
+			// a = cos, b = sin, c = -sin, d = cos for rotation = PI / 2
+			fillBufferWithTransformedRectangleVertices(buffer, 0, 0, 0, 10, 20, 0, 1, -1, 0, 0, 0);
+
+			// Top right corner (10, 0) ends up at (0, 10)
+			expect(buffer[2]).toBeCloseTo(0, 5);
+			expect(buffer[3]).toBeCloseTo(10, 5);
+			// Bottom left corner (0, 20) ends up at (-20, 0)
+			expect(buffer[4]).toBeCloseTo(-20, 5);
+			expect(buffer[5]).toBeCloseTo(0, 5);
+			// Bottom right corner (10, 20) ends up at (-20, 10)
+			expect(buffer[10]).toBeCloseTo(-20, 5);
+			expect(buffer[11]).toBeCloseTo(10, 5);
+		});
+
+		it('should keep the shared triangle vertices identical', () => {
+			const buffer = new Float32Array(12);
+			fillBufferWithTransformedRectangleVertices(buffer, 0, 3, 4, 10, 20, 0.5, 0.2, -0.3, 1.5, 7, 9);
+
+			// Bottom left and top right corners are shared by both triangles
+			expect(buffer[6]).toBe(buffer[4]);
+			expect(buffer[7]).toBe(buffer[5]);
+			expect(buffer[8]).toBe(buffer[2]);
+			expect(buffer[9]).toBe(buffer[3]);
+		});
+	});
+
 	describe('fillBufferWithSpriteCoordinates', () => {
 		it('should fill buffer with correct UV coordinates for a basic sprite', () => {
 			const buffer = new Float32Array(12);
@@ -182,6 +233,64 @@ describe('Buffer Utilities', () => {
 			expect(buffer[5]).toBeCloseTo(expectedV2, 5);
 		});
 
+		it('should swap U coordinates when flipped horizontally', () => {
+			const buffer = new Float32Array(12);
+			fillBufferWithSpriteCoordinates(buffer, 0, 0, 0, 32, 32, 128, 128, true);
+
+			expect(buffer[0]).toBe(0.25); // top left u = u2
+			expect(buffer[1]).toBe(0); // top left v = v1
+			expect(buffer[2]).toBe(0); // top right u = u1
+			expect(buffer[10]).toBe(0); // bottom right u = u1
+			expect(buffer[11]).toBe(0.25); // bottom right v = v2
+		});
+
+		it('should swap V coordinates when flipped vertically', () => {
+			const buffer = new Float32Array(12);
+			fillBufferWithSpriteCoordinates(buffer, 0, 0, 0, 32, 32, 128, 128, false, true);
+
+			expect(buffer[0]).toBe(0); // top left u = u1
+			expect(buffer[1]).toBe(0.25); // top left v = v2
+			expect(buffer[5]).toBe(0); // bottom left v = v1
+			expect(buffer[11]).toBe(0); // bottom right v = v1
+		});
+
+		it('should rotate texture coordinates a quarter turn clockwise', () => {
+			const buffer = new Float32Array(12);
+			fillBufferWithSpriteCoordinates(buffer, 0, 0, 0, 32, 32, 128, 128, false, false, 1);
+
+			// Top left shows the source bottom left corner
+			expect([buffer[0], buffer[1]]).toEqual([0, 0.25]);
+			// Top right shows the source top left corner
+			expect([buffer[2], buffer[3]]).toEqual([0, 0]);
+			// Bottom left shows the source bottom right corner
+			expect([buffer[4], buffer[5]]).toEqual([0.25, 0.25]);
+			// Bottom right shows the source top right corner
+			expect([buffer[10], buffer[11]]).toEqual([0.25, 0]);
+		});
+
+		it('should treat four quarter turns and negative turns consistently', () => {
+			const plain = new Float32Array(12);
+			const fullTurn = new Float32Array(12);
+			const clockwise = new Float32Array(12);
+			const counterClockwise = new Float32Array(12);
+			fillBufferWithSpriteCoordinates(plain, 0, 16, 8, 32, 16, 128, 128);
+			fillBufferWithSpriteCoordinates(fullTurn, 0, 16, 8, 32, 16, 128, 128, false, false, 4);
+			fillBufferWithSpriteCoordinates(clockwise, 0, 16, 8, 32, 16, 128, 128, false, false, 3);
+			fillBufferWithSpriteCoordinates(counterClockwise, 0, 16, 8, 32, 16, 128, 128, false, false, -1);
+
+			expect(fullTurn).toEqual(plain);
+			expect(counterClockwise).toEqual(clockwise);
+		});
+
+		it('should be equivalent to a flip in both axes after two quarter turns', () => {
+			const halfTurn = new Float32Array(12);
+			const flipped = new Float32Array(12);
+			fillBufferWithSpriteCoordinates(halfTurn, 0, 16, 8, 32, 16, 128, 128, false, false, 2);
+			fillBufferWithSpriteCoordinates(flipped, 0, 16, 8, 32, 16, 128, 128, true, true);
+
+			expect(halfTurn).toEqual(flipped);
+		});
+
 		it('should handle very small sprites with floating point precision', () => {
 			const buffer = new Float32Array(12);
 			// 1x1 pixel sprite in 1024x1024 texture
@@ -195,6 +304,28 @@ describe('Buffer Utilities', () => {
 		});
 	});
 
+	describe('fillBufferWithColor', () => {
+		it('should write the same RGBA color for all 6 vertices', () => {
+			const buffer = new Float32Array(24);
+			fillBufferWithColor(buffer, 0, 0.1, 0.2, 0.3, 0.4);
+
+			for (let i = 0; i < 24; i += 4) {
+				expect(buffer[i]).toBeCloseTo(0.1, 5);
+				expect(buffer[i + 1]).toBeCloseTo(0.2, 5);
+				expect(buffer[i + 2]).toBeCloseTo(0.3, 5);
+				expect(buffer[i + 3]).toBeCloseTo(0.4, 5);
+			}
+		});
+
+		it('should handle buffer offset correctly', () => {
+			const buffer = new Float32Array(48);
+			fillBufferWithColor(buffer, 24, 1, 1, 1, 1);
+
+			expect(buffer.slice(0, 24).every(val => val === 0)).toBe(true);
+			expect(buffer.slice(24).every(val => val === 1)).toBe(true);
+		});
+	});
+
 	describe('fillBufferWithLineVertices', () => {
 		it('should create vertices for a horizontal line', () => {
 			const buffer = new Float32Array(12);
@@ -268,8 +399,28 @@ describe('Buffer Utilities', () => {
 			fillBufferWithLineVertices(buffer, 0, 5, 5, 5, 5, 2);
 
 			// This creates a degenerate line but should not crash
-			// Some values might be NaN due to division by zero in angle calculation
-			expect(buffer.every(val => isFinite(val) || isNaN(val))).toBe(true);
+			expect(buffer.every(val => isFinite(val))).toBe(true);
+		});
+
+		it('should extrude vertical lines sideways in both directions', () => {
+			const down = new Float32Array(12);
+			const up = new Float32Array(12);
+			fillBufferWithLineVertices(down, 0, 10, 0, 10, 50, 4);
+			fillBufferWithLineVertices(up, 0, 10, 50, 10, 0, 4);
+
+			expect(Array.from(down)).toEqual([8, 0, 8, 50, 12, 50, 12, 0, 8, 0, 12, 50]);
+			expect(Array.from(up)).toEqual([12, 50, 12, 0, 8, 0, 8, 50, 12, 50, 8, 0]);
+		});
+
+		it('should draw thin lines on the same side of their direction', () => {
+			const right = new Float32Array(12);
+			const left = new Float32Array(12);
+			fillBufferWithLineVertices(right, 0, 0, 10, 20, 10, 1);
+			fillBufferWithLineVertices(left, 0, 20, 10, 0, 10, 1);
+
+			// One pixel wide, on the left of travel: above a line going right, below one going left
+			expect(Math.min(...Array.from(right).filter((_, i) => i % 2 === 1))).toBe(9);
+			expect(Math.max(...Array.from(left).filter((_, i) => i % 2 === 1))).toBe(11);
 		});
 
 		it('should create correct triangle formation for simple horizontal line', () => {
@@ -335,4 +486,20 @@ describe('Buffer Utilities', () => {
 			expect(buffer[1]).toBeCloseTo(expectedV1, 5);
 		});
 	});
+
+	describe('fillBufferWithLineSpriteCoordinates', () => {
+		it('should run the sprite width from the start of the line to its end', () => {
+			const vertices = new Float32Array(12);
+			const uvs = new Float32Array(12);
+			fillBufferWithLineVertices(vertices, 0, 0, 10, 100, 10, 4);
+			fillBufferWithLineSpriteCoordinates(uvs, 0, 10, 20, 30, 40, 100, 100);
+
+			// Every vertex at the start of the line has u1, every one at the end u2
+			for (let i = 0; i < 12; i += 2) {
+				expect(uvs[i]).toBeCloseTo(vertices[i] === 0 ? 0.1 : 0.4, 5);
+				// The D-C side (y = 8) shows the top of the sprite
+				expect(uvs[i + 1]).toBeCloseTo(vertices[i + 1] === 8 ? 0.2 : 0.6, 5);
+			}
+		});
+	});
 });
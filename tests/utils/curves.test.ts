@@ -0,0 +1,48 @@
+import { getCatmullRomPoints, getCubicBezierPoints, getQuadraticBezierPoints } from '../../src/utils/curves';
+
+describe('Curve Utilities', () => {
+	describe('getQuadraticBezierPoints', () => {
+		test('should include both end points and bend toward the control point', () => {
+			expect(getQuadraticBezierPoints(0, 0, 10, 10, 20, 0, 2)).toEqual([0, 0, 10, 5, 20, 0]);
+		});
+
+		test('should pick a segment count from the curve length and append to the output', () => {
+			const out = [1, 2];
+
+			getQuadraticBezierPoints(0, 0, 10, 10, 20, 0, undefined, out);
+
+			expect(out.slice(0, 4)).toEqual([1, 2, 0, 0]);
+			expect(out.length).toBe(2 + 5 * 2);
+		});
+	});
+
+	describe('getCubicBezierPoints', () => {
+		test('should follow both control points', () => {
+			const points = getCubicBezierPoints(0, 0, 0, 30, 30, 30, 30, 0, 2);
+
+			expect(points).toEqual([0, 0, 15, 22.5, 30, 0]);
+		});
+	});
+
+	describe('getCatmullRomPoints', () => {
+		test('should pass through every point of an open spline', () => {
+			const points = getCatmullRomPoints([0, 0, 10, 10, 20, 0], 4);
+
+			expect(points.length).toBe((1 + 2 * 4) * 2);
+			expect(points.slice(0, 2)).toEqual([0, 0]);
+			expect(points.slice(8, 10)).toEqual([10, 10]);
+			expect(points.slice(16)).toEqual([20, 0]);
+		});
+
+		test('should curve back to the start of a closed spline without repeating it', () => {
+			const points = getCatmullRomPoints([0, 0, 10, 10, 20, 0], 4, true);
+
+			expect(points.length).toBe((1 + 4 * 3 - 1) * 2);
+			expect(points.slice(-2)).not.toEqual([0, 0]);
+		});
+
+		test('should copy fewer than three points as they are', () => {
+			expect(getCatmullRomPoints([0, 0, 10, 10], 4)).toEqual([0, 0, 10, 10]);
+		});
+	});
+});
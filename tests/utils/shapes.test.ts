@@ -0,0 +1,89 @@
+import { tessellatePolyline } from '../../src/utils/shapes';
+
+describe('tessellatePolyline', () => {
+	test('should extrude a single segment into two triangles with butt caps', () => {
+		const out: number[] = [];
+
+		const count = tessellatePolyline([0, 0, 10, 0], 2, undefined, out);
+
+		expect(count).toBe(2);
+		expect(out).toEqual([0, 1, 10, 1, 10, -1, 0, 1, 10, -1, 0, -1]);
+	});
+
+	test('should extend square caps by half the thickness', () => {
+		const out: number[] = [];
+
+		tessellatePolyline([0, 0, 10, 0], 2, { cap: 'square' }, out);
+
+		expect(out).toEqual([-1, 1, 11, 1, 11, -1, -1, 1, 11, -1, -1, -1]);
+	});
+
+	test('should add a half circle fan for each round cap', () => {
+		const out: number[] = [];
+
+		const count = tessellatePolyline([0, 0, 10, 0], 2, { cap: 'round', segments: 8 }, out);
+
+		expect(count).toBe(2 + 4 * 2);
+		// Every cap point lies on a circle around its end point
+		for (let i = 0; i < 8 * 6; i += 2) {
+			const centerX = out[i] < 5 ? 0 : 10;
+			expect(Math.hypot(out[i] - centerX, out[i + 1])).toBeLessThanOrEqual(1 + 1e-9);
+		}
+	});
+
+	test('should share mitered corner points between segments', () => {
+		const out: number[] = [];
+
+		const count = tessellatePolyline([0, 0, 10, 0, 10, 10], 2, undefined, out);
+
+		expect(count).toBe(4);
+		// End of the first segment and start of the second meet at the miter
+		expect(out.slice(2, 6).map(v => Math.round(v * 1e6) / 1e6)).toEqual([9, 1, 11, -1]);
+		expect(out.slice(12, 14).map(v => Math.round(v * 1e6) / 1e6)).toEqual([9, 1]);
+		expect(out.slice(22, 24).map(v => Math.round(v * 1e6) / 1e6)).toEqual([11, -1]);
+	});
+
+	test('should fill the outside of bevel joins with one triangle', () => {
+		const out: number[] = [];
+
+		const count = tessellatePolyline([0, 0, 10, 0, 10, 10], 2, { join: 'bevel' }, out);
+
+		expect(count).toBe(5);
+		expect(out.slice(0, 6).map(v => Math.round(v * 1e6) / 1e6)).toEqual([10, 0, 10, -1, 11, 0]);
+	});
+
+	test('should fill round joins with a fan sized by the turn', () => {
+		const out: number[] = [];
+
+		const count = tessellatePolyline([0, 0, 10, 0, 10, 10], 2, { join: 'round', segments: 16 }, out);
+
+		// A quarter turn takes a quarter of the circle's segments
+		expect(count).toBe(4 + 4);
+	});
+
+	test('should fall back to a bevel past the miter limit', () => {
+		const out: number[] = [];
+
+		expect(tessellatePolyline([0, 0, 10, 0, 0, 1], 2, undefined, out)).toBe(5);
+		expect(tessellatePolyline([0, 0, 10, 0, 0, 1], 2, { miterLimit: 100 }, out)).toBe(4);
+	});
+
+	test('should join the last point back to the first without caps when closed', () => {
+		const out: number[] = [];
+
+		const count = tessellatePolyline([0, 0, 10, 0, 10, 10, 0, 10], 2, { closed: true, cap: 'round' }, out);
+
+		expect(count).toBe(8);
+		// The first corner is mitered too
+		expect(out.slice(0, 2).map(v => Math.round(v * 1e6) / 1e6)).toEqual([1, 1]);
+	});
+
+	test('should skip repeated points and draw nothing without a segment', () => {
+		const out: number[] = [];
+
+		expect(tessellatePolyline([0, 0, 0, 0, 10, 0], 2, undefined, out)).toBe(2);
+		expect(tessellatePolyline([5, 5, 5, 5], 2, undefined, out)).toBe(0);
+		expect(tessellatePolyline([0, 0, 10, 0], 0, undefined, out)).toBe(0);
+		expect(out).toEqual([]);
+	});
+});